@@ -0,0 +1,253 @@
+import type { Context } from 'probot';
+import { LineCounter, isMap, isSeq, parse, parseDocument } from 'yaml';
+import type { Document, Node } from 'yaml';
+import { createCheckRun } from '../client.js';
+import type { CheckRunAnnotation } from '../client.js';
+import type { ConfigPath, ValidationIssue } from '../policy/validate.js';
+import { formatPath, validatePolicyConfig } from '../policy/validate.js';
+import {
+	diffPolicies,
+	renderPolicyDiff,
+	weakeningChanges,
+} from '../policy/diff.js';
+import { expandRuleTemplates } from '../policy/templates.js';
+import { findUnreachableRules } from '../policy/references.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+export const CONFIG_CHECK_NAME = 'deploynaut config';
+
+export const CONFIG_PATH = '.github/deploynaut.yml';
+
+// GitHub accepts at most 50 annotations per check run request
+const MAX_ANNOTATIONS = 50;
+
+/**
+ * Problem found in a configuration file, with the lines it applies to
+ */
+export interface ConfigProblem {
+	line: number;
+	endLine: number;
+	path?: string;
+	message: string;
+}
+
+/**
+ * Validate the content of a configuration file
+ * @param content YAML content of the file
+ * @returns Syntax errors, or the schema and rule reference problems, in document order
+ */
+export function validateConfigFile(content: string): ConfigProblem[] {
+	const lineCounter = new LineCounter();
+	const document = parseDocument(content, { lineCounter });
+
+	if (document.errors.length > 0) {
+		return document.errors.map((error) => ({
+			line: error.linePos?.[0].line ?? 1,
+			endLine: error.linePos?.[1]?.line ?? error.linePos?.[0].line ?? 1,
+			message: error.message,
+		}));
+	}
+
+	const config = document.toJS();
+	// Rules may be defined in the extended file, which is not validated here
+	const partial = isExtending(config);
+
+	return locateIssues(
+		document,
+		lineCounter,
+		validatePolicyConfig(config, { partial }),
+	);
+}
+
+/**
+ * Find problems of a valid configuration file that do not prevent it from being used
+ * @param content YAML content of the file
+ * @returns Rules that are never used, in document order
+ */
+export function findConfigWarnings(content: string): ConfigProblem[] {
+	const lineCounter = new LineCounter();
+	const document = parseDocument(content, { lineCounter });
+	const config = document.toJS();
+
+	// The approval policy may be defined in the extended file
+	if (isExtending(config)) {
+		return [];
+	}
+	return locateIssues(document, lineCounter, findUnreachableRules(config));
+}
+
+function locateIssues(
+	document: Document,
+	lineCounter: LineCounter,
+	issues: ValidationIssue[],
+): ConfigProblem[] {
+	return issues
+		.map((issue) => {
+			const node = findNode(document.contents, issue.path);
+			const [start, end] = node?.range ?? [0, 0];
+			return {
+				line: lineCounter.linePos(start).line,
+				endLine: lineCounter.linePos(Math.max(start, end - 1)).line,
+				path: formatPath(issue.path),
+				message: issue.message,
+			};
+		})
+		.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Find the node of a configuration path. Keys of mappings resolve to the key node,
+ * so problems are reported on the line the key is written on.
+ * @returns The deepest node found along the path
+ */
+function findNode(root: unknown, path: ConfigPath): Node | undefined {
+	let node = root as Node | undefined;
+	let located = node;
+	for (const segment of path) {
+		if (isMap(node)) {
+			const pair = node.items.find(
+				(item) => (item.key as { value?: unknown })?.value === segment,
+			);
+			located = (pair?.key as Node | undefined) ?? located;
+			node = pair?.value as Node | undefined;
+		} else if (isSeq(node) && typeof segment === 'number') {
+			node = node.items[segment] as Node | undefined;
+			located = node ?? located;
+		} else {
+			break;
+		}
+	}
+	return located;
+}
+
+/**
+ * Validate a configuration file and publish the problems as a check run with
+ * annotations on the lines they were found. Valid files are compared with the
+ * base configuration, and changes that weaken the protection of production-like
+ * environments are flagged.
+ * @param context The GitHub context
+ * @param headSha The commit SHA to publish the check run on
+ * @param content YAML content of the file at the head SHA
+ * @param baseContent YAML content of the file at the base SHA, if it exists
+ */
+export async function publishConfigCheck(
+	context: Context,
+	headSha: string,
+	content: string,
+	baseContent?: string,
+): Promise<void> {
+	const problems = validateConfigFile(content);
+	const output =
+		problems.length > 0
+			? renderProblems(problems)
+			: {
+					...renderChanges(content, baseContent),
+					annotations: findConfigWarnings(content)
+						.slice(0, MAX_ANNOTATIONS)
+						.map((problem) => toAnnotation(problem, 'warning')),
+				};
+
+	const checkRun = await createCheckRun(
+		context,
+		CONFIG_CHECK_NAME,
+		headSha,
+		output.conclusion,
+		output,
+	);
+	context.log.info(
+		`Created config check run ${checkRun.id} on ${headSha} with ${problems.length} problems`,
+	);
+}
+
+function renderProblems(problems: ConfigProblem[]) {
+	const annotations = problems
+		.slice(0, MAX_ANNOTATIONS)
+		.map((problem) => toAnnotation(problem, 'failure'));
+
+	return {
+		conclusion: 'failure',
+		title: `${problems.length} problem${problems.length === 1 ? '' : 's'} found in ${CONFIG_PATH}`,
+		summary: problems
+			.map(
+				(problem) =>
+					`- Line ${problem.line}: ${problem.path ? `\`${problem.path}\` ` : ''}${problem.message}`,
+			)
+			.join('\n'),
+		annotations,
+	};
+}
+
+function toAnnotation(
+	problem: ConfigProblem,
+	level: CheckRunAnnotation['annotation_level'],
+): CheckRunAnnotation {
+	return {
+		path: CONFIG_PATH,
+		start_line: problem.line,
+		end_line: problem.endLine,
+		annotation_level: level,
+		message: problem.message,
+		...(problem.path && { title: problem.path }),
+	};
+}
+
+function renderChanges(content: string, baseContent: string | undefined) {
+	const head = parse(content);
+	const base = parseBase(baseContent);
+
+	// Inherited settings are not available, so partial files cannot be compared
+	if (isExtending(head) || isExtending(base)) {
+		return {
+			conclusion: 'success',
+			title: 'Configuration is valid',
+			summary: `\`${CONFIG_PATH}\` is valid. Policy changes are not compared for files that use \`_extends\` or \`extends\`.`,
+		};
+	}
+
+	const changes = diffPolicies(
+		base && expandRuleTemplates(base),
+		expandRuleTemplates({ ...head, approval_rules: head.approval_rules ?? [] }),
+	);
+	const weakening = weakeningChanges(changes);
+	const environments = [
+		...new Set(weakening.flatMap((change) => change.environments)),
+	];
+
+	return {
+		// Weakening changes may be intended, so they are flagged without failing the check
+		conclusion: weakening.length > 0 ? 'neutral' : 'success',
+		title:
+			weakening.length > 0
+				? `Configuration weakens protection of ${environments.join(', ')}`
+				: 'Configuration is valid',
+		summary:
+			weakening.length > 0
+				? `\`${CONFIG_PATH}\` is valid, but ${weakening.length} change${weakening.length === 1 ? '' : 's'} weaken${weakening.length === 1 ? 's' : ''} the protection of production-like environments.`
+				: `\`${CONFIG_PATH}\` is valid.`,
+		text: renderPolicyDiff(changes),
+	};
+}
+
+function isExtending(config: unknown): boolean {
+	return (
+		typeof config === 'object' &&
+		config !== null &&
+		('_extends' in config || (config as { extends?: unknown }).extends === true)
+	);
+}
+
+// An invalid base configuration cannot be compared, so it is treated as a new file
+function parseBase(content: string | undefined): PolicyConfig | undefined {
+	if (content === undefined) {
+		return undefined;
+	}
+	try {
+		const base = parse(content);
+		const issues = validatePolicyConfig(base, { partial: isExtending(base) });
+		return issues.length === 0
+			? { ...base, approval_rules: base.approval_rules ?? [] }
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,182 @@
+import type { Context } from 'probot';
+import {
+	createCheckRun,
+	listCheckRunsForRef,
+	updateCheckRun,
+} from '../client.js';
+import type { EnvironmentReport, EnvironmentStatus } from '../policy/report.js';
+import { renderEnvironmentReport } from '../policy/report.js';
+import type { PolicyContext } from '../policy/types.js';
+
+export const POLICY_CHECK_NAME = 'deploynaut policy';
+
+// Each environment section in the check run text starts with this marker so
+// sections published by earlier evaluations can be preserved on update. The
+// marker records the evaluated deployment so that it can be evaluated again.
+const SECTION_MARKER =
+	/<!-- deploynaut:environment=(.+?) status=(\w+)(?: deployment=(\S+))? -->\n/g;
+
+const STATUS_SUMMARIES: Record<EnvironmentStatus, [string, string]> = {
+	approved: ['✅', 'approved'],
+	pending: ['⏳', 'waiting for approval'],
+	rejected: ['❌', 'rejected'],
+};
+
+interface EnvironmentSection {
+	status: EnvironmentStatus;
+	markdown: string;
+	deployment?: PolicyContext['deployment'];
+}
+
+/**
+ * List the deployments of the environments published in the policy check run on the
+ * head SHA, so that they can be evaluated again when none of them is waiting
+ * @param context The GitHub context
+ * @param headSha The commit SHA the check run was published on
+ * @returns Deployments of the environments, if they were recorded
+ */
+export async function listPolicyCheckDeployments(
+	context: Context,
+	headSha: string,
+): Promise<Array<NonNullable<PolicyContext['deployment']>>> {
+	try {
+		const [existing] = await listCheckRunsForRef(
+			context,
+			headSha,
+			POLICY_CHECK_NAME,
+		);
+		return [...parseSections(existing?.output?.text ?? '').values()].flatMap(
+			(section) => (section.deployment ? [section.deployment] : []),
+		);
+	} catch (error) {
+		context.log.warn(
+			`Failed to list policy check run on ${headSha}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+		return [];
+	}
+}
+
+/**
+ * Publish the policy evaluation for one or more environments as a check run on the head SHA.
+ * An existing check run is updated in place, keeping the sections of environments
+ * that were not re-evaluated.
+ * @param context The GitHub context
+ * @param headSha The commit SHA to publish the check run on
+ * @param reports Reports for the environments that were evaluated
+ */
+export async function publishPolicyCheck(
+	context: Context,
+	headSha: string,
+	reports: EnvironmentReport[],
+): Promise<void> {
+	if (reports.length === 0) {
+		return;
+	}
+
+	try {
+		const [existing] = await listCheckRunsForRef(
+			context,
+			headSha,
+			POLICY_CHECK_NAME,
+		);
+
+		const sections = parseSections(existing?.output?.text ?? '');
+		for (const report of reports) {
+			sections.set(report.environment, {
+				status: report.status,
+				markdown: renderEnvironmentReport(report),
+				deployment: report.deployment,
+			});
+		}
+
+		const conclusion = getConclusion([...sections.values()]);
+		const output = renderOutput(sections);
+
+		if (existing) {
+			await updateCheckRun(context, existing.id, conclusion, output);
+			context.log.info(`Updated policy check run ${existing.id} on ${headSha}`);
+		} else {
+			const checkRun = await createCheckRun(
+				context,
+				POLICY_CHECK_NAME,
+				headSha,
+				conclusion,
+				output,
+			);
+			context.log.info(`Created policy check run ${checkRun.id} on ${headSha}`);
+		}
+	} catch (error) {
+		// The check run is informational, so failing to publish it must not
+		// prevent deployments from being approved
+		context.log.warn(
+			`Failed to publish policy check run on ${headSha}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+}
+
+function getConclusion(sections: EnvironmentSection[]): string {
+	if (sections.some((section) => section.status === 'rejected')) {
+		return 'failure';
+	}
+	if (sections.every((section) => section.status === 'approved')) {
+		return 'success';
+	}
+	return 'neutral';
+}
+
+function parseSections(text: string): Map<string, EnvironmentSection> {
+	const sections = new Map<string, EnvironmentSection>();
+	const markers = [...text.matchAll(SECTION_MARKER)];
+	markers.forEach((marker, idx) => {
+		const start = marker.index + marker[0].length;
+		const end = markers[idx + 1]?.index ?? text.length;
+		sections.set(marker[1], {
+			status: marker[2] as EnvironmentStatus,
+			markdown: text.slice(start, end).trim(),
+			deployment: parseDeployment(marker[3]),
+		});
+	});
+	return sections;
+}
+
+// Deployments are URI encoded so that refs cannot end the HTML comment
+function parseDeployment(
+	value: string | undefined,
+): PolicyContext['deployment'] {
+	try {
+		return value ? JSON.parse(decodeURIComponent(value)) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function renderOutput(sections: Map<string, EnvironmentSection>) {
+	const environments = [...sections.keys()].sort();
+	const approved = environments.filter(
+		(environment) => sections.get(environment)!.status === 'approved',
+	);
+
+	const summary = environments
+		.map((environment) => {
+			const [icon, description] =
+				STATUS_SUMMARIES[sections.get(environment)!.status];
+			return `- ${icon} **${environment}**: ${description}`;
+		})
+		.join('\n');
+
+	const text = environments
+		.map((environment) => {
+			const { status, markdown, deployment } = sections.get(environment)!;
+			const recorded = deployment
+				? ` deployment=${encodeURIComponent(JSON.stringify(deployment))}`
+				: '';
+			return `<!-- deploynaut:environment=${environment} status=${status}${recorded} -->\n${markdown}`;
+		})
+		.join('\n\n');
+
+	return {
+		title: `${approved.length} of ${environments.length} environments approved`,
+		summary,
+		text,
+	};
+}
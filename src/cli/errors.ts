@@ -0,0 +1,16 @@
+/**
+ * Destination for command output, such as process.stdout
+ */
+export interface Output {
+	write(text: string): unknown;
+}
+
+/**
+ * Error caused by invalid arguments or input files, reported without a stack trace
+ */
+export class CliError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'CliError';
+	}
+}
@@ -0,0 +1,69 @@
+import { CliError } from './errors.js';
+import type { Output } from './errors.js';
+import { SIMULATE_USAGE, parseSimulateArgs, simulate } from './simulate.js';
+
+const USAGE = `Usage: deploynaut <command> [options]
+
+Commands:
+  simulate  Evaluate a deployment policy offline
+
+Run "deploynaut <command> --help" for the options of a command.`;
+
+/**
+ * Run a deploynaut command
+ * @param args Command line arguments, without the node executable and script
+ * @param stdout Output for results
+ * @param stderr Output for errors and logs
+ * @returns Exit code of the command
+ */
+export async function run(
+	args: string[],
+	stdout: Output = process.stdout,
+	stderr: Output = process.stderr,
+): Promise<number> {
+	const [command, ...rest] = args;
+	switch (command) {
+		case 'simulate':
+			return await runSimulate(rest, stdout, stderr);
+		case '-h':
+		case '--help':
+			stdout.write(`${USAGE}\n`);
+			return 0;
+		default:
+			stderr.write(
+				`${command ? `Unknown command "${command}"` : 'No command given'}\n\n${USAGE}\n`,
+			);
+			return 2;
+	}
+}
+
+async function runSimulate(
+	args: string[],
+	stdout: Output,
+	stderr: Output,
+): Promise<number> {
+	let options;
+	try {
+		options = parseSimulateArgs(args);
+	} catch (error) {
+		if (error instanceof CliError) {
+			stderr.write(`${error.message}\n\n${SIMULATE_USAGE}\n`);
+			return 2;
+		}
+		throw error;
+	}
+	if (!options) {
+		stdout.write(`${SIMULATE_USAGE}\n`);
+		return 0;
+	}
+
+	try {
+		return await simulate(options, stdout, stderr);
+	} catch (error) {
+		if (error instanceof CliError) {
+			stderr.write(`${error.message}\n`);
+			return 2;
+		}
+		throw error;
+	}
+}
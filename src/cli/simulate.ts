@@ -0,0 +1,204 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { parse } from 'yaml';
+import { PolicyEvaluator } from '../policy/evaluator.js';
+import {
+	renderEnvironmentReport,
+	summarizeDecision,
+} from '../policy/report.js';
+import type { PolicyConfig, PolicyContext } from '../policy/types.js';
+import { formatIssue, validatePolicyConfig } from '../policy/validate.js';
+import { expandRuleTemplates } from '../policy/templates.js';
+import { findUnreachableRules } from '../policy/references.js';
+import {
+	StaticIdentityProvider,
+	loadStaticIdentityProvider,
+} from '../identity/static.js';
+import { CliError } from './errors.js';
+import type { Output } from './errors.js';
+
+export const SIMULATE_USAGE = `Usage: deploynaut simulate --config <deploynaut.yml> --environment <name> --context <context.json> [options]
+
+Evaluate a deployment policy offline and print the decision.
+
+Options:
+  -c, --config <path>       Policy configuration file
+  -e, --environment <name>  Name of the environment being deployed to
+  -x, --context <path>      JSON file with the commits, reviews, comments and changed files
+  -i, --identity <path>     YAML file with organization members, team members and permissions
+      --json                Print the full decision trace as JSON
+  -v, --verbose             Log every evaluation step to stderr
+  -h, --help                Show this help
+
+Exit codes:
+  0  The deployment would be approved
+  1  The deployment would be pending or rejected
+  2  The arguments or input files are not valid`;
+
+export interface SimulateOptions {
+	config: string;
+	environment: string;
+	context: string;
+	identity?: string;
+	json?: boolean;
+	verbose?: boolean;
+}
+
+/**
+ * Parse the arguments of the simulate command
+ * @param args Arguments following the command name
+ * @returns The options, or undefined if help was requested
+ * @throws CliError if the arguments are not valid
+ */
+export function parseSimulateArgs(args: string[]): SimulateOptions | undefined {
+	let values;
+	try {
+		({ values } = parseArgs({
+			args,
+			options: {
+				config: { type: 'string', short: 'c' },
+				environment: { type: 'string', short: 'e' },
+				context: { type: 'string', short: 'x' },
+				identity: { type: 'string', short: 'i' },
+				json: { type: 'boolean' },
+				verbose: { type: 'boolean', short: 'v' },
+				help: { type: 'boolean', short: 'h' },
+			},
+		}));
+	} catch (error) {
+		throw new CliError(error instanceof Error ? error.message : String(error));
+	}
+
+	if (values.help) {
+		return undefined;
+	}
+
+	const { config, environment, context } = values;
+	if (!config || !environment || !context) {
+		throw new CliError(
+			'Options --config, --environment and --context are required',
+		);
+	}
+	return { ...values, config, environment, context };
+}
+
+/**
+ * Evaluate a policy against a recorded deployment context
+ * @param options Options of the simulate command
+ * @param stdout Output for the decision
+ * @param stderr Output for warnings, and evaluation logs when verbose
+ * @returns Exit code of the command
+ * @throws CliError if an input file cannot be read or is not valid
+ */
+export async function simulate(
+	options: SimulateOptions,
+	stdout: Output,
+	stderr: Output,
+): Promise<number> {
+	const config = await loadPolicyConfig(options.config);
+	for (const issue of findUnreachableRules(config)) {
+		stderr.write(`Warning: ${formatIssue(issue)}\n`);
+	}
+	const context = await loadPolicyContext(options.context);
+	const identity = options.identity
+		? await loadStaticIdentityProvider(options.identity).catch(
+				(error: Error) => {
+					throw new CliError(error.message);
+				},
+			)
+		: new StaticIdentityProvider();
+
+	const log = (message: string) => {
+		if (options.verbose) {
+			stderr.write(`${message}\n`);
+		}
+	};
+	const evaluator = new PolicyEvaluator(config, identity, {
+		debug: log,
+		info: log,
+		warn: log,
+		error: log,
+	});
+
+	const decision = await evaluator.evaluateWithTrace({
+		...context,
+		environment: { name: options.environment },
+		...(context.deployment && {
+			deployment: {
+				...context.deployment,
+				environment: options.environment,
+			},
+		}),
+	});
+
+	if (options.json) {
+		stdout.write(`${JSON.stringify(decision, null, 2)}\n`);
+	} else {
+		stdout.write(
+			`${renderEnvironmentReport(summarizeDecision(options.environment, decision))}\n`,
+		);
+	}
+	return decision.approved ? 0 : 1;
+}
+
+async function readInput(path: string, description: string): Promise<string> {
+	try {
+		return await readFile(path, 'utf8');
+	} catch (error) {
+		throw new CliError(
+			`Cannot read ${description} ${path}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
+
+/**
+ * Load a policy configuration file
+ * @param path Path of the YAML configuration file
+ * @throws CliError if the file cannot be read or is not valid
+ */
+export async function loadPolicyConfig(path: string): Promise<PolicyConfig> {
+	const content = await readInput(path, 'policy configuration');
+	let config;
+	try {
+		config = parse(content);
+	} catch (error) {
+		throw new CliError(
+			`Invalid policy configuration ${path}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	const issues = validatePolicyConfig(config);
+	if (issues.length > 0) {
+		throw new CliError(
+			`Invalid policy configuration ${path}:\n${issues.map((issue) => `  ${formatIssue(issue)}`).join('\n')}`,
+		);
+	}
+	return expandRuleTemplates({
+		...config,
+		approval_rules: config.approval_rules ?? [],
+	});
+}
+
+/**
+ * Load a deployment context file
+ * @param path Path of the JSON file in the PolicyContext shape
+ * @throws CliError if the file cannot be read or has no commits and reviews
+ */
+export async function loadPolicyContext(path: string): Promise<PolicyContext> {
+	const content = await readInput(path, 'deployment context');
+	let context;
+	try {
+		context = JSON.parse(content);
+	} catch (error) {
+		throw new CliError(
+			`Invalid deployment context ${path}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	for (const key of ['commits', 'reviews']) {
+		if (!Array.isArray(context?.[key])) {
+			throw new CliError(
+				`Invalid deployment context ${path}: "${key}" must be a list`,
+			);
+		}
+	}
+	return context;
+}
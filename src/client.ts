@@ -1,11 +1,38 @@
 import type {
 	WorkflowRun,
+	PullRequest,
 	PullRequestReview,
-	User,
 } from '@octokit/webhooks-types';
 import type { components } from '@octokit/openapi-types';
 type PendingDeployment = components['schemas']['pending-deployment'];
+type Deployment = components['schemas']['deployment'];
 type Commit = components['schemas']['commit'];
+type CheckRun = components['schemas']['check-run'];
+type OrganizationMembership = components['schemas']['org-membership'];
+type TeamMembership = components['schemas']['team-membership'];
+type DiffEntry = components['schemas']['diff-entry'];
+type IssueComment = components['schemas']['issue-comment'];
+type CollaboratorPermission =
+	components['schemas']['repository-collaborator-permission'];
+
+// Request the maximum page size so list calls need as few requests as possible
+const PER_PAGE = 100;
+
+export interface CheckRunAnnotation {
+	path: string;
+	start_line: number;
+	end_line: number;
+	annotation_level: 'notice' | 'warning' | 'failure';
+	message: string;
+	title?: string;
+}
+
+export interface CheckRunOutput {
+	title: string;
+	summary: string;
+	text?: string;
+	annotations?: CheckRunAnnotation[];
+}
 
 // // https://octokit.github.io/rest.js/v21/#repos-get-collaborator-permission-level
 // // https://docs.github.com/en/rest/collaborators/collaborators#list-repository-collaborators
@@ -58,19 +85,36 @@ type Commit = components['schemas']['commit'];
 // 	await context.octokit.reactions.createForPullRequestReviewComment(request);
 // }
 
-// // https://octokit.github.io/rest.js/v21/#repos-list-deployments
-// // https://docs.github.com/en/rest/deployments/deployments#list-deployments
-// export async function listDeployments(
-//   context: any,
-//   sha: string
-// ): Promise<Deployment[]> {
-//   const request = context.repo({
-//     sha,
-//   });
-//   const { data: deployments } =
-//     await context.octokit.rest.repos.listDeployments(request);
-//   return deployments;
-// }
+// https://octokit.github.io/rest.js/v21/#repos-list-deployments
+// https://docs.github.com/en/rest/deployments/deployments#list-deployments
+export async function listDeployments(
+	context: any,
+	sha: string,
+	environment: string,
+): Promise<Deployment[]> {
+	const request = context.repo({
+		sha,
+		environment,
+		per_page: PER_PAGE,
+	});
+	// Deployments are listed newest first, so the first page has the latest ones
+	const { data: deployments } =
+		await context.octokit.rest.repos.listDeployments(request);
+	return deployments;
+}
+
+// https://octokit.github.io/rest.js/v21/#pulls-get
+// https://docs.github.com/en/rest/pulls/pulls#get-a-pull-request
+export async function getPullRequest(
+	context: any,
+	prNumber: number,
+): Promise<PullRequest> {
+	const request = context.repo({
+		pull_number: prNumber,
+	});
+	const { data: pullRequest } = await context.octokit.rest.pulls.get(request);
+	return pullRequest;
+}
 
 // https://octokit.github.io/rest.js/v21/#pulls-list-commits
 // https://docs.github.com/en/rest/pulls/pulls#list-commits-on-a-pull-request
@@ -80,9 +124,12 @@ export async function listPullRequestCommits(
 ): Promise<Commit[]> {
 	const request = context.repo({
 		pull_number: prNumber,
+		per_page: PER_PAGE,
 	});
-	const { data: commits } =
-		await context.octokit.rest.pulls.listCommits(request);
+	const commits: Commit[] = await context.octokit.paginate(
+		context.octokit.rest.pulls.listCommits,
+		request,
+	);
 
 	// For each commit we need to fetch the full commit to get all missing properties
 	// and discard the partial commit object returned by the listCommits endpoint
@@ -94,6 +141,58 @@ export async function listPullRequestCommits(
 	return commits;
 }
 
+// https://octokit.github.io/rest.js/v21/#pulls-list-files
+// https://docs.github.com/en/rest/pulls/pulls#list-pull-requests-files
+export async function listPullRequestFiles(
+	context: any,
+	prNumber: number,
+): Promise<DiffEntry[]> {
+	const request = context.repo({
+		pull_number: prNumber,
+		per_page: PER_PAGE,
+	});
+	const files = await context.octokit.paginate(
+		context.octokit.rest.pulls.listFiles,
+		request,
+	);
+	return files;
+}
+
+// https://octokit.github.io/rest.js/v21/#repos-get-content
+// https://docs.github.com/en/rest/repos/contents#get-repository-content
+export async function getFileContent(
+	context: any,
+	path: string,
+	ref: string,
+): Promise<string> {
+	const request = context.repo({
+		path,
+		ref,
+	});
+	const { data: file } = await context.octokit.rest.repos.getContent(request);
+	if (Array.isArray(file) || file.type !== 'file') {
+		throw new Error(`${path} is not a file`);
+	}
+	return Buffer.from(file.content, 'base64').toString('utf8');
+}
+
+// https://github.com/probot/octokit-plugin-config
+// Configuration of the organization's .github repository, following its `_extends` chain
+export async function getOrganizationConfig(
+	context: any,
+	path: string,
+): Promise<unknown> {
+	const request = {
+		owner: context.repo().owner,
+		repo: '.github',
+		path,
+	};
+	const { config, files } = await context.octokit.config.get(request);
+	return files.some((file: { config: unknown }) => file.config !== null)
+		? config
+		: null;
+}
+
 // https://octokit.github.io/rest.js/v21/#repos-get-commit
 // https://docs.github.com/en/rest/commits/commits#get-a-commit
 export async function getCommit(context: any, ref: string): Promise<Commit> {
@@ -120,12 +219,29 @@ export async function listPullRequestReviews(
 ): Promise<PullRequestReview[]> {
 	const request = context.repo({
 		pull_number: prNumber,
+		per_page: PER_PAGE,
 	});
-	const { data: reviews } =
-		await context.octokit.rest.pulls.listReviews(request);
+	const reviews = await context.octokit.paginate(
+		context.octokit.rest.pulls.listReviews,
+		request,
+	);
 	return reviews;
 }
 
+// https://octokit.github.io/rest.js/v21/#actions-get-workflow-run
+// https://docs.github.com/en/rest/actions/workflow-runs#get-a-workflow-run
+export async function getWorkflowRun(
+	context: any,
+	runId: number,
+): Promise<WorkflowRun> {
+	const request = context.repo({
+		run_id: runId,
+	});
+	const { data: workflowRun } =
+		await context.octokit.rest.actions.getWorkflowRun(request);
+	return workflowRun;
+}
+
 // https://octokit.github.io/rest.js/v21/#actions-list-workflow-runs-for-repo
 // https://docs.github.com/en/rest/actions/workflow-runs#list-workflow-runs-for-a-repository
 export async function listWorkflowRuns(
@@ -136,10 +252,13 @@ export async function listWorkflowRuns(
 	const request = context.repo({
 		status,
 		branch,
+		per_page: PER_PAGE,
 	});
-	const {
-		data: { workflow_runs: runs },
-	} = await context.octokit.rest.actions.listWorkflowRunsForRepo(request);
+	// paginate() flattens the workflow_runs of every page into a single array
+	const runs = await context.octokit.paginate(
+		context.octokit.rest.actions.listWorkflowRunsForRepo,
+		request,
+	);
 	return runs;
 }
 
@@ -191,19 +310,36 @@ export async function reviewWorkflowRun(
 	await context.octokit.rest.actions.reviewCustomGatesForRun(request);
 }
 
-// // https://octokit.github.io/rest.js/v18/#issues-list-comments
-// // https://docs.github.com/en/rest/issues/comments#list-issue-comments
-// export async function listIssueComments(
-// 	context: any,
-// 	issueNumber: number,
-// ): Promise<IssueComment[]> {
-// 	const request = context.repo({
-// 		issue_number: issueNumber,
-// 	});
-// 	const { data: comments } =
-// 		await context.octokit.rest.issues.listComments(request);
-// 	return comments;
-// }
+// https://octokit.github.io/rest.js/v21/#issues-list-comments
+// https://docs.github.com/en/rest/issues/comments#list-issue-comments
+export async function listIssueComments(
+	context: any,
+	issueNumber: number,
+): Promise<IssueComment[]> {
+	const request = context.repo({
+		issue_number: issueNumber,
+		per_page: PER_PAGE,
+	});
+	const comments = await context.octokit.paginate(
+		context.octokit.rest.issues.listComments,
+		request,
+	);
+	return comments;
+}
+
+// https://octokit.github.io/rest.js/v21/#issues-get-comment
+// https://docs.github.com/en/rest/issues/comments#get-an-issue-comment
+export async function getIssueComment(
+	context: any,
+	commentId: number,
+): Promise<IssueComment> {
+	const request = context.repo({
+		comment_id: commentId,
+	});
+	const { data: comment } =
+		await context.octokit.rest.issues.getComment(request);
+	return comment;
+}
 
 // // https://octokit.github.io/rest.js/v18/#issues-create-comment
 // // https://docs.github.com/en/rest/issues/comments#create-an-issue-comment
@@ -273,28 +409,106 @@ export async function reviewWorkflowRun(
 // 	await context.octokit.rest.repos.createDeploymentStatus(request);
 // }
 
-// https://octokit.github.io/rest.js/v21/#orgs-list-members
-// https://docs.github.com/en/rest/orgs/members#list-organization-members
-export async function listOrganizationMembers(
+// https://octokit.github.io/rest.js/v21/#orgs-get-membership-for-user
+// https://docs.github.com/en/rest/orgs/members#get-organization-membership-for-a-user
+export async function getOrganizationMembership(
 	context: any,
 	org: string,
-): Promise<User[]> {
-	const { data: members } = await context.octokit.rest.orgs.listMembers({
-		org,
-	});
-	return members;
+	username: string,
+): Promise<OrganizationMembership> {
+	const { data: membership } =
+		await context.octokit.rest.orgs.getMembershipForUser({
+			org,
+			username,
+		});
+	return membership;
 }
 
-// https://octokit.github.io/rest.js/v21/#teams-list-members-in-org
-// https://docs.github.com/en/rest/teams/members#list-team-members
-export async function listTeamMembers(
+// https://octokit.github.io/rest.js/v21/#teams-get-membership-for-user-in-org
+// https://docs.github.com/en/rest/teams/members#get-team-membership-for-a-user
+export async function getTeamMembership(
 	context: any,
 	org: string,
 	team: string,
-): Promise<User[]> {
-	const { data: members } = await context.octokit.rest.teams.listMembersInOrg({
-		org,
-		team_slug: team,
+	username: string,
+): Promise<TeamMembership> {
+	const { data: membership } =
+		await context.octokit.rest.teams.getMembershipForUserInOrg({
+			org,
+			team_slug: team,
+			username,
+		});
+	return membership;
+}
+
+// https://octokit.github.io/rest.js/v21/#repos-get-collaborator-permission-level
+// https://docs.github.com/en/rest/collaborators/collaborators#get-repository-permissions-for-a-user
+export async function getCollaboratorPermission(
+	context: any,
+	username: string,
+): Promise<CollaboratorPermission> {
+	const request = context.repo({
+		username,
+	});
+	const { data: permission } =
+		await context.octokit.rest.repos.getCollaboratorPermissionLevel(request);
+	return permission;
+}
+
+// https://octokit.github.io/rest.js/v21/#checks-list-for-ref
+// https://docs.github.com/en/rest/checks/runs#list-check-runs-for-a-git-reference
+export async function listCheckRunsForRef(
+	context: any,
+	ref: string,
+	checkName: string,
+): Promise<CheckRun[]> {
+	const request = context.repo({
+		ref,
+		check_name: checkName,
+		per_page: PER_PAGE,
+	});
+	// paginate() flattens the check_runs of every page into a single array
+	const checkRuns = await context.octokit.paginate(
+		context.octokit.rest.checks.listForRef,
+		request,
+	);
+	return checkRuns;
+}
+
+// https://octokit.github.io/rest.js/v21/#checks-create
+// https://docs.github.com/en/rest/checks/runs#create-a-check-run
+export async function createCheckRun(
+	context: any,
+	name: string,
+	headSha: string,
+	conclusion: string,
+	output: CheckRunOutput,
+): Promise<CheckRun> {
+	const request = context.repo({
+		name,
+		head_sha: headSha,
+		status: 'completed',
+		conclusion,
+		output,
+	});
+	const { data: checkRun } = await context.octokit.rest.checks.create(request);
+	return checkRun;
+}
+
+// https://octokit.github.io/rest.js/v21/#checks-update
+// https://docs.github.com/en/rest/checks/runs#update-a-check-run
+export async function updateCheckRun(
+	context: any,
+	checkRunId: number,
+	conclusion: string,
+	output: CheckRunOutput,
+): Promise<CheckRun> {
+	const request = context.repo({
+		check_run_id: checkRunId,
+		status: 'completed',
+		conclusion,
+		output,
 	});
-	return members;
+	const { data: checkRun } = await context.octokit.rest.checks.update(request);
+	return checkRun;
 }
@@ -1,10 +1,20 @@
 import type { Context } from 'probot';
 import { PolicyEvaluator } from '../policy/evaluator.js';
-import type { PolicyContext, PolicyConfig } from '../policy/types.js';
+import { renderRejectionComment, summarizeDecision } from '../policy/report.js';
+import { publishPolicyCheck } from '../checks/policy-status.js';
+import { createGitHubIdentityProvider } from '../identity/github.js';
+import type {
+	PolicyContext,
+	PolicyConfig,
+	PolicyOutcome,
+} from '../policy/types.js';
 import {
 	getCommit,
+	getWorkflowRun,
+	listIssueComments,
 	listPullRequestReviews,
 	listPullRequestCommits,
+	listPullRequestFiles,
 } from '../client.js';
 
 export async function handleDeploymentProtectionRuleRequested(
@@ -19,7 +29,7 @@ export async function handleDeploymentProtectionRuleRequested(
 		event,
 	} = context.payload;
 
-	if (!environment || !deployment || !event) {
+	if (!environment || !deployment || !event || !callbackUrl) {
 		context.log.error('Missing required payload data');
 		return;
 	}
@@ -50,6 +60,8 @@ export async function handleDeploymentProtectionRuleRequested(
 		deployment: {
 			environment: environment,
 			event: context.payload.event,
+			ref: deployment.ref,
+			created_at: deployment.created_at,
 			commit: {
 				sha: deployment.sha,
 			},
@@ -80,56 +92,158 @@ export async function handleDeploymentProtectionRuleRequested(
 		reviews: [],
 	};
 
-	// Evaluate the policy with initial context
-	const evaluator = new PolicyEvaluator(config, context, context.log);
-	let isApproved = await evaluator.evaluate(initialContext);
+	// Evaluate the policy with initial context. The evaluator is reused for every
+	// pull request, so identity lookups are shared across evaluations.
+	const evaluator = new PolicyEvaluator(
+		config,
+		createGitHubIdentityProvider(context),
+		context.log,
+	);
+	let decision = await evaluator.evaluateWithTrace(initialContext);
 
-	if (isApproved) {
-		context.log.info(`Deployment ${deployment.id} approved by policy`);
-		try {
-			await context.octokit.request(`POST ${callbackUrl}`, {
-				environment_name: environment,
-				state: 'approved',
-				comment: `Approved by policy`,
+	// Reviews are listed at most once per pull request
+	const reviewsByPullRequest = new Map<number, PolicyContext['reviews']>();
+	const getReviews = async (pullNumber: number) => {
+		if (!reviewsByPullRequest.has(pullNumber)) {
+			const reviews = await listPullRequestReviews(context, pullNumber);
+			reviewsByPullRequest.set(
+				pullNumber,
+				reviews
+					.filter((review) => review.user !== null)
+					.map((review) => ({
+						id: review.id,
+						user: {
+							id: review.user.id,
+							login: review.user.login,
+						},
+						state: review.state,
+						body: review.body ?? undefined,
+						commit_id: review.commit_id ?? undefined,
+						html_url: review.html_url ?? undefined,
+						submitted_at: review.submitted_at ?? '',
+					})),
+			);
+		}
+		return reviewsByPullRequest.get(pullNumber)!;
+	};
+
+	// Only list the comments of each PR when a rule accepts them or they may veto
+	const acceptsComments = config.approval_rules.some(
+		(rule) => (rule.methods?.issue_comment_patterns?.length ?? 0) > 0,
+	);
+	const vetoesComments =
+		(config.policy.disapproval?.methods?.issue_comment_patterns?.length ?? 0) >
+		0;
+
+	// Comments are listed at most once per pull request
+	const commentsByPullRequest = new Map<number, PolicyContext['comments']>();
+	const getComments = async (pullNumber: number) => {
+		if (!acceptsComments && !vetoesComments) {
+			return undefined;
+		}
+		if (!commentsByPullRequest.has(pullNumber)) {
+			const comments = await listIssueComments(context, pullNumber);
+			commentsByPullRequest.set(
+				pullNumber,
+				comments
+					.filter((comment) => comment.user !== null)
+					.map((comment) => ({
+						id: comment.id,
+						user: {
+							id: comment.user!.id,
+							login: comment.user!.login,
+						},
+						body: comment.body ?? '',
+						html_url: comment.html_url,
+						created_at: comment.created_at,
+						updated_at: comment.updated_at,
+					})),
+			);
+		}
+		return commentsByPullRequest.get(pullNumber);
+	};
+
+	// Rules on commits alone approve without reviews, so check the vetoes of every
+	// pull request before approving
+	if (decision.approved && config.policy.disapproval) {
+		for (const pr of pull_requests ?? []) {
+			const vetoDecision = await evaluator.evaluateWithTrace({
+				...initialContext,
+				reviews: await getReviews(pr.number),
+				comments: await getComments(pr.number),
 			});
-		} catch (error: any) {
-			if (error.status === 422) {
-				context.log.warn(
-					'Deployment already approved, skipping duplicate approval',
-				);
-				return;
+			if (vetoDecision.disapproval?.vetoed) {
+				decision = vetoDecision;
+				break;
 			}
-			throw error;
 		}
+	}
+
+	if (decision.approved) {
+		context.log.info(`Deployment ${deployment.id} approved by policy`);
+		await publishPolicyCheck(context, deployment.sha, [
+			summarizeDecision(environment, decision, initialContext.deployment),
+		]);
+		await reviewDeployment(
+			context,
+			callbackUrl,
+			environment,
+			'approved',
+			'Approved by policy',
+		);
 		return; // early return if the deployment is approved by the commit author or committer rules
 	}
 
+	// Only reject the deployment if none of the evaluated contexts could be approved.
+	// Pull request contexts include all commits and reviews, so they take precedence.
+	const initialOutcome = decision.outcome;
+	const prOutcomes: PolicyOutcome[] = [];
+
+	// Only list the files of each PR when a rule has a condition on them
+	const usesChangedFiles = config.approval_rules.some(
+		(rule) => rule.if?.changed_files,
+	);
+
 	// If not approved and we have pull requests, check each PR's reviews
 	if (pull_requests) {
+		// Comments are not bound to a commit. As in the issue comment handler, they only
+		// approve the pull request head, and only when they were created more than a
+		// minute after the workflow run requesting the deployment. Other comments can
+		// still veto it.
+		const runId = /\/actions\/runs\/(\d+)\//.exec(callbackUrl)?.[1];
+		const runCreatedAt =
+			acceptsComments && runId && pull_requests.length > 0
+				? new Date((await getWorkflowRun(context, Number(runId))).created_at)
+				: undefined;
+
 		for (const pr of pull_requests) {
 			// Get all reviews for this PR
-			const reviews = await listPullRequestReviews(context, pr.number);
+			const reviews = await getReviews(pr.number);
+
+			const isHead =
+				pr.head.sha === deployment.sha || event === 'pull_request_target';
+			const comments = (await getComments(pr.number))?.map((comment) => ({
+				...comment,
+				stale:
+					!runCreatedAt ||
+					!isHead ||
+					new Date(comment.created_at) <=
+						new Date(runCreatedAt.getTime() + 60 * 1000),
+			}));
 
 			// Get all commits for this PR
 			const commits = await listPullRequestCommits(context, pr.number);
 
+			const changedFiles = usesChangedFiles
+				? await listPullRequestFiles(context, pr.number)
+				: undefined;
+
 			// Create context with PR review information
 			const prContext: PolicyContext = {
 				...initialContext,
-				reviews: reviews
-					.filter((review) => review.user !== null)
-					.map((review) => ({
-						id: review.id,
-						user: {
-							id: review.user.id,
-							login: review.user.login,
-						},
-						state: review.state,
-						body: review.body ?? undefined,
-						commit_id: review.commit_id ?? undefined,
-						html_url: review.html_url ?? undefined,
-						submitted_at: review.submitted_at ?? '',
-					})),
+				target_branch: pr.base?.ref,
+				labels: pr.labels?.map((label) => label.name),
+				reviews,
 				commits: commits.map((prCommit) => ({
 					sha: prCommit.sha,
 					author: prCommit.author
@@ -151,33 +265,87 @@ export async function handleDeploymentProtectionRuleRequested(
 							}
 						: undefined,
 				})),
+				comments,
+				// Moving a file out of a path changes that path too
+				changed_files: changedFiles?.flatMap((file) =>
+					file.previous_filename
+						? [file.filename, file.previous_filename]
+						: [file.filename],
+				),
 			};
 
 			// re-evaluate policy with each PR context
-			isApproved = await evaluator.evaluate(prContext);
+			decision = await evaluator.evaluateWithTrace(prContext);
+			prOutcomes.push(decision.outcome);
 
 			// Respond to the deployment protection rule request with the first approved PR.
 			// It's okay to break the for loop here because we are approving the entire deployment,
 			// not just the individual pull requests.
-			if (isApproved) {
+			if (decision.approved) {
 				context.log.info(`Deployment ${deployment.id} approved by policy`);
-				try {
-					await context.octokit.request(`POST ${callbackUrl}`, {
-						environment_name: environment,
-						state: 'approved',
-						comment: `Approved by policy`,
-					});
-				} catch (error: any) {
-					if (error.status === 422) {
-						context.log.warn(
-							'Deployment already approved, skipping duplicate approval',
-						);
-						return;
-					}
-					throw error;
-				}
+				await publishPolicyCheck(context, deployment.sha, [
+					summarizeDecision(environment, decision, initialContext.deployment),
+				]);
+				await reviewDeployment(
+					context,
+					callbackUrl,
+					environment,
+					'approved',
+					'Approved by policy',
+				);
 				return; // early return if the deployment is approved by the PR reviews rules
 			}
 		}
 	}
+
+	const outcomes = prOutcomes.length > 0 ? prOutcomes : [initialOutcome];
+	const rejected = outcomes.every((outcome) => outcome === 'rejected');
+
+	// Waiting for reviews leaves the deployment pending unless rejections are enabled
+	if (!rejected || !config.policy.reject_unsatisfiable) {
+		await publishPolicyCheck(context, deployment.sha, [
+			summarizeDecision(
+				environment,
+				{ ...decision, outcome: 'pending' },
+				initialContext.deployment,
+			),
+		]);
+		return;
+	}
+
+	context.log.warn(`Deployment ${deployment.id} rejected by policy`);
+	await publishPolicyCheck(context, deployment.sha, [
+		summarizeDecision(environment, decision, initialContext.deployment),
+	]);
+	await reviewDeployment(
+		context,
+		callbackUrl,
+		environment,
+		'rejected',
+		renderRejectionComment(decision),
+	);
+}
+
+async function reviewDeployment(
+	context: Context<'deployment_protection_rule.requested'>,
+	callbackUrl: string,
+	environment: string,
+	state: 'approved' | 'rejected',
+	comment: string,
+): Promise<void> {
+	try {
+		await context.octokit.request(`POST ${callbackUrl}`, {
+			environment_name: environment,
+			state,
+			comment,
+		});
+	} catch (error: any) {
+		if (error.status === 422) {
+			context.log.warn(
+				`Deployment already ${state}, skipping duplicate ${state === 'approved' ? 'approval' : 'rejection'}`,
+			);
+			return;
+		}
+		throw error;
+	}
 }
@@ -0,0 +1,151 @@
+import type { Context } from 'probot';
+import type { PolicyContext, PolicyConfig } from '../policy/types.js';
+import {
+	getIssueComment,
+	getPullRequest,
+	listIssueComments,
+	listPullRequestCommits,
+	listPullRequestFiles,
+	listPullRequestReviews,
+} from '../client.js';
+import { createGitHubIdentityProvider } from '../identity/github.js';
+import { approveWaitingWorkflowRuns } from './workflow-runs.js';
+
+export async function handleIssueCommentCreated(
+	context: Context<'issue_comment.created'>,
+	config: PolicyConfig,
+) {
+	const { comment, issue } = context.payload;
+
+	// Avoid fetching pull request data for every comment when no rule accepts
+	// comments and comments cannot veto
+	const acceptsComments = config.approval_rules.some(
+		(rule) => (rule.methods?.issue_comment_patterns?.length ?? 0) > 0,
+	);
+	const vetoesComments =
+		(config.policy.disapproval?.methods?.issue_comment_patterns?.length ?? 0) >
+		0;
+	if (!acceptsComments && !vetoesComments) {
+		context.log.debug('No approval rules accept issue comments, skipping');
+		return;
+	}
+
+	const pullRequest = await getPullRequest(context, issue.number);
+
+	// Get all commits for this PR
+	const commits = await listPullRequestCommits(context, issue.number);
+
+	// Reviews may veto the deployment, and add up with the comment towards a
+	// rule's count, so always include them
+	const previousReviews = (
+		await listPullRequestReviews(context, issue.number)
+	).filter((previousReview) => previousReview.user !== null);
+
+	// The payload holds the comment as it was created, so fetch it again to find
+	// out whether it was edited since
+	const currentComment = await getIssueComment(context, comment.id);
+
+	// Earlier comments only approve when they are submitted, but may still veto
+	// the deployment
+	const earlierComments = vetoesComments
+		? (await listIssueComments(context, issue.number)).filter(
+				(earlierComment) =>
+					earlierComment.user !== null && earlierComment.id !== comment.id,
+			)
+		: [];
+
+	// Only list the changed files when a rule has a condition on them
+	const changedFiles = config.approval_rules.some(
+		(rule) => rule.if?.changed_files,
+	)
+		? await listPullRequestFiles(context, issue.number)
+		: undefined;
+
+	// Gather all the context data we need
+	const approvalContext: PolicyContext = {
+		commits: commits.map((commit) => ({
+			sha: commit.sha,
+			author: commit.author
+				? {
+						id: commit.author.id,
+						login: commit.author.login,
+					}
+				: undefined,
+			committer: commit.committer
+				? {
+						id: commit.committer.id,
+						login: commit.committer.login,
+					}
+				: undefined,
+			verification: commit.commit.verification
+				? {
+						verified: commit.commit.verification.verified,
+						reason: commit.commit.verification.reason,
+					}
+				: undefined,
+		})),
+		reviews: previousReviews.map((previousReview) => ({
+			id: previousReview.id,
+			user: {
+				id: previousReview.user.id,
+				login: previousReview.user.login,
+			},
+			state: previousReview.state,
+			body: previousReview.body ?? undefined,
+			submitted_at: previousReview.submitted_at ?? undefined,
+			commit_id: previousReview.commit_id,
+		})),
+		comments: [
+			{
+				id: comment.id,
+				user: {
+					id: comment.user.id,
+					login: comment.user.login,
+				},
+				body: currentComment.body ?? '',
+				html_url: comment.html_url,
+				created_at: comment.created_at,
+				updated_at: currentComment.updated_at,
+			},
+			...earlierComments.map((earlierComment) => ({
+				id: earlierComment.id,
+				user: {
+					id: earlierComment.user!.id,
+					login: earlierComment.user!.login,
+				},
+				body: earlierComment.body ?? '',
+				html_url: earlierComment.html_url,
+				created_at: earlierComment.created_at,
+				updated_at: earlierComment.updated_at,
+				stale: true,
+			})),
+		],
+		target_branch: pullRequest.base.ref,
+		labels: pullRequest.labels.map((label) => label.name),
+		// Moving a file out of a path changes that path too
+		changed_files: changedFiles?.flatMap((file) =>
+			file.previous_filename
+				? [file.filename, file.previous_filename]
+				: [file.filename],
+		),
+	};
+
+	// Share identity lookups across the evaluations of every pending environment.
+	// Each environment is evaluated with its own deployment, e.g. when it was requested.
+	const identity = createGitHubIdentityProvider(context);
+
+	// The comment approves the pull request head at the time it was created.
+	// Workflow runs created after the comment are excluded by the time window.
+	await approveWaitingWorkflowRuns(
+		context,
+		config,
+		approvalContext,
+		{
+			branch: pullRequest.head.ref,
+			headSha: pullRequest.head.sha,
+			sha: pullRequest.head.sha,
+			approvedAt: comment.created_at,
+		},
+		identity,
+	);
+}
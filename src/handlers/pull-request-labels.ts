@@ -0,0 +1,126 @@
+import type { Context } from 'probot';
+import type { PolicyContext, PolicyConfig } from '../policy/types.js';
+import {
+	listIssueComments,
+	listPullRequestCommits,
+	listPullRequestFiles,
+	listPullRequestReviews,
+} from '../client.js';
+import { createGitHubIdentityProvider } from '../identity/github.js';
+import { approveWaitingWorkflowRuns } from './workflow-runs.js';
+
+export async function handlePullRequestLabelsChanged(
+	context: Context<'pull_request.labeled' | 'pull_request.unlabeled'>,
+	config: PolicyConfig,
+) {
+	const { pull_request: pullRequest } = context.payload;
+
+	// Avoid fetching pull request data for every label change when no rule depends on labels
+	const usesLabels = config.approval_rules.some((rule) => rule.if?.labels);
+	if (!usesLabels) {
+		context.log.debug('No approval rules have label conditions, skipping');
+		return;
+	}
+
+	// Get all commits for this PR
+	const commits = await listPullRequestCommits(context, pullRequest.number);
+
+	// Labels do not approve anything themselves, so re-evaluate the existing reviews
+	const reviews = (
+		await listPullRequestReviews(context, pullRequest.number)
+	).filter((review) => review.user !== null);
+
+	// Earlier comments may approve the pull request too, so include them when a
+	// rule accepts comments or they may veto the deployment
+	const comments =
+		config.approval_rules.some(
+			(rule) => (rule.methods?.issue_comment_patterns?.length ?? 0) > 0,
+		) ||
+		(config.policy.disapproval?.methods?.issue_comment_patterns?.length ?? 0) >
+			0
+			? (await listIssueComments(context, pullRequest.number)).filter(
+					(comment) => comment.user !== null,
+				)
+			: undefined;
+
+	// Only list the changed files when a rule has a condition on them
+	const changedFiles = config.approval_rules.some(
+		(rule) => rule.if?.changed_files,
+	)
+		? await listPullRequestFiles(context, pullRequest.number)
+		: undefined;
+
+	// Gather all the context data we need
+	const approvalContext: PolicyContext = {
+		commits: commits.map((commit) => ({
+			sha: commit.sha,
+			author: commit.author
+				? {
+						id: commit.author.id,
+						login: commit.author.login,
+					}
+				: undefined,
+			committer: commit.committer
+				? {
+						id: commit.committer.id,
+						login: commit.committer.login,
+					}
+				: undefined,
+			verification: commit.commit.verification
+				? {
+						verified: commit.commit.verification.verified,
+						reason: commit.commit.verification.reason,
+					}
+				: undefined,
+		})),
+		reviews: reviews.map((review) => ({
+			id: review.id,
+			user: {
+				id: review.user.id,
+				login: review.user.login,
+			},
+			state: review.state,
+			body: review.body ?? undefined,
+			submitted_at: review.submitted_at ?? undefined,
+			commit_id: review.commit_id,
+		})),
+		comments: comments?.map((comment) => ({
+			id: comment.id,
+			user: {
+				id: comment.user!.id,
+				login: comment.user!.login,
+			},
+			body: comment.body ?? '',
+			html_url: comment.html_url,
+			created_at: comment.created_at,
+			updated_at: comment.updated_at,
+		})),
+		target_branch: pullRequest.base.ref,
+		labels: pullRequest.labels.map((label) => label.name),
+		// Moving a file out of a path changes that path too
+		changed_files: changedFiles?.flatMap((file) =>
+			file.previous_filename
+				? [file.filename, file.previous_filename]
+				: [file.filename],
+		),
+	};
+
+	// Share identity lookups across the evaluations of every pending environment.
+	// Each environment is evaluated with its own deployment, e.g. when it was requested.
+	const identity = createGitHubIdentityProvider(context);
+
+	// The labels apply to the pull request head when they were changed.
+	// Workflow runs created after the change are excluded by the time window.
+	await approveWaitingWorkflowRuns(
+		context,
+		config,
+		approvalContext,
+		{
+			branch: pullRequest.head.ref,
+			headSha: pullRequest.head.sha,
+			sha: pullRequest.head.sha,
+			approvedAt: pullRequest.updated_at,
+		},
+		identity,
+	);
+}
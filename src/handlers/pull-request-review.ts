@@ -1,14 +1,13 @@
 import type { Context } from 'probot';
-import { PolicyEvaluator } from '../policy/evaluator.js';
 import type { PolicyContext, PolicyConfig } from '../policy/types.js';
 import {
+	listIssueComments,
 	listPullRequestCommits,
-	listPendingDeployments,
-	listWorkflowRuns,
-	reviewWorkflowRun,
-	getCommit,
+	listPullRequestFiles,
+	listPullRequestReviews,
 } from '../client.js';
-import type { WorkflowRun } from '@octokit/webhooks-types';
+import { createGitHubIdentityProvider } from '../identity/github.js';
+import { approveWaitingWorkflowRuns } from './workflow-runs.js';
 
 export async function handlePullRequestReviewSubmitted(
 	context: Context<'pull_request_review.submitted'>,
@@ -19,6 +18,35 @@ export async function handlePullRequestReviewSubmitted(
 	// Get all commits for this PR
 	const commits = await listPullRequestCommits(context, pull_request.number);
 
+	// Earlier reviews count towards the required approvals together with this one,
+	// and may veto the deployment when the policy has a disapproval section
+	const previousReviews = (
+		await listPullRequestReviews(context, pull_request.number)
+	).filter(
+		(previousReview) =>
+			previousReview.user !== null && previousReview.id !== review.id,
+	);
+
+	// Earlier comments may approve the pull request too, so include them when a
+	// rule accepts comments or they may veto the deployment
+	const comments =
+		config.approval_rules.some(
+			(rule) => (rule.methods?.issue_comment_patterns?.length ?? 0) > 0,
+		) ||
+		(config.policy.disapproval?.methods?.issue_comment_patterns?.length ?? 0) >
+			0
+			? (await listIssueComments(context, pull_request.number)).filter(
+					(comment) => comment.user !== null,
+				)
+			: undefined;
+
+	// Only list the changed files when a rule has a condition on them
+	const changedFiles = config.approval_rules.some(
+		(rule) => rule.if?.changed_files,
+	)
+		? await listPullRequestFiles(context, pull_request.number)
+		: undefined;
+
 	// Gather all the context data we need
 	const approvalContext: PolicyContext = {
 		commits: commits.map((commit) => ({
@@ -43,6 +71,17 @@ export async function handlePullRequestReviewSubmitted(
 				: undefined,
 		})),
 		reviews: [
+			...previousReviews.map((previousReview) => ({
+				id: previousReview.id,
+				user: {
+					id: previousReview.user.id,
+					login: previousReview.user.login,
+				},
+				state: previousReview.state,
+				body: previousReview.body ?? undefined,
+				submitted_at: previousReview.submitted_at ?? undefined,
+				commit_id: previousReview.commit_id,
+			})),
 			{
 				id: review.id,
 				user: {
@@ -55,129 +94,41 @@ export async function handlePullRequestReviewSubmitted(
 				commit_id: review.commit_id,
 			},
 		],
+		comments: comments?.map((comment) => ({
+			id: comment.id,
+			user: {
+				id: comment.user!.id,
+				login: comment.user!.login,
+			},
+			body: comment.body ?? '',
+			html_url: comment.html_url,
+			created_at: comment.created_at,
+			updated_at: comment.updated_at,
+		})),
+		target_branch: pull_request.base.ref,
+		labels: pull_request.labels.map((label) => label.name),
+		// Moving a file out of a path changes that path too
+		changed_files: changedFiles?.flatMap((file) =>
+			file.previous_filename
+				? [file.filename, file.previous_filename]
+				: [file.filename],
+		),
 	};
 
-	const evaluator = new PolicyEvaluator(config, context, context.log);
-
-	if (!(await evaluator.evaluate(approvalContext))) {
-		context.log.warn('Pull request review not approved');
-		return;
-	}
+	// Share identity lookups across the evaluations of every pending environment.
+	// Each environment is evaluated with its own deployment, e.g. when it was requested.
+	const identity = createGitHubIdentityProvider(context);
 
-	// Find all "waiting" workflow runs associated with this pull request branch.
-	const workflowRuns = await listWorkflowRuns(context, pull_request.head.ref);
-
-	// Exclude workflows that were created within one minute of the review being submitted.
-	// This is to prevent time-of-check to time-of-use (TOCTOU) attacks.
-	// Only include workflows that were created by the reviewed commit or a
-	// pull request target workflow where the commit is from the target branch anyway.
-	const filteredWorkflowRuns = workflowRuns.filter((workflowRun) => {
-		// If submitted_at time is not provided, use 0 so no workflows can be approved
-		const submittedAt = review.submitted_at ? new Date(review.submitted_at) : 0;
-		const createdAt = new Date(workflowRun.created_at);
-		const isWithinTimeWindow =
-			new Date(createdAt.getTime() + 60 * 1000) < submittedAt;
-		const isValidSha =
-			workflowRun.head_sha === review.commit_id ||
-			workflowRun.event === 'pull_request_target';
-
-		if (isValidSha && !isWithinTimeWindow) {
-			context.log.warn(
-				'Workflow run %s filtered: created too close to review submission (created: %s, review: %s)',
-				workflowRun.id,
-				createdAt.toISOString(),
-				submittedAt instanceof Date ? submittedAt.toISOString() : 'invalid',
-			);
-		}
-
-		return isValidSha && isWithinTimeWindow;
-	});
-
-	await Promise.all(
-		filteredWorkflowRuns.map(async (workflowRun: WorkflowRun) => {
-			const pendingDeployments = await listPendingDeployments(
-				context,
-				workflowRun.id,
-			);
-
-			context.log.info(
-				'Pending deployments for workflow run %s: %s',
-				workflowRun.id,
-				JSON.stringify(pendingDeployments),
-			);
-
-			const environmentNames = pendingDeployments
-				.filter((deployment) => deployment.current_user_can_approve)
-				.filter((deployment) => deployment.environment.name !== undefined)
-				.map((deployment) => deployment.environment.name!);
-
-			await Promise.all(
-				environmentNames.map(async (environmentName) => {
-					const commit = await getCommit(context, workflowRun.head_sha);
-
-					const isApproved = await evaluator.evaluate({
-						...approvalContext,
-						deployment: {
-							environment: environmentName,
-							event: workflowRun.event,
-							commit: {
-								sha: commit.sha,
-								// author: commit.author
-								// 	? {
-								// 			id: commit.author.id,
-								// 			login: commit.author.login,
-								// 		}
-								// 	: undefined,
-								// committer: commit.committer
-								// 	? {
-								// 			id: commit.committer.id,
-								// 			login: commit.committer.login,
-								// 		}
-								// 	: undefined,
-							},
-						},
-						// commits: [
-						// 	{
-						// 		sha: commit.sha,
-						// 		author: commit.author
-						// 			? {
-						// 					id: commit.author.id,
-						// 					login: commit.author.login,
-						// 				}
-						// 			: undefined,
-						// 		committer: commit.committer
-						// 			? {
-						// 					id: commit.committer.id,
-						// 					login: commit.committer.login,
-						// 				}
-						// 			: undefined,
-						// 	},
-						// ],
-					});
-					if (isApproved) {
-						context.log.info(
-							`Workflow run ${workflowRun.id} approved by policy`,
-						);
-						try {
-							await reviewWorkflowRun(
-								context,
-								workflowRun.id,
-								environmentName,
-								'approved',
-								`Approved by policy`,
-							);
-						} catch (error: any) {
-							if (error.status === 422) {
-								context.log.warn(
-									'Deployment already approved, skipping duplicate approval',
-								);
-								return;
-							}
-							throw error;
-						}
-					}
-				}),
-			);
-		}),
+	await approveWaitingWorkflowRuns(
+		context,
+		config,
+		approvalContext,
+		{
+			branch: pull_request.head.ref,
+			headSha: pull_request.head.sha,
+			sha: review.commit_id,
+			approvedAt: review.submitted_at,
+		},
+		identity,
 	);
 }
@@ -0,0 +1,40 @@
+import type { Context } from 'probot';
+import { getFileContent, listPullRequestFiles } from '../client.js';
+import {
+	CONFIG_PATH,
+	publishConfigCheck,
+} from '../checks/config-validation.js';
+
+export async function handlePullRequestChanged(
+	context: Context<
+		'pull_request.opened' | 'pull_request.reopened' | 'pull_request.synchronize'
+	>,
+) {
+	const { pull_request: pullRequest } = context.payload;
+
+	// Only validate the configuration when the pull request changes it
+	const files = await listPullRequestFiles(context, pullRequest.number);
+	const configFile = files.find((file) => file.filename === CONFIG_PATH);
+	if (!configFile) {
+		context.log.debug(`Pull request does not change ${CONFIG_PATH}, skipping`);
+		return;
+	}
+	if (configFile.status === 'removed') {
+		context.log.info(`Pull request removes ${CONFIG_PATH}, skipping`);
+		return;
+	}
+
+	const content = await getFileContent(
+		context,
+		CONFIG_PATH,
+		pullRequest.head.sha,
+	);
+
+	// Compare with the configuration the pull request would replace
+	const baseContent =
+		configFile.status === 'modified' || configFile.status === 'changed'
+			? await getFileContent(context, CONFIG_PATH, pullRequest.base.sha)
+			: undefined;
+
+	await publishConfigCheck(context, pullRequest.head.sha, content, baseContent);
+}
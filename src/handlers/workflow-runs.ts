@@ -0,0 +1,231 @@
+import type { Context } from 'probot';
+import { PolicyEvaluator } from '../policy/evaluator.js';
+import type { EnvironmentReport } from '../policy/report.js';
+import { summarizeDecision } from '../policy/report.js';
+import {
+	listPolicyCheckDeployments,
+	publishPolicyCheck,
+} from '../checks/policy-status.js';
+import type { IdentityProvider } from '../identity/provider.js';
+import type { PolicyContext, PolicyConfig } from '../policy/types.js';
+import {
+	listDeployments,
+	listPendingDeployments,
+	listWorkflowRuns,
+	reviewWorkflowRun,
+	getCommit,
+} from '../client.js';
+import type { WorkflowRun } from '@octokit/webhooks-types';
+
+export interface ApprovalTarget {
+	// Pull request branch to find waiting workflow runs for
+	branch: string;
+	// Pull request head SHA to publish the policy check run on
+	headSha: string;
+	// Commit SHA the approval was given for
+	sha: string;
+	// When the approval was given, if known
+	approvedAt?: string | null;
+}
+
+/**
+ * Approve the pending deployments of waiting workflow runs on a pull request branch
+ * for every environment the policy approves, and publish the evaluation as a check run.
+ * @param context The GitHub context
+ * @param config The policy configuration
+ * @param approvalContext Commits, reviews and comments of the pull request
+ * @param target The branch and commit that were approved
+ * @param identity Identity provider shared by the evaluations of every pending environment
+ */
+export async function approveWaitingWorkflowRuns(
+	context: Context,
+	config: PolicyConfig,
+	approvalContext: PolicyContext,
+	{ branch, headSha, sha, approvedAt }: ApprovalTarget,
+	identity: IdentityProvider,
+) {
+	// Find all "waiting" workflow runs associated with this pull request branch.
+	const workflowRuns = await listWorkflowRuns(context, branch);
+
+	// Exclude workflows that were created within one minute of the approval.
+	// This is to prevent time-of-check to time-of-use (TOCTOU) attacks.
+	// Only include workflows that were created by the approved commit or a
+	// pull request target workflow where the commit is from the target branch anyway.
+	const filteredWorkflowRuns = workflowRuns.filter((workflowRun) => {
+		// If the approval time is not provided, use 0 so no workflows can be approved
+		const submittedAt = approvedAt ? new Date(approvedAt) : 0;
+		const createdAt = new Date(workflowRun.created_at);
+		const isWithinTimeWindow =
+			new Date(createdAt.getTime() + 60 * 1000) < submittedAt;
+		const isValidSha =
+			workflowRun.head_sha === sha ||
+			workflowRun.event === 'pull_request_target';
+
+		if (isValidSha && !isWithinTimeWindow) {
+			context.log.warn(
+				'Workflow run %s filtered: created too close to approval (created: %s, approval: %s)',
+				workflowRun.id,
+				createdAt.toISOString(),
+				submittedAt instanceof Date ? submittedAt.toISOString() : 'invalid',
+			);
+		}
+
+		return isValidSha && isWithinTimeWindow;
+	});
+
+	const reports: EnvironmentReport[] = [];
+
+	// Only look up when deployments were requested when a rule has a time window
+	const usesTimeWindow = config.approval_rules.some(
+		(rule) => rule.if?.time_window,
+	);
+
+	await Promise.all(
+		filteredWorkflowRuns.map(async (workflowRun: WorkflowRun) => {
+			const pendingDeployments = await listPendingDeployments(
+				context,
+				workflowRun.id,
+			);
+
+			context.log.info(
+				'Pending deployments for workflow run %s: %s',
+				workflowRun.id,
+				JSON.stringify(pendingDeployments),
+			);
+
+			// Comments approve the pull request head at the time they were created, so
+			// only comments created more than a minute after the workflow run approve.
+			// Earlier comments can still veto it.
+			const comments = approvalContext.comments?.map((comment) => ({
+				...comment,
+				stale:
+					(comment.stale ?? false) ||
+					new Date(comment.created_at).getTime() <=
+						new Date(workflowRun.created_at).getTime() + 60 * 1000,
+			}));
+
+			const environmentNames = pendingDeployments
+				.filter((deployment) => deployment.current_user_can_approve)
+				.filter((deployment) => deployment.environment.name !== undefined)
+				.map((deployment) => deployment.environment.name!);
+
+			await Promise.all(
+				environmentNames.map(async (environmentName) => {
+					const commit = await getCommit(context, workflowRun.head_sha);
+
+					// The pending deployment is the latest one of the environment for the run
+					const [deployment] = usesTimeWindow
+						? await listDeployments(
+								context,
+								workflowRun.head_sha,
+								environmentName,
+							)
+						: [];
+
+					const deploymentContext: PolicyContext['deployment'] = {
+						environment: environmentName,
+						event: workflowRun.event,
+						ref: workflowRun.head_branch ?? undefined,
+						created_at: deployment?.created_at,
+						commit: {
+							sha: commit.sha,
+							// author: commit.author
+							// 	? {
+							// 			id: commit.author.id,
+							// 			login: commit.author.login,
+							// 		}
+							// 	: undefined,
+							// committer: commit.committer
+							// 	? {
+							// 			id: commit.committer.id,
+							// 			login: commit.committer.login,
+							// 		}
+							// 	: undefined,
+						},
+					};
+
+					// Use a separate evaluator per environment as evaluations run concurrently
+					const decision = await new PolicyEvaluator(
+						config,
+						identity,
+						context.log,
+					).evaluateWithTrace({
+						...approvalContext,
+						comments,
+						environment: {
+							name: environmentName,
+						},
+						deployment: deploymentContext,
+						// commits: [
+						// 	{
+						// 		sha: commit.sha,
+						// 		author: commit.author
+						// 			? {
+						// 					id: commit.author.id,
+						// 					login: commit.author.login,
+						// 				}
+						// 			: undefined,
+						// 		committer: commit.committer
+						// 			? {
+						// 					id: commit.committer.id,
+						// 					login: commit.committer.login,
+						// 				}
+						// 			: undefined,
+						// 	},
+						// ],
+					});
+					reports.push(
+						summarizeDecision(environmentName, decision, deploymentContext),
+					);
+					if (decision.approved) {
+						context.log.info(
+							`Workflow run ${workflowRun.id} approved by policy`,
+						);
+						try {
+							await reviewWorkflowRun(
+								context,
+								workflowRun.id,
+								environmentName,
+								'approved',
+								`Approved by policy`,
+							);
+						} catch (error: any) {
+							if (error.status === 422) {
+								context.log.warn(
+									'Deployment already approved, skipping duplicate approval',
+								);
+								return;
+							}
+							throw error;
+						}
+					}
+				}),
+			);
+		}),
+	);
+
+	// Evaluate the environments published earlier again, e.g. when they were already
+	// deployed or their runs were filtered out, so that the check run shows new
+	// approvals and vetoes instead of an outdated result
+	const evaluated = new Set(reports.map((report) => report.environment));
+	for (const deployment of await listPolicyCheckDeployments(context, headSha)) {
+		const environmentName = deployment.environment;
+		if (environmentName === undefined || evaluated.has(environmentName)) {
+			continue;
+		}
+		const decision = await new PolicyEvaluator(
+			config,
+			identity,
+			context.log,
+		).evaluateWithTrace({
+			...approvalContext,
+			environment: {
+				name: environmentName,
+			},
+			deployment,
+		});
+		reports.push(summarizeDecision(environmentName, decision, deployment));
+	}
+
+	await publishPolicyCheck(context, headSha, reports);
+}
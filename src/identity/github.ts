@@ -0,0 +1,88 @@
+import type { Context } from 'probot';
+import { getCollaboratorPermission } from '../client.js';
+import { MembershipResolver, createMembershipResolver } from '../membership.js';
+import type { IdentityProvider, Permission } from './provider.js';
+import { PERMISSIONS } from './provider.js';
+
+/**
+ * IdentityProvider backed by the GitHub API of a webhook delivery.
+ * Lookups are memoized for the lifetime of the provider.
+ */
+export class GitHubIdentityProvider implements IdentityProvider {
+	private githubContext: Context;
+	private membership: MembershipResolver;
+	private permissions = new Map<string, Promise<Permission>>();
+	private permissionHits = 0;
+
+	/**
+	 * Create a new GitHubIdentityProvider
+	 * @param githubContext The GitHub context of the webhook delivery
+	 * @param membership Resolver for team and organization membership (defaults to a resolver for this provider)
+	 */
+	constructor(
+		githubContext: Context,
+		membership: MembershipResolver = new MembershipResolver(githubContext),
+	) {
+		this.githubContext = githubContext;
+		this.membership = membership;
+	}
+
+	isUserInTeam(user: string, team: string): Promise<boolean> {
+		return this.membership.isTeamMember(user, team);
+	}
+
+	isUserInOrg(user: string, organization: string): Promise<boolean> {
+		return this.membership.isOrganizationMember(user, organization);
+	}
+
+	getPermission(user: string): Promise<Permission> {
+		const key = user.toLowerCase();
+		let permission = this.permissions.get(key);
+		if (permission === undefined) {
+			permission = this.fetchPermission(user);
+			this.permissions.set(key, permission);
+		} else {
+			this.permissionHits++;
+		}
+		return permission;
+	}
+
+	get stats() {
+		const { hits, misses } = this.membership.stats;
+		return {
+			hits: hits + this.permissionHits,
+			misses: misses + this.permissions.size,
+		};
+	}
+
+	private async fetchPermission(user: string): Promise<Permission> {
+		try {
+			const { permission, role_name: roleName } =
+				await getCollaboratorPermission(this.githubContext, user);
+			// role_name distinguishes maintain and triage, which permission reports as
+			// write and read. Custom roles only have a name, so fall back to permission.
+			return (PERMISSIONS as readonly string[]).includes(roleName)
+				? (roleName as Permission)
+				: (permission as Permission);
+		} catch (error: any) {
+			// Users who are not collaborators are reported as not found
+			if (error?.status === 404) {
+				return 'none';
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Create a GitHub identity provider for a single webhook delivery
+ * @param githubContext The GitHub context of the webhook delivery
+ */
+export function createGitHubIdentityProvider(
+	githubContext: Context,
+): GitHubIdentityProvider {
+	return new GitHubIdentityProvider(
+		githubContext,
+		createMembershipResolver(githubContext),
+	);
+}
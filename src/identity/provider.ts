@@ -0,0 +1,59 @@
+/**
+ * Repository permission levels, from the least to the most privileged
+ */
+export const PERMISSIONS = [
+	'none',
+	'read',
+	'triage',
+	'write',
+	'maintain',
+	'admin',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Source of team, organization and repository permission information used to
+ * authorize approvers. Implementations must treat logins, organizations and
+ * team slugs as case-insensitive.
+ */
+export interface IdentityProvider {
+	/**
+	 * Check if a user is an active member of a team
+	 * @param user Login of the user
+	 * @param team Team in the format `org/team-slug`
+	 */
+	isUserInTeam(user: string, team: string): Promise<boolean>;
+
+	/**
+	 * Check if a user is an active member of an organization
+	 * @param user Login of the user
+	 * @param organization Login of the organization
+	 */
+	isUserInOrg(user: string, organization: string): Promise<boolean>;
+
+	/**
+	 * Get the permission a user has on the repository being deployed
+	 * @param user Login of the user
+	 */
+	getPermission(user: string): Promise<Permission>;
+
+	// Number of lookups answered from memory and from the backing API, for providers that cache lookups
+	readonly stats?: { hits: number; misses: number };
+}
+
+/**
+ * Check if a permission grants at least one of the required permissions
+ * @param permission The permission a user has
+ * @param required Permissions that are accepted
+ * @returns true if the permission is equal to or higher than any of the required permissions
+ */
+export function hasPermission(
+	permission: Permission,
+	required: Permission[],
+): boolean {
+	const level = PERMISSIONS.indexOf(permission);
+	return required.some(
+		(requiredPermission) => level >= PERMISSIONS.indexOf(requiredPermission),
+	);
+}
@@ -0,0 +1,153 @@
+import { readFile } from 'node:fs/promises';
+import { parse } from 'yaml';
+import type { IdentityProvider, Permission } from './provider.js';
+import { PERMISSIONS } from './provider.js';
+
+/**
+ * Identity information for offline evaluation, e.g.
+ *
+ * ```yaml
+ * organizations:
+ *   my-org: [alice, bob]
+ * teams:
+ *   my-org/release-managers: [alice]
+ * permissions:
+ *   alice: admin
+ *   bob: write
+ * ```
+ */
+export interface StaticIdentity {
+	// Members of each organization
+	organizations?: Record<string, string[]>;
+	// Members of each team, keyed by `org/team-slug`
+	teams?: Record<string, string[]>;
+	// Repository permission of each user; users not listed have no permission
+	permissions?: Record<string, Permission>;
+}
+
+/**
+ * IdentityProvider answering lookups from in-memory data, so policies can be
+ * evaluated without access to the GitHub API
+ */
+export class StaticIdentityProvider implements IdentityProvider {
+	private organizations: Map<string, Set<string>>;
+	private teams: Map<string, Set<string>>;
+	private permissions: Map<string, Permission>;
+
+	/**
+	 * Create a new StaticIdentityProvider
+	 * @param identity Organization members, team members and repository permissions
+	 */
+	constructor(identity: StaticIdentity = {}) {
+		this.organizations = toMembers(identity.organizations ?? {});
+		this.teams = toMembers(identity.teams ?? {});
+		this.permissions = new Map(
+			Object.entries(identity.permissions ?? {}).map(([user, permission]) => [
+				user.toLowerCase(),
+				permission,
+			]),
+		);
+	}
+
+	isUserInTeam(user: string, team: string): Promise<boolean> {
+		return Promise.resolve(
+			this.teams.get(team.toLowerCase())?.has(user.toLowerCase()) ?? false,
+		);
+	}
+
+	isUserInOrg(user: string, organization: string): Promise<boolean> {
+		return Promise.resolve(
+			this.organizations
+				.get(organization.toLowerCase())
+				?.has(user.toLowerCase()) ?? false,
+		);
+	}
+
+	getPermission(user: string): Promise<Permission> {
+		return Promise.resolve(this.permissions.get(user.toLowerCase()) ?? 'none');
+	}
+}
+
+function toMembers(groups: Record<string, string[]>): Map<string, Set<string>> {
+	return new Map(
+		Object.entries(groups).map(([group, users]) => [
+			group.toLowerCase(),
+			new Set(users.map((user) => user.toLowerCase())),
+		]),
+	);
+}
+
+/**
+ * Validate identity information parsed from YAML or JSON
+ * @param data The parsed data
+ * @returns The data as static identity information
+ * @throws Error describing the first invalid entry
+ */
+export function parseStaticIdentity(data: unknown): StaticIdentity {
+	if (data === null || data === undefined) {
+		return {};
+	}
+	if (!isRecord(data)) {
+		throw new Error('Identity file must contain a mapping');
+	}
+
+	for (const key of ['organizations', 'teams'] as const) {
+		const groups = data[key];
+		if (groups === undefined) {
+			continue;
+		}
+		if (!isRecord(groups)) {
+			throw new Error(`"${key}" must map names to lists of users`);
+		}
+		for (const [group, users] of Object.entries(groups)) {
+			if (
+				!Array.isArray(users) ||
+				!users.every((user) => typeof user === 'string')
+			) {
+				throw new Error(`"${key}.${group}" must be a list of users`);
+			}
+			if (key === 'teams' && !/^[^/]+\/[^/]+$/.test(group)) {
+				throw new Error(`Team "${group}" must be in the format org/team-slug`);
+			}
+		}
+	}
+
+	const permissions = data.permissions;
+	if (permissions !== undefined) {
+		if (!isRecord(permissions)) {
+			throw new Error('"permissions" must map users to permissions');
+		}
+		for (const [user, permission] of Object.entries(permissions)) {
+			if (!(PERMISSIONS as readonly unknown[]).includes(permission)) {
+				throw new Error(
+					`Permission of "${user}" must be one of ${PERMISSIONS.join(', ')}`,
+				);
+			}
+		}
+	}
+
+	return data as StaticIdentity;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Load a static identity provider from a YAML (or JSON) file
+ * @param path Path of the identity file
+ * @returns Provider answering lookups from the file
+ * @throws Error if the file cannot be read or is not valid
+ */
+export async function loadStaticIdentityProvider(
+	path: string,
+): Promise<StaticIdentityProvider> {
+	const content = await readFile(path, 'utf8');
+	try {
+		return new StaticIdentityProvider(parseStaticIdentity(parse(content)));
+	} catch (error) {
+		throw new Error(
+			`Invalid identity file ${path}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
@@ -2,11 +2,24 @@ import type { Probot } from 'probot';
 import type { Context } from 'probot';
 import type {
 	DeploymentProtectionRuleRequestedEvent,
+	IssueCommentCreatedEvent,
 	PullRequestReviewSubmittedEvent,
 } from '@octokit/webhooks-types';
 import { handleDeploymentProtectionRuleRequested } from './handlers/deployment-protection.js';
 import { handlePullRequestReviewSubmitted } from './handlers/pull-request-review.js';
+import { handleIssueCommentCreated } from './handlers/issue-comment.js';
+import { handlePullRequestChanged } from './handlers/pull-request.js';
+import { handlePullRequestLabelsChanged } from './handlers/pull-request-labels.js';
+import { CONFIG_PATH } from './checks/config-validation.js';
+import { getOrganizationConfig } from './client.js';
 import type { PolicyConfig } from './policy/types.js';
+import { formatIssue, validatePolicyConfig } from './policy/validate.js';
+import {
+	findLockViolations,
+	mergePolicyConfigs,
+} from './policy/inheritance.js';
+import { expandRuleTemplates } from './policy/templates.js';
+import { findUnreachableRules } from './policy/references.js';
 
 const DEFAULT_CONFIG: PolicyConfig = {
 	policy: {
@@ -16,14 +29,36 @@ const DEFAULT_CONFIG: PolicyConfig = {
 };
 
 async function getAppConfig(context: Context) {
-	const config = await context.config('deploynaut.yml', DEFAULT_CONFIG);
+	const repoConfig = await context.config('deploynaut.yml', DEFAULT_CONFIG);
 
-	if (!config) {
+	if (!repoConfig) {
 		context.log.error('No configuration found');
 		return null;
 	}
 
-	context.log.debug(`Configuration loaded: ${JSON.stringify(config)}`);
+	// An organization configuration that is not valid only blocks the repositories
+	// that extend it, so a typo in it does not stop deployments across the organization
+	const base = await getOrganizationPolicy(context);
+	if (base === null && repoConfig.extends) {
+		context.log.error(
+			'Configuration extends the organization policy, but the organization configuration is not valid',
+		);
+		return null;
+	}
+	if (base === null) {
+		context.log.warn(
+			'Organization configuration is not valid, so its locked rules are not enforced',
+		);
+	}
+	if (base === undefined && repoConfig.extends) {
+		context.log.warn(
+			'Configuration extends the organization policy, but the organization has no configuration',
+		);
+	}
+	const config =
+		base && repoConfig.extends
+			? mergePolicyConfigs(base, repoConfig)
+			: repoConfig;
 
 	// If no approval rules are configured, do not allow deployment
 	const approvalRules = config?.policy?.approval;
@@ -32,7 +67,68 @@ async function getAppConfig(context: Context) {
 		return null;
 	}
 
-	return config;
+	// Do not evaluate configurations with typos, as ignored conditions could approve
+	// deployments the policy author meant to block
+	const issues = validatePolicyConfig(config);
+	if (issues.length > 0) {
+		context.log.error(
+			`Configuration is not valid:\n${issues.map(formatIssue).join('\n')}`,
+		);
+		return null;
+	}
+
+	// Cyclic configurations are rejected by validation, so they can be serialized now
+	context.log.debug(`Configuration loaded: ${JSON.stringify(config)}`);
+
+	const unused = findUnreachableRules(config);
+	if (unused.length > 0) {
+		context.log.warn(
+			`Configuration has unused rules:\n${unused.map(formatIssue).join('\n')}`,
+		);
+	}
+
+	const policy = expandRuleTemplates(config);
+
+	// The repository configuration replaces the organization policy, so it must keep
+	// the rules and environments the organization locks
+	if (base) {
+		const violations = findLockViolations(expandRuleTemplates(base), policy);
+		if (violations.length > 0) {
+			context.log.error(
+				`Configuration weakens the locked organization policy:\n${violations.join('\n')}`,
+			);
+			return null;
+		}
+	}
+
+	return policy;
+}
+
+/**
+ * Load the configuration of the organization's .github repository
+ * @returns The configuration, undefined if the organization has none or the
+ * repository is the .github repository itself, or null if it is not valid
+ */
+async function getOrganizationPolicy(
+	context: Context,
+): Promise<PolicyConfig | undefined | null> {
+	if (context.repo().repo === '.github') {
+		return undefined;
+	}
+
+	const config = await getOrganizationConfig(context, CONFIG_PATH);
+	if (!config) {
+		return undefined;
+	}
+
+	const issues = validatePolicyConfig(config);
+	if (issues.length > 0) {
+		context.log.error(
+			`Organization configuration is not valid:\n${issues.map(formatIssue).join('\n')}`,
+		);
+		return null;
+	}
+	return config as PolicyConfig;
 }
 
 export default (app: Probot) => {
@@ -65,4 +161,45 @@ export default (app: Probot) => {
 			);
 		}
 	});
+
+	app.on('issue_comment.created', async (context: Context) => {
+		const payload = context.payload as IssueCommentCreatedEvent;
+		// Only comments on pull requests can approve deployments
+		if (payload.action === 'created' && payload.issue.pull_request) {
+			const config = await getAppConfig(context);
+			if (!config) {
+				return;
+			}
+
+			await handleIssueCommentCreated(
+				context as Context<'issue_comment.created'>,
+				config,
+			);
+		}
+	});
+
+	app.on(
+		['pull_request.labeled', 'pull_request.unlabeled'],
+		async (context) => {
+			const config = await getAppConfig(context);
+			if (!config) {
+				return;
+			}
+
+			await handlePullRequestLabelsChanged(context, config);
+		},
+	);
+
+	app.on(
+		[
+			'pull_request.opened',
+			'pull_request.reopened',
+			'pull_request.synchronize',
+		],
+		async (context) => {
+			// Validate the configuration proposed by the pull request rather than the
+			// configuration currently in use, so it is not loaded with getAppConfig
+			await handlePullRequestChanged(context);
+		},
+	);
 };
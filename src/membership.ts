@@ -0,0 +1,206 @@
+import type { Context } from 'probot';
+import { getOrganizationMembership, getTeamMembership } from './client.js';
+
+/**
+ * Number of membership checks answered from memory (hits) and from the GitHub API (misses)
+ */
+export interface MembershipStats {
+	hits: number;
+	misses: number;
+}
+
+/**
+ * Membership lookups shared across webhook deliveries.
+ * Entries expire after the TTL so membership changes are eventually picked up,
+ * and expired entries are removed whenever a lookup is added.
+ */
+export class MembershipCache {
+	private ttl: number;
+	private now: () => number;
+	private entries = new Map<string, { member: boolean; expiresAt: number }>();
+
+	/**
+	 * Create a new MembershipCache
+	 * @param ttl Time in milliseconds to keep lookups for
+	 * @param now Clock returning the current time in milliseconds (defaults to Date.now)
+	 */
+	constructor(ttl: number, now: () => number = Date.now) {
+		this.ttl = ttl;
+		this.now = now;
+	}
+
+	get(key: string): boolean | undefined {
+		const entry = this.entries.get(key);
+		if (entry === undefined) {
+			return undefined;
+		}
+		if (entry.expiresAt <= this.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry.member;
+	}
+
+	set(key: string, member: boolean): void {
+		this.sweep();
+		// Re-insert the entry so entries stay in the order they expire in
+		this.entries.delete(key);
+		this.entries.set(key, { member, expiresAt: this.now() + this.ttl });
+	}
+
+	/**
+	 * Number of entries kept in memory, including expired entries not removed yet
+	 */
+	get size(): number {
+		return this.entries.size;
+	}
+
+	// Remove expired entries, so users who are never looked up again do not
+	// stay in memory for the lifetime of the process
+	private sweep(): void {
+		const now = this.now();
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt > now) {
+				break;
+			}
+			this.entries.delete(key);
+		}
+	}
+}
+
+/**
+ * MembershipResolver checks team and organization membership using the
+ * "get membership for user" endpoints, so only the users being checked are fetched.
+ *
+ * Lookups are memoized for the lifetime of the resolver, including lookups that are
+ * still in flight, so concurrent checks for the same user only call the API once.
+ * Use one resolver per webhook delivery, optionally backed by a MembershipCache
+ * shared across deliveries.
+ */
+export class MembershipResolver {
+	private githubContext: Context;
+	private cache?: MembershipCache;
+	private lookups = new Map<string, Promise<boolean>>();
+	private hits = 0;
+	private misses = 0;
+
+	/**
+	 * Create a new MembershipResolver
+	 * @param githubContext The GitHub context of the webhook delivery
+	 * @param cache Optional cache shared across deliveries
+	 */
+	constructor(githubContext: Context, cache?: MembershipCache) {
+		this.githubContext = githubContext;
+		this.cache = cache;
+	}
+
+	/**
+	 * Check if a user is an active member of a team
+	 * @param user Login of the user
+	 * @param team Team in the format `org/team-slug`
+	 */
+	async isTeamMember(user: string, team: string): Promise<boolean> {
+		const [org, slug] = team.split('/');
+		return this.lookup(`team:${team}:${user}`, async () => {
+			const membership = await getTeamMembership(
+				this.githubContext,
+				org,
+				slug,
+				user,
+			);
+			return membership.state === 'active';
+		});
+	}
+
+	/**
+	 * Check if a user is an active member of an organization
+	 * @param user Login of the user
+	 * @param organization Login of the organization
+	 */
+	async isOrganizationMember(
+		user: string,
+		organization: string,
+	): Promise<boolean> {
+		return this.lookup(`org:${organization}:${user}`, async () => {
+			const membership = await getOrganizationMembership(
+				this.githubContext,
+				organization,
+				user,
+			);
+			return membership.state === 'active';
+		});
+	}
+
+	/**
+	 * Number of lookups answered from memory and from the GitHub API so far
+	 */
+	get stats(): MembershipStats {
+		return { hits: this.hits, misses: this.misses };
+	}
+
+	private lookup(key: string, fetch: () => Promise<boolean>): Promise<boolean> {
+		// Logins, organizations and team slugs are case-insensitive
+		const cacheKey = `${this.installationId()}:${key.toLowerCase()}`;
+
+		const pending = this.lookups.get(cacheKey);
+		if (pending !== undefined) {
+			this.hits++;
+			return pending;
+		}
+
+		const cached = this.cache?.get(cacheKey);
+		if (cached !== undefined) {
+			this.hits++;
+			const hit = Promise.resolve(cached);
+			this.lookups.set(cacheKey, hit);
+			return hit;
+		}
+
+		this.misses++;
+		const result = fetch()
+			.catch((error) => {
+				// Users who are not members are reported as not found
+				if (error?.status === 404) {
+					return false;
+				}
+				throw error;
+			})
+			.then((member) => {
+				// Only cache answers, so failed lookups are retried by later deliveries
+				this.cache?.set(cacheKey, member);
+				return member;
+			});
+		this.lookups.set(cacheKey, result);
+		return result;
+	}
+
+	// Installations can see different members, so cached lookups are scoped to the installation
+	private installationId(): number | undefined {
+		const payload = this.githubContext.payload as {
+			installation?: { id: number };
+		};
+		return payload.installation?.id;
+	}
+}
+
+// Shared across deliveries when MEMBERSHIP_CACHE_TTL is set
+let sharedCache: MembershipCache | undefined;
+
+/**
+ * Create a membership resolver for a single webhook delivery.
+ * When the MEMBERSHIP_CACHE_TTL environment variable is set to a number of seconds,
+ * lookups are also shared across deliveries for that long.
+ * @param githubContext The GitHub context of the webhook delivery
+ */
+export function createMembershipResolver(
+	githubContext: Context,
+): MembershipResolver {
+	const ttl = Number(process.env.MEMBERSHIP_CACHE_TTL ?? 0);
+	if (ttl > 0) {
+		sharedCache ??= new MembershipCache(ttl * 1000);
+	}
+	return new MembershipResolver(
+		githubContext,
+		ttl > 0 ? sharedCache : undefined,
+	);
+}
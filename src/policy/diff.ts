@@ -0,0 +1,892 @@
+import { findMatchingPattern } from './patterns.js';
+import { freezeAppliesTo } from './freeze.js';
+import { WEEKDAYS } from './schedule.js';
+import type {
+	ApprovalRule,
+	DisapprovalPolicy,
+	FreezePolicy,
+	NamedApprovalRule,
+	PolicyConfig,
+	RuleCondition,
+} from './types.js';
+import { PERMISSIONS } from '../identity/provider.js';
+
+/**
+ * Semantic change between two policy configurations
+ */
+export interface PolicyChange {
+	// Named rule the change applies to, if any
+	rule?: string;
+	description: string;
+	// The change makes deployments easier to approve or harder to veto
+	weakens: boolean;
+	// Production-like environments the change applies to
+	environments: string[];
+}
+
+// Environment names that are treated as production-like
+const PRODUCTION_LIKE = /prod/i;
+
+type ApprovalItem = string | ApprovalRule | ApprovalItem[];
+
+export interface DiffOptions {
+	// Environments to compare instead of the production-like environments
+	environments?: string[];
+	// Rules whose conditions weaken the policy when they apply in fewer cases,
+	// however the rules are used, e.g. rules locked by an organization
+	strictRules?: string[];
+}
+
+/**
+ * Directions in which changes to a rule weaken the policies it is used in
+ */
+interface RuleUsage {
+	// Conditions that apply in more cases
+	widening: boolean;
+	// Conditions that apply in fewer cases, since skipped rules are ignored by groups
+	narrowing: boolean;
+	// Requirements that are easier to satisfy
+	easing: boolean;
+	// Requirements that are harder to satisfy, for rules that block an approval
+	hardening: boolean;
+}
+
+// Rules that are alternatives of the policy, which is how unused rules are treated too
+const ALTERNATIVE: RuleUsage = {
+	widening: true,
+	narrowing: false,
+	easing: true,
+	hardening: false,
+};
+
+/**
+ * Compare two policy configurations
+ * @param base Configuration before the change, or undefined if it did not exist
+ * @param head Configuration after the change
+ * @param options Comparison options
+ * @returns Changes in the order rules are defined, followed by changes to the
+ * approvals required for each production-like environment
+ */
+export function diffPolicies(
+	base: PolicyConfig | undefined,
+	head: PolicyConfig,
+	options: DiffOptions = {},
+): PolicyChange[] {
+	const before = base ?? { policy: { approval: [] }, approval_rules: [] };
+	const environments =
+		options.environments ?? productionLikeEnvironments([before, head]);
+	const changes: PolicyChange[] = [];
+
+	// Environments a rule applies to, in the configuration it is defined in
+	const appliesIn = (rule: NamedApprovalRule) =>
+		environments.filter((environment) => appliesTo(rule, environment));
+
+	// A rule changes both policies when its use changes too
+	const usages = ruleUsages([before, head]);
+
+	const beforeRules = new Map(
+		(before.approval_rules ?? []).map((rule) => [rule.name, rule]),
+	);
+	const afterRules = new Map(
+		(head.approval_rules ?? []).map((rule) => [rule.name, rule]),
+	);
+
+	for (const rule of before.approval_rules ?? []) {
+		if (!afterRules.has(rule.name)) {
+			changes.push({
+				rule: rule.name,
+				description: 'Rule removed',
+				weakens: false,
+				environments: appliesIn(rule),
+			});
+		}
+	}
+
+	for (const rule of head.approval_rules ?? []) {
+		const previous = beforeRules.get(rule.name);
+		if (!previous) {
+			changes.push({
+				rule: rule.name,
+				description: `Rule added requiring ${describeCount(rule.requires?.count ?? 0)}`,
+				weakens: false,
+				environments: appliesIn(rule),
+			});
+			continue;
+		}
+		const usage: RuleUsage = {
+			...(usages.get(rule.name) ?? ALTERNATIVE),
+			...(options.strictRules?.includes(rule.name) && { narrowing: true }),
+		};
+		// A rule that no longer applies to an environment changes its protection too
+		const affected = environments.filter(
+			(environment) =>
+				appliesTo(previous, environment) || appliesTo(rule, environment),
+		);
+		for (const { description, weakens } of compareRules(
+			previous,
+			rule,
+			usage,
+		)) {
+			changes.push({
+				rule: rule.name,
+				description,
+				weakens,
+				environments: affected,
+			});
+		}
+	}
+
+	changes.push(
+		...compareApprovalPaths(before, head).map((change) => ({
+			...change,
+			environments: ruleEnvironments(head, change.rule, environments),
+		})),
+		...compareDisapproval(
+			before.policy.disapproval,
+			head.policy.disapproval,
+		).map((change) => ({ ...change, environments })),
+		...compareRejection(
+			before.policy.reject_unsatisfiable ?? false,
+			head.policy.reject_unsatisfiable ?? false,
+		).map((change) => ({ ...change, environments })),
+		...compareFreeze(before.freeze, head.freeze, environments),
+	);
+
+	// The overall effect for each production-like environment
+	for (const environment of environments) {
+		const required = minimumApprovals(
+			before,
+			before.policy.approval,
+			environment,
+		);
+		const now = minimumApprovals(head, head.policy.approval, environment);
+		if (required === now) {
+			continue;
+		}
+		changes.push({
+			description: describeEnvironmentChange(environment, required, now),
+			weakens: now !== undefined && (required === undefined || now < required),
+			environments: [environment],
+		});
+	}
+
+	return changes;
+}
+
+/**
+ * Changes that weaken the protection of production-like environments
+ */
+export function weakeningChanges(changes: PolicyChange[]): PolicyChange[] {
+	return changes.filter(
+		(change) => change.weakens && change.environments.length > 0,
+	);
+}
+
+/**
+ * Render policy changes as a markdown section
+ * @param changes Changes returned by diffPolicies
+ */
+export function renderPolicyDiff(changes: PolicyChange[]): string {
+	const lines = ['### Policy changes', ''];
+	if (changes.length === 0) {
+		lines.push('No changes to the effective policy.');
+		return lines.join('\n');
+	}
+
+	for (const change of changes) {
+		const subject = change.rule ? `**${change.rule}**: ` : '';
+		const flagged = change.weakens && change.environments.length > 0;
+		lines.push(
+			flagged
+				? `- ⚠️ ${subject}${change.description} (weakens protection of ${change.environments.join(', ')})`
+				: `- ${subject}${change.description}`,
+		);
+	}
+	return lines.join('\n');
+}
+
+interface RuleChange {
+	description: string;
+	weakens: boolean;
+}
+
+// A condition change can make a rule apply in more cases, fewer cases, or both
+interface ConditionChange {
+	description: string;
+	widens: boolean;
+	narrows: boolean;
+}
+
+function compareRules(
+	before: NamedApprovalRule,
+	after: NamedApprovalRule,
+	usage: RuleUsage,
+): RuleChange[] {
+	const changes: RuleChange[] = [];
+
+	const count = before.requires?.count ?? 0;
+	const newCount = after.requires?.count ?? 0;
+	if (newCount !== count) {
+		changes.push({
+			description: `Required approvals ${newCount < count ? 'lowered' : 'raised'} from ${count} to ${newCount}`,
+			weakens: newCount < count,
+		});
+	}
+
+	// Approvals from more users make a requirement easier to satisfy
+	changes.push(
+		...compareApprovers(
+			'Approvers',
+			before.requires ?? {},
+			after.requires ?? {},
+		),
+	);
+
+	const methods = before.methods ?? {};
+	const newMethods = after.methods ?? {};
+	if (Boolean(methods.github_review) !== Boolean(newMethods.github_review)) {
+		changes.push({
+			description: `GitHub reviews ${newMethods.github_review ? 'enabled' : 'disabled'}`,
+			weakens: Boolean(newMethods.github_review),
+		});
+	}
+	for (const key of [
+		'github_review_comment_patterns',
+		'issue_comment_patterns',
+	] as const) {
+		changes.push(
+			...compareList(
+				`\`${key}\``,
+				methods[key] ?? [],
+				newMethods[key] ?? [],
+				true,
+			),
+		);
+	}
+
+	return [
+		// Requirement changes weaken the policy when they make the rule easier to
+		// satisfy, or harder for rules that block an approval
+		...changes.map(({ description, weakens: eases }) => ({
+			description,
+			weakens: eases ? usage.easing : usage.hardening,
+		})),
+		...compareConditions(before.if ?? {}, after.if ?? {}).map(
+			({ description, widens, narrows }) => ({
+				description,
+				weakens: (widens && usage.widening) || (narrows && usage.narrowing),
+			}),
+		),
+	];
+}
+
+// Compare the cases a rule applies in. Whether that weakens the policy depends on how
+// the rule is used.
+function compareConditions(
+	before: RuleCondition,
+	after: RuleCondition,
+): ConditionChange[] {
+	// Changes that widen the rule when `weakens` is set, and narrow it otherwise
+	const changes: RuleChange[] = [];
+	const shifted: string[] = [];
+	const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<
+		keyof RuleCondition
+	>;
+
+	for (const key of keys) {
+		const condition = before[key];
+		const newCondition = after[key];
+		if (JSON.stringify(condition) === JSON.stringify(newCondition)) {
+			continue;
+		}
+		if (newCondition === undefined || newCondition === false) {
+			changes.push({
+				description: `Condition \`${key}\` removed`,
+				weakens: true,
+			});
+			continue;
+		}
+		if (condition === undefined || condition === false) {
+			changes.push({
+				description: `Condition \`${key}\` added`,
+				weakens: false,
+			});
+			continue;
+		}
+
+		switch (key) {
+			case 'environment':
+			case 'event':
+			case 'ref':
+			case 'target_branch': {
+				const lists = before[key] ?? {};
+				const newLists = after[key] ?? {};
+				changes.push(
+					...compareList(
+						`\`${key}.matches\``,
+						lists.matches ?? [],
+						newLists.matches ?? [],
+						true,
+					),
+					...compareList(
+						`\`${key}.not_matches\``,
+						lists.not_matches ?? [],
+						newLists.not_matches ?? [],
+						false,
+					),
+				);
+				break;
+			}
+			case 'labels': {
+				const lists = before[key] ?? {};
+				const newLists = after[key] ?? {};
+				changes.push(
+					...compareList(
+						'`labels.has_labels`',
+						lists.has_labels ?? [],
+						newLists.has_labels ?? [],
+						false,
+					),
+					...compareList(
+						'`labels.lacks_labels`',
+						lists.lacks_labels ?? [],
+						newLists.lacks_labels ?? [],
+						false,
+					),
+				);
+				break;
+			}
+			case 'changed_files': {
+				const lists = before[key] ?? {};
+				const newLists = after[key] ?? {};
+				changes.push(
+					...compareList(
+						'`changed_files.paths`',
+						lists.paths ?? [],
+						newLists.paths ?? [],
+						true,
+					),
+					...compareList(
+						'`changed_files.only_in`',
+						lists.only_in ?? [],
+						newLists.only_in ?? [],
+						true,
+					),
+					// Ignoring more files lets changes pass `only_in` more often
+					...compareList(
+						'`changed_files.ignore`',
+						lists.ignore ?? [],
+						newLists.ignore ?? [],
+						(newLists.only_in?.length ?? 0) > 0,
+					),
+				);
+				break;
+			}
+			case 'time_window': {
+				const window = before[key] ?? {};
+				const newWindow = after[key] ?? {};
+				changes.push(
+					...compareList(
+						'`time_window.days`',
+						window.days ?? WEEKDAYS,
+						newWindow.days ?? WEEKDAYS,
+						true,
+					),
+				);
+				// A different range of times may cover times the previous one did not,
+				// and leave out times it did cover
+				for (const field of ['start', 'end', 'timezone'] as const) {
+					if (window[field] !== newWindow[field]) {
+						shifted.push(
+							`\`time_window.${field}\` changed from ${window[field] ?? 'default'} to ${newWindow[field] ?? 'default'}`,
+						);
+					}
+				}
+				break;
+			}
+			case 'has_valid_signatures_by':
+			case 'only_has_contributors_in':
+			case 'only_has_authors_in':
+				changes.push(
+					...compareApprovers(
+						`\`${key}\``,
+						before[key] ?? {},
+						after[key] ?? {},
+					),
+				);
+				break;
+		}
+	}
+	return [
+		...changes.map(({ description, weakens: widens }) => ({
+			description,
+			widens,
+			narrows: !widens,
+		})),
+		...shifted.map((description) => ({
+			description,
+			widens: true,
+			narrows: true,
+		})),
+	];
+}
+
+interface Approvers {
+	users?: string[];
+	teams?: string[];
+	organizations?: string[];
+	permissions?: string[];
+}
+
+function compareApprovers(
+	subject: string,
+	before: Approvers,
+	after: Approvers,
+	widenWeakens = true,
+): RuleChange[] {
+	const changes: RuleChange[] = [];
+	for (const key of ['users', 'teams', 'organizations'] as const) {
+		changes.push(
+			...compareList(
+				`${subject} (${key})`,
+				before[key] ?? [],
+				after[key] ?? [],
+				widenWeakens,
+			),
+		);
+	}
+
+	// A lower permission lets more users approve
+	const level = lowestPermission(before.permissions);
+	const newLevel = lowestPermission(after.permissions);
+	if (level !== newLevel) {
+		const widened =
+			newLevel !== undefined && (level === undefined || newLevel < level);
+		changes.push({
+			description: `${subject} (permissions) ${widened ? 'widened' : 'narrowed'} from ${describePermission(level)} to ${describePermission(newLevel)}`,
+			weakens: widened === widenWeakens,
+		});
+	}
+	return changes;
+}
+
+function lowestPermission(permissions: string[] | undefined) {
+	const levels = (permissions ?? []).map((permission) =>
+		PERMISSIONS.indexOf(permission as (typeof PERMISSIONS)[number]),
+	);
+	return levels.length > 0 ? Math.min(...levels) : undefined;
+}
+
+function describePermission(level: number | undefined): string {
+	return level === undefined ? 'none' : `${PERMISSIONS[level]} or higher`;
+}
+
+function compareList(
+	subject: string,
+	before: string[],
+	after: string[],
+	addingWeakens: boolean,
+): RuleChange[] {
+	const added = after.filter((value) => !before.includes(value));
+	const removed = before.filter((value) => !after.includes(value));
+	const changes: RuleChange[] = [];
+	if (added.length > 0) {
+		changes.push({
+			description: `${subject} adds ${added.join(', ')}`,
+			weakens: addingWeakens,
+		});
+	}
+	if (removed.length > 0) {
+		changes.push({
+			description: `${subject} removes ${removed.join(', ')}`,
+			weakens: !addingWeakens,
+		});
+	}
+	return changes;
+}
+
+// Top-level approval entries are alternatives, so adding one weakens the policy
+function compareApprovalPaths(
+	before: PolicyConfig,
+	after: PolicyConfig,
+): Array<RuleChange & { rule?: string }> {
+	const describe = (item: ApprovalItem) =>
+		typeof item === 'string' ? item : JSON.stringify(item);
+	const paths = (before.policy.approval as ApprovalItem[]).map(describe);
+	const newPaths = (after.policy.approval as ApprovalItem[]).map(describe);
+
+	// A group that also requires an existing approval can only be harder to satisfy
+	const tightens = (item: ApprovalItem) =>
+		!Array.isArray(item) &&
+		typeof item !== 'string' &&
+		((item.and ?? []) as ApprovalItem[]).some((member) =>
+			paths.includes(describe(member)),
+		);
+
+	return [
+		...(after.policy.approval as ApprovalItem[])
+			.filter((item) => !paths.includes(describe(item)))
+			.map((item) => {
+				const path = describe(item);
+				return {
+					...(after.approval_rules.some((rule) => rule.name === path) && {
+						rule: path,
+					}),
+					description: `Approval by \`${path}\` added to \`policy.approval\``,
+					weakens: !tightens(item),
+				};
+			}),
+		...paths
+			.filter((path) => !newPaths.includes(path))
+			.map((path) => ({
+				description: `Approval by \`${path}\` removed from \`policy.approval\``,
+				weakens: false,
+			})),
+	];
+}
+
+function compareDisapproval(
+	before: DisapprovalPolicy | undefined,
+	after: DisapprovalPolicy | undefined,
+): RuleChange[] {
+	if (!before && !after) {
+		return [];
+	}
+	if (!after) {
+		return [{ description: 'Disapproval removed', weakens: true }];
+	}
+	if (!before) {
+		return [{ description: 'Disapproval added', weakens: false }];
+	}
+
+	// Fewer users being able to veto weakens the policy
+	const changes = compareApprovers(
+		'Disapproval',
+		before.requires,
+		after.requires,
+		false,
+	);
+	const review = before.methods?.github_review ?? true;
+	const newReview = after.methods?.github_review ?? true;
+	if (review !== newReview) {
+		changes.push({
+			description: `Disapproval by requesting changes ${newReview ? 'enabled' : 'disabled'}`,
+			weakens: !newReview,
+		});
+	}
+	for (const key of [
+		'github_review_comment_patterns',
+		'issue_comment_patterns',
+	] as const) {
+		changes.push(
+			...compareList(
+				`Disapproval \`${key}\``,
+				before.methods?.[key] ?? [],
+				after.methods?.[key] ?? [],
+				false,
+			),
+		);
+	}
+	return changes;
+}
+
+// Deployments that are left pending can still be approved by later reviews
+function compareRejection(before: boolean, after: boolean): RuleChange[] {
+	if (before === after) {
+		return [];
+	}
+	return [
+		{
+			description: `Rejecting unsatisfiable deployments ${after ? 'enabled' : 'disabled'}`,
+			weakens: !after,
+		},
+	];
+}
+
+// Deployments are easier to approve outside of a freeze or with an override
+function compareFreeze(
+	before: FreezePolicy | undefined,
+	after: FreezePolicy | undefined,
+	environments: string[],
+): PolicyChange[] {
+	const changes: PolicyChange[] = [];
+	const windows = before?.windows ?? [];
+	const newWindows = after?.windows ?? [];
+	const frozenIn = (...items: FreezePolicy['windows']) =>
+		environments.filter((environment) =>
+			items.some((window) => freezeAppliesTo(window, environment)),
+		);
+
+	for (const window of windows) {
+		const newWindow = newWindows.find(
+			(candidate) => candidate.name === window.name,
+		);
+		if (!newWindow) {
+			changes.push({
+				description: `Freeze window \`${window.name}\` removed`,
+				weakens: true,
+				environments: frozenIn(window),
+			});
+		} else if (JSON.stringify(window) !== JSON.stringify(newWindow)) {
+			// Changed ranges may be shorter, so they are treated as weakening
+			changes.push({
+				description: `Freeze window \`${window.name}\` changed`,
+				weakens: true,
+				environments: frozenIn(window, newWindow),
+			});
+		}
+	}
+	for (const window of newWindows) {
+		if (!windows.some((candidate) => candidate.name === window.name)) {
+			changes.push({
+				description: `Freeze window \`${window.name}\` added`,
+				weakens: false,
+				environments: frozenIn(window),
+			});
+		}
+	}
+
+	const override = before?.freeze_override;
+	const newOverride = after?.freeze_override;
+	if (override !== newOverride) {
+		changes.push({
+			description: !newOverride
+				? `Freeze override \`${override}\` removed`
+				: override
+					? `Freeze override changed from \`${override}\` to \`${newOverride}\``
+					: `Freeze override \`${newOverride}\` added`,
+			weakens: newOverride !== undefined,
+			environments: frozenIn(...windows, ...newWindows),
+		});
+	}
+	return changes;
+}
+
+function ruleEnvironments(
+	config: PolicyConfig,
+	name: string | undefined,
+	environments: string[],
+): string[] {
+	const rule = config.approval_rules.find(
+		(candidate) => candidate.name === name,
+	);
+	return rule
+		? environments.filter((environment) => appliesTo(rule, environment))
+		: environments;
+}
+
+/**
+ * Find how each rule is used by the approval policies and freeze overrides of
+ * the configurations
+ * @returns The directions in which changes to each used rule weaken a policy
+ */
+function ruleUsages(configs: PolicyConfig[]): Map<string, RuleUsage> {
+	const usages = new Map<string, RuleUsage>();
+	const visit = (item: unknown, groups: Array<'and' | 'or' | 'not'>) => {
+		if (typeof item === 'string') {
+			const usage = usageIn(groups);
+			const previous = usages.get(item);
+			usages.set(
+				item,
+				previous
+					? {
+							widening: previous.widening || usage.widening,
+							narrowing: previous.narrowing || usage.narrowing,
+							easing: previous.easing || usage.easing,
+							hardening: previous.hardening || usage.hardening,
+						}
+					: usage,
+			);
+		} else if (Array.isArray(item)) {
+			for (const child of item) {
+				visit(child, [...groups, 'or']);
+			}
+		} else if (typeof item === 'object' && item !== null) {
+			const group = item as ApprovalRule;
+			for (const child of group.and ?? []) {
+				visit(child, [...groups, 'and']);
+			}
+			for (const child of group.or ?? []) {
+				visit(child, [...groups, 'or']);
+			}
+			if (group.not !== undefined) {
+				visit(group.not, [...groups, 'not']);
+			}
+		}
+	};
+
+	for (const config of configs) {
+		visit(config.policy.approval, []);
+		if (config.freeze?.freeze_override) {
+			visit(config.freeze.freeze_override, []);
+		}
+	}
+	return usages;
+}
+
+// Rules are alternatives only when every group they are in is an alternative.
+// In `and` and `not` groups, a rule that is skipped is ignored, so a rule that
+// applies in fewer cases weakens the policy.
+function usageIn(groups: Array<'and' | 'or' | 'not'>): RuleUsage {
+	const negated = groups.filter((group) => group === 'not').length % 2 === 1;
+	const innermost = groups.at(-1) ?? 'or';
+	const outerAlternatives = groups
+		.slice(0, -1)
+		.every((group) => group === 'or');
+	return {
+		widening: innermost === 'or' || !outerAlternatives,
+		narrowing: innermost !== 'or' || !outerAlternatives,
+		easing: !negated,
+		hardening: negated,
+	};
+}
+
+/**
+ * Production-like environments and environment patterns named in either
+ * configuration, and `production`
+ */
+function productionLikeEnvironments(configs: PolicyConfig[]): string[] {
+	const names = new Set(['production']);
+	for (const config of configs) {
+		for (const rule of config.approval_rules ?? []) {
+			const { matches = [], not_matches: notMatches = [] } =
+				rule.if?.environment ?? {};
+			for (const pattern of [...matches, ...notMatches]) {
+				// Globs and regular expressions stand for the environments they match
+				if (PRODUCTION_LIKE.test(pattern)) {
+					names.add(pattern);
+				}
+			}
+		}
+	}
+	return [...names].sort();
+}
+
+// Environments may be patterns, which a rule applies to when it names them itself
+function appliesTo(rule: NamedApprovalRule, environment: string): boolean {
+	const condition = rule.if?.environment;
+	if (!condition) {
+		return true;
+	}
+	const matches = (patterns: string[]) =>
+		patterns.includes(environment) ||
+		findMatchingPattern(environment, patterns) !== undefined;
+	try {
+		if (condition.matches && !matches(condition.matches)) {
+			return false;
+		}
+		return !(condition.not_matches && matches(condition.not_matches));
+	} catch {
+		// Invalid patterns are reported by validation and fail evaluation
+		return false;
+	}
+}
+
+// Approvals required by a rule or group, and whether its conditions other than the
+// environment may skip it
+interface RequiredApprovals {
+	count: number;
+	conditional: boolean;
+}
+
+/**
+ * Fewest approvals that could approve a deployment to an environment, assuming
+ * the conditions other than the environment are met or not, whichever needs fewer
+ * approvals
+ * @returns The number of approvals, or undefined if no rule applies and
+ * deployments must be approved manually
+ */
+function minimumApprovals(
+	config: PolicyConfig,
+	items: ApprovalItem[],
+	environment: string,
+): number | undefined {
+	return alternativeApprovals(config, items, environment)?.count;
+}
+
+function alternativeApprovals(
+	config: PolicyConfig,
+	items: ApprovalItem[],
+	environment: string,
+): RequiredApprovals | undefined {
+	const approvals = items
+		.map((item) => requiredApprovals(config, item, environment))
+		.filter((approval) => approval !== undefined);
+	if (approvals.length === 0) {
+		return undefined;
+	}
+	return {
+		count: Math.min(...approvals.map((approval) => approval.count)),
+		conditional: approvals.every((approval) => approval.conditional),
+	};
+}
+
+function requiredApprovals(
+	config: PolicyConfig,
+	item: ApprovalItem,
+	environment: string,
+): RequiredApprovals | undefined {
+	if (typeof item === 'string') {
+		const rule = config.approval_rules.find(
+			(candidate) => candidate.name === item,
+		);
+		return rule && appliesTo(rule, environment)
+			? {
+					count: rule.requires?.count ?? 0,
+					conditional: Object.keys(rule.if ?? {}).some(
+						(key) => key !== 'environment',
+					),
+				}
+			: undefined;
+	}
+	if (Array.isArray(item)) {
+		return alternativeApprovals(config, item, environment);
+	}
+	if (item.and) {
+		// Rules that do not apply are skipped, and every other rule must be satisfied.
+		// Conditional rules may be skipped, unless all of them would be.
+		const approvals = (item.and as ApprovalItem[])
+			.map((rule) => requiredApprovals(config, rule, environment))
+			.filter((approval) => approval !== undefined);
+		const required = approvals.filter((approval) => !approval.conditional);
+		if (required.length > 0) {
+			return {
+				count: Math.max(...required.map((approval) => approval.count)),
+				conditional: false,
+			};
+		}
+		return approvals.length > 0
+			? {
+					count: Math.min(...approvals.map((approval) => approval.count)),
+					conditional: true,
+				}
+			: undefined;
+	}
+	if (item.or) {
+		return alternativeApprovals(config, item.or as ApprovalItem[], environment);
+	}
+	// A negation never approves, so it is skipped like a rule that does not apply
+	return undefined;
+}
+
+function describeCount(count: number): string {
+	return `${count} approval${count === 1 ? '' : 's'}`;
+}
+
+function describeEnvironmentChange(
+	environment: string,
+	required: number | undefined,
+	now: number | undefined,
+): string {
+	if (now === undefined) {
+		return `\`${environment}\` now requires manual approval`;
+	}
+	if (now === 0) {
+		return required === undefined
+			? `\`${environment}\` is now approved automatically, it previously required manual approval`
+			: `\`${environment}\` is now approved automatically, it previously required ${describeCount(required)}`;
+	}
+	return required === undefined
+		? `\`${environment}\` can now be approved with ${describeCount(now)}, it previously required manual approval`
+		: `\`${environment}\` now requires ${describeCount(now)} instead of ${describeCount(required)}`;
+}
@@ -1,4 +1,3 @@
-import type { Context } from 'probot';
 import type {
 	PolicyContext,
 	ApprovalRule,
@@ -7,8 +6,23 @@ import type {
 	RuleCondition,
 	ApprovalRequirement,
 	ApprovalMethods,
+	RuleResult,
+	PolicyDecision,
+	PolicyOutcome,
+	ApprovalTrace,
+	NamedRuleTrace,
+	ConditionTrace,
+	RequirementTrace,
+	ReviewTrace,
+	DisapprovalPolicy,
+	DisapprovalTrace,
+	FreezeTrace,
 } from './types.js';
-import { listTeamMembers, listOrganizationMembers } from '../client.js';
+import type { IdentityProvider, Permission } from '../identity/provider.js';
+import { hasPermission } from '../identity/provider.js';
+import { findMatchingPattern, parsePattern } from './patterns.js';
+import { findActiveFreezeWindows } from './freeze.js';
+import { isWithinWeeklyWindow, localTime } from './schedule.js';
 import type { Commit } from './types.js';
 
 /**
@@ -21,22 +35,14 @@ interface Logger {
 	error(message: string): void;
 }
 
-/**
- * Result type for rule evaluation
- * - true: rule passed
- * - false: rule failed
- * - 'skipped': rule conditions not met, so it was skipped
- */
-type RuleResult = boolean | 'skipped';
-
 /**
  * PolicyEvaluator evaluates deployment policies based on configured approval rules
  *
  * The evaluator supports:
  * - OR logic between top-level approval rules
  * - AND logic within rule groups
- * - Conditional rules based on environment, signatures, and authorship
- * - Multiple approval methods (GitHub reviews, comment patterns)
+ * - Conditional rules based on environment, event, signatures, authorship and request time
+ * - Multiple approval methods (GitHub reviews, review and pull request comment patterns)
  * - Team, organization, and user-based requirements
  * - Simplified signature validation using GitHub's verification status and committer authorization
  */
@@ -44,20 +50,27 @@ export class PolicyEvaluator {
 	private config: PolicyConfig;
 	private context: PolicyContext;
 	private logger: Logger;
-	private githubContext: Context;
+	private identity: IdentityProvider;
+	private clock: () => Date;
 	/**
 	 * Create a new PolicyEvaluator
 	 * @param config Policy configuration containing approval rules
+	 * @param identity Source of team, organization and permission information, shared by
+	 * evaluations of the same webhook delivery
 	 * @param logger Logger for outputting evaluation messages (defaults to console)
+	 * @param clock Source of the current time for freeze windows, and for time windows
+	 * when the deployment request time is not known (defaults to the system clock)
 	 */
 	constructor(
 		config: PolicyConfig,
-		githubContext: Context,
+		identity: IdentityProvider,
 		logger: Logger = console,
+		clock: () => Date = () => new Date(),
 	) {
 		this.config = config;
+		this.identity = identity;
 		this.logger = logger;
-		this.githubContext = githubContext;
+		this.clock = clock;
 	}
 
 	/**
@@ -66,56 +79,241 @@ export class PolicyEvaluator {
 	 * @returns true if policy allows deployment, false otherwise
 	 */
 	async evaluate(context: PolicyContext): Promise<boolean> {
+		const decision = await this.evaluateWithTrace(context);
+		return decision.approved;
+	}
+
+	/**
+	 * Evaluate the policy against the given context and return the full decision trace
+	 * @param context The deployment context containing commits, reviews, environment, etc.
+	 * @returns Decision with the result of every rule, condition and review considered
+	 */
+	async evaluateWithTrace(context: PolicyContext): Promise<PolicyDecision> {
 		this.context = context;
-		const approvalRules = this.config.policy.approval;
+		const freeze = this.findActiveFreeze();
+		if (freeze && !freeze.override) {
+			this.logger.warn(
+				`Deployments are frozen by ${freeze.windows.join(', ')} - deployment not allowed`,
+			);
+			return {
+				approved: false,
+				result: false,
+				outcome: 'rejected',
+				approval: [],
+				freeze,
+			};
+		}
+
+		// During a freeze, only the override rule can approve the deployment
+		const approvalRules = freeze?.override
+			? [freeze.override]
+			: this.config.policy.approval;
 
 		// If no approval rules are configured, do not allow deployment
 		if (!approvalRules || approvalRules.length === 0) {
 			this.logger.warn('No approval rules found - deployment not allowed');
-			return false;
+			return {
+				approved: false,
+				result: false,
+				outcome: 'rejected',
+				approval: [],
+			};
 		}
 
 		// Evaluate all approval rules (OR logic at top level)
-		const result = await this.evaluateRules(approvalRules);
+		const traces = await this.evaluateRules(approvalRules);
+		const result = combineOr(resultsOf(traces));
+
+		// A veto overrides any approval
+		const disapproval = this.config.policy.disapproval
+			? await this.evaluateDisapproval(this.config.policy.disapproval)
+			: undefined;
+
+		if (this.identity.stats) {
+			const { hits, misses } = this.identity.stats;
+			this.logger.info(
+				`Identity lookups so far: ${hits} cached, ${misses} fetched`,
+			);
+		}
+		if (disapproval?.vetoed) {
+			this.logger.warn(
+				`Deployment vetoed by ${disapproval.vetoes.map((veto) => veto.user).join(', ')} - deployment not allowed`,
+			);
+			return {
+				approved: false,
+				result: false,
+				outcome: 'rejected',
+				approval: traces,
+				disapproval,
+				...(freeze && { freeze }),
+			};
+		}
+
 		if (result === false) {
 			this.logger.warn('Policy evaluation failed - deployment not allowed');
 		}
-		return result === true;
+		return {
+			approved: result === true,
+			result,
+			outcome: getOutcome(result, traces),
+			approval: traces,
+			...(disapproval && { disapproval }),
+			...(freeze && { freeze }),
+		};
 	}
 
 	/**
-	 * Evaluate a collection of rules using OR logic
-	 * @param rules Array of rule names or rule objects to evaluate
-	 * @returns 'skipped' if all rules were skipped, otherwise boolean result
+	 * Find the freeze windows in effect for the environment being deployed to
+	 * @returns The windows and the override rule, or undefined if there is no freeze
 	 */
-	private async evaluateRules(
-		rules: string[] | ApprovalRule[],
-	): Promise<RuleResult> {
-		// Evaluate each rule in the collection
-		const results = await Promise.all(
-			rules.map((rule) => this.evaluateRule(rule)),
+	private findActiveFreeze(): FreezeTrace | undefined {
+		if (!this.config.freeze) {
+			return undefined;
+		}
+		const windows = findActiveFreezeWindows(
+			this.config.freeze,
+			this.context.environment?.name,
+			this.clock(),
 		);
-
-		// Filter out skipped rules to get actual results
-		const nonSkippedResults = results.filter(
-			(r): r is boolean => r !== 'skipped',
+		if (windows.length === 0) {
+			return undefined;
+		}
+		const override = this.config.freeze.freeze_override;
+		this.logger.info(
+			`Freeze windows in effect: ${windows.map((window) => window.name).join(', ')}`,
 		);
+		return {
+			windows: windows.map((window) => window.name),
+			...(override && { override }),
+		};
+	}
 
-		// If all rules were skipped, return skipped
-		if (nonSkippedResults.length === 0) {
-			return 'skipped';
+	/**
+	 * Evaluate the disapproval policy. The latest veto of each authorized reviewer
+	 * blocks deployment until the review is dismissed, the comment is deleted or
+	 * the reviewer approves.
+	 * @param disapproval The disapproval policy to evaluate
+	 * @returns Trace with the reviews currently vetoing the deployment
+	 */
+	private async evaluateDisapproval(
+		disapproval: DisapprovalPolicy,
+	): Promise<DisapprovalTrace> {
+		const { users, teams, organizations, permissions } = disapproval.requires;
+		const methods = disapproval.methods;
+
+		// Comments veto regardless of when they were made, so stale comments count too
+		const comments = methods?.issue_comment_patterns?.length
+			? (this.context.comments ?? [])
+			: [];
+		const timeline = [
+			...this.context.reviews.map((review) => ({
+				submitted_at: review.submitted_at,
+				review,
+			})),
+			...comments.map((comment) => ({
+				submitted_at: comment.created_at,
+				comment,
+			})),
+		];
+
+		// Track the latest veto of each reviewer, in the order reviews and comments were submitted
+		const vetoes = new Map<number, ReviewTrace>();
+		for (const entry of sortBySubmission(timeline)) {
+			if ('comment' in entry) {
+				const { comment } = entry;
+				const commentPattern = methods?.issue_comment_patterns?.find((p) =>
+					parsePattern(p).test(comment.body),
+				);
+				if (commentPattern !== undefined) {
+					vetoes.set(comment.user.id, {
+						id: comment.id,
+						user: comment.user.login,
+						state: 'COMMENTED',
+						counted: true,
+						pattern: commentPattern,
+						source: 'issue_comment',
+					});
+				}
+				continue;
+			}
+
+			const { review } = entry;
+			const state = review.state.toLowerCase();
+			if (state === 'approved') {
+				vetoes.delete(review.user.id);
+				continue;
+			}
+
+			const trace: ReviewTrace = {
+				id: review.id,
+				user: review.user.login,
+				state: review.state,
+				counted: true,
+			};
+			if (methods?.github_review !== false && state === 'changes_requested') {
+				vetoes.set(review.user.id, trace);
+				continue;
+			}
+
+			// Dismissed reviews are reported with the "DISMISSED" state and never veto
+			const pattern =
+				state === 'commented' && review.body
+					? methods?.github_review_comment_patterns?.find((p) =>
+							parsePattern(p).test(review.body ?? ''),
+						)
+					: undefined;
+			if (pattern !== undefined) {
+				vetoes.set(review.user.id, { ...trace, pattern });
+			}
 		}
 
-		// For OR logic, return true if any rule passed
-		return nonSkippedResults.some((r) => r === true);
+		// Only vetoes by authorized reviewers block deployment
+		const authorizedVetoes = (
+			await Promise.all(
+				[...vetoes.values()].map(async (trace) => {
+					const authorized = await this.isUserInAny(
+						trace.user,
+						users ?? [],
+						organizations ?? [],
+						teams ?? [],
+						permissions,
+					);
+					if (!authorized) {
+						this.logger.info(
+							`Review ${trace.id} veto ignored: ${trace.user} is not authorized to disapprove`,
+						);
+						return undefined;
+					}
+					this.logger.warn(
+						`Review ${trace.id} by ${trace.user} vetoes deployment`,
+					);
+					return trace;
+				}),
+			)
+		).filter((trace) => trace !== undefined);
+
+		return { vetoed: authorizedVetoes.length > 0, vetoes: authorizedVetoes };
+	}
+
+	/**
+	 * Evaluate a collection of rules
+	 * @param rules Array of rule names or rule objects to evaluate
+	 * @returns Traces of each evaluated rule, in order
+	 */
+	private async evaluateRules(
+		rules: Array<string | ApprovalRule>,
+	): Promise<ApprovalTrace[]> {
+		return await Promise.all(rules.map((rule) => this.evaluateRule(rule)));
 	}
 
 	/**
-	 * Evaluate a single rule (can be a named rule, AND group, OR group, or array)
+	 * Evaluate a single rule (can be a named rule, AND group, OR group, NOT group, or array)
 	 * @param rule The rule to evaluate
-	 * @returns Result of rule evaluation
+	 * @returns Trace of the rule evaluation
 	 */
-	private async evaluateRule(rule: string | ApprovalRule): Promise<RuleResult> {
+	private async evaluateRule(
+		rule: string | ApprovalRule,
+	): Promise<ApprovalTrace> {
 		this.logger.info(`Evaluating approval: ${JSON.stringify(rule)}`);
 
 		// Handle named rule references
@@ -130,34 +328,30 @@ export class PolicyEvaluator {
 
 		// Handle AND logic: all sub-rules must pass
 		if (rule.and) {
-			const results = await Promise.all(
-				rule.and.map((subRule) => this.evaluateRule(subRule)),
-			);
-			const nonSkippedResults = results.filter(
-				(r): r is boolean => r !== 'skipped',
-			);
-
-			// If all sub-rules were skipped, skip this rule too
-			if (nonSkippedResults.length === 0) {
-				return 'skipped';
-			}
-
-			// For AND logic, all non-skipped rules must pass
-			return nonSkippedResults.every((r) => r === true);
+			const rules = await this.evaluateRules(rule.and);
+			return { type: 'and', result: combineAnd(resultsOf(rules)), rules };
 		}
 
 		// Handle arrays as OR rules
 		if (Array.isArray(rule)) {
-			return await this.evaluateRules(rule);
+			const rules = await this.evaluateRules(rule);
+			return { type: 'or', result: combineOr(resultsOf(rules)), rules };
 		}
 
 		// Handle explicit OR rules
 		if (rule.or) {
-			return await this.evaluateRules(rule.or);
+			const rules = await this.evaluateRules(rule.or);
+			return { type: 'or', result: combineOr(resultsOf(rules)), rules };
+		}
+
+		// Handle NOT logic: the sub-rule must not pass
+		if (rule.not) {
+			const negated = await this.evaluateRule(rule.not);
+			return { type: 'not', result: negate(negated.result), rules: [negated] };
 		}
 
 		// Unknown rule format
-		return false;
+		return { type: 'invalid', result: false, rule };
 	}
 
 	/**
@@ -174,129 +368,330 @@ export class PolicyEvaluator {
 	/**
 	 * Evaluate a named approval rule
 	 * @param rule The named rule to evaluate
-	 * @returns Result of rule evaluation
+	 * @returns Trace of the rule evaluation
 	 */
 	private async evaluateNamedRule(
 		rule: NamedApprovalRule,
-	): Promise<RuleResult> {
+	): Promise<NamedRuleTrace> {
 		this.logger.debug(`Evaluating rule: ${JSON.stringify(rule)}`);
+		const trace: NamedRuleTrace = {
+			type: 'rule',
+			name: rule.name,
+			result: true,
+			conditions: [],
+		};
 
 		// First check if rule conditions are met
-		if (rule.if && !(await this.evaluateConditions(rule.if))) {
-			this.logger.info(`Rule "${rule.name}" skipped - conditions not met`);
-			return 'skipped';
+		if (rule.if) {
+			trace.conditions = await this.evaluateConditions(rule.if);
+			if (!trace.conditions.every((condition) => condition.passed)) {
+				this.logger.info(`Rule "${rule.name}" skipped - conditions not met`);
+				trace.result = 'skipped';
+				return trace;
+			}
 		}
 
 		// If no requirements or count is 0, rule passes automatically
 		if (!rule.requires || rule.requires.count < 1) {
 			this.logger.info(`Rule "${rule.name}" is satisfied with no requirements`);
-			return true;
+			return trace;
 		}
 
 		// Check if approval requirements are met
-		if (!(await this.evaluateRequirements(rule.requires, rule.methods))) {
+		trace.requirements = await this.evaluateRequirements(
+			rule.requires,
+			rule.methods,
+		);
+		if (trace.requirements.count < trace.requirements.required) {
 			this.logger.warn(`Policy requirements not met for rule "${rule.name}"`);
-			return false;
+			trace.result = false;
 		}
 
-		return true;
+		return trace;
 	}
 
 	/**
-	 * Evaluate rule conditions (environment, signatures, authorship)
+	 * Evaluate rule conditions (environment, event, signatures, authorship)
 	 * @param conditions The conditions to evaluate
 	 * @returns true if all conditions are met, false otherwise
 	 */
 	private evaluateEnvironmentCondition(
 		condition: NonNullable<RuleCondition['environment']>,
-	): boolean {
+	): ConditionTrace {
+		const trace = newConditionTrace('environment');
 		const envName = this.context.environment?.name;
 		if (!envName) {
 			this.logger.warn('No environment name found in context');
-			return false;
+			return failCondition(trace, 'No environment name found in context');
 		}
 
 		// Check if environment matches allowed list
-		if (condition.matches && !condition.matches.includes(envName)) {
-			this.logger.warn(
-				`Environment "${envName}" does not match any allowed environments`,
-			);
-			return false;
+		if (
+			condition.matches &&
+			this.findMatchingPattern(envName, condition.matches) === undefined
+		) {
+			const message = `Environment "${envName}" does not match any allowed environments`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
 		}
 
 		// Check if environment is in excluded list
-		if (condition.not_matches?.includes(envName)) {
-			this.logger.warn(
-				`Environment "${envName}" is explicitly excluded by the policy`,
-			);
-			return false;
+		if (
+			condition.not_matches &&
+			this.findMatchingPattern(envName, condition.not_matches) !== undefined
+		) {
+			const message = `Environment "${envName}" is explicitly excluded by the policy`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
+		}
+
+		return trace;
+	}
+
+	/**
+	 * Find the first name pattern (glob or regex) that matches a name
+	 * @throws Error if one of the patterns is not a valid regular expression
+	 */
+	private findMatchingPattern(
+		name: string,
+		patterns: string[],
+	): string | undefined {
+		try {
+			return findMatchingPattern(name, patterns);
+		} catch (error) {
+			this.logger.error(`Pattern is not valid: ${error}`);
+			throw new Error(`Pattern is not valid: ${error}`);
+		}
+	}
+
+	private evaluateEventCondition(
+		condition: NonNullable<RuleCondition['event']>,
+	): ConditionTrace {
+		const trace = newConditionTrace('event');
+		const event = this.context.deployment?.event;
+		if (!event) {
+			this.logger.warn('No deployment event found in context');
+			return failCondition(trace, 'No deployment event found in context');
+		}
+
+		// Check if event matches allowed list
+		if (condition.matches && !condition.matches.includes(event)) {
+			const message = `Event "${event}" does not match any allowed events`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
+		}
+
+		// Check if event is in excluded list
+		if (condition.not_matches?.includes(event)) {
+			const message = `Event "${event}" is explicitly excluded by the policy`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
+		}
+
+		return trace;
+	}
+
+	/**
+	 * Evaluate a condition on a branch name with allowed and excluded name patterns
+	 * @param key The condition being evaluated
+	 * @param subject Description of the name in failure reasons, e.g. "Ref"
+	 * @param name The name from the context, if it is known
+	 */
+	private evaluateBranchCondition(
+		key: 'ref' | 'target_branch',
+		subject: string,
+		name: string | undefined,
+		condition: NonNullable<RuleCondition['ref' | 'target_branch']>,
+	): ConditionTrace {
+		const trace = newConditionTrace(key);
+		if (!name) {
+			const message = `No ${subject.toLowerCase()} found in context`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
+		}
+
+		if (
+			condition.matches &&
+			this.findMatchingPattern(name, condition.matches) === undefined
+		) {
+			const message = `${subject} "${name}" does not match any allowed patterns`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
+		}
+
+		if (
+			condition.not_matches &&
+			this.findMatchingPattern(name, condition.not_matches) !== undefined
+		) {
+			const message = `${subject} "${name}" is explicitly excluded by the policy`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
+		}
+
+		return trace;
+	}
+
+	private evaluateLabelsCondition(
+		condition: NonNullable<RuleCondition['labels']>,
+	): ConditionTrace {
+		const trace = newConditionTrace('labels');
+		if (!this.context.labels) {
+			this.logger.warn('No labels found in context');
+			return failCondition(trace, 'No labels found in context');
+		}
+
+		// GitHub label names are unique regardless of case
+		const labels = this.context.labels.map((label) => label.toLowerCase());
+		for (const label of condition.has_labels ?? []) {
+			if (!labels.includes(label.toLowerCase())) {
+				failCondition(trace, `Pull request does not have label "${label}"`);
+			}
+		}
+		for (const label of condition.lacks_labels ?? []) {
+			if (labels.includes(label.toLowerCase())) {
+				failCondition(trace, `Pull request has label "${label}"`);
+			}
 		}
 
-		return true;
+		this.logger.info(`Evaluated condition labels: ${trace.passed}`);
+		return trace;
 	}
 
-	private evaluateHasValidSignaturesCondition(): boolean {
+	private evaluateTimeWindowCondition(
+		condition: NonNullable<RuleCondition['time_window']>,
+	): ConditionTrace {
+		const trace = newConditionTrace('time_window');
+		// Evaluate the time of the request, so that later reviews give the same result
+		const createdAt = this.context.deployment?.created_at;
+		const requestedAt = createdAt ? new Date(createdAt) : this.clock();
+
+		if (!isWithinWeeklyWindow(condition, requestedAt)) {
+			const timeZone = condition.timezone ?? 'UTC';
+			const { weekday, minutes } = localTime(requestedAt, timeZone);
+			const time = [Math.floor(minutes / 60), minutes % 60]
+				.map((value) => String(value).padStart(2, '0'))
+				.join(':');
+			const message = `Deployment requested on ${weekday} at ${time} (${timeZone}) is outside of the time window`;
+			this.logger.warn(message);
+			return failCondition(trace, message);
+		}
+
+		this.logger.info(`Evaluated condition time_window: ${trace.passed}`);
+		return trace;
+	}
+
+	private evaluateChangedFilesCondition(
+		condition: NonNullable<RuleCondition['changed_files']>,
+	): ConditionTrace {
+		const trace = newConditionTrace('changed_files');
+		const changedFiles = this.context.changed_files;
+		if (!changedFiles) {
+			this.logger.warn('No changed files found in context');
+			return failCondition(trace, 'No changed files found in context');
+		}
+
+		const files = condition.ignore
+			? changedFiles.filter(
+					(file) =>
+						this.findMatchingPattern(file, condition.ignore ?? []) ===
+						undefined,
+				)
+			: changedFiles;
+
+		// Check if any file matches the paths
+		if (
+			condition.paths &&
+			!files.some(
+				(file) =>
+					this.findMatchingPattern(file, condition.paths ?? []) !== undefined,
+			)
+		) {
+			failCondition(trace, 'No changed files match the policy paths');
+		}
+
+		// Check if every file is in the allowed paths
+		if (condition.only_in) {
+			for (const file of files) {
+				if (this.findMatchingPattern(file, condition.only_in) === undefined) {
+					failCondition(
+						trace,
+						`Changed file "${file}" is outside of the allowed paths`,
+					);
+				}
+			}
+		}
+
+		this.logger.info(`Evaluated condition changed_files: ${trace.passed}`);
+		return trace;
+	}
+
+	private evaluateHasValidSignaturesCondition(): ConditionTrace {
+		const trace = newConditionTrace('has_valid_signatures');
 		const commits = this.context.commits;
 
 		if (commits.length === 0) {
 			this.logger.warn('No commits found for signature validation');
-			return false;
+			return failCondition(trace, 'No commits found for signature validation');
 		}
-		const results = commits.map((commit: Commit) => {
+		for (const commit of commits) {
 			// Check if GitHub verified the signature
+			const message = `Commit "${commit.sha}" signature not verified by GitHub: ${commit.verification?.reason ?? 'unknown'}`;
 			if (!commit.verification?.verified) {
-				this.logger.debug(
-					`Commit "${commit.sha}" signature not verified by GitHub: ${commit.verification?.reason ?? 'unknown'}`,
-				);
-				return false;
+				this.logger.debug(message);
+				failCondition(trace, message);
+				continue;
 			}
 			this.logger.debug(
 				`Commit "${commit.sha}" signature verified by GitHub: ${commit.verification?.reason ?? 'unknown'}`,
 			);
-			return true;
-		});
+		}
 
-		const result = results.every(Boolean);
-		this.logger.info(`Evaluated condition has_valid_signatures: ${result}`);
-		return result;
+		this.logger.info(
+			`Evaluated condition has_valid_signatures: ${trace.passed}`,
+		);
+		return trace;
 	}
 
 	private async evaluateHasValidSignaturesByCondition(
 		condition: NonNullable<RuleCondition['has_valid_signatures_by']>,
-	): Promise<boolean> {
+	): Promise<ConditionTrace> {
+		const trace = newConditionTrace('has_valid_signatures_by');
 		const commits = this.context.commits;
 		const { users, organizations, teams } = condition;
 
 		// Check signature verification using GitHub's verification status
 		const results = await Promise.all(
 			commits.map(async (commit: Commit) => {
-				const isValid = await this.validateCommitSignature(commit, {
+				return await this.validateCommitSignature(commit, {
 					users,
 					organizations,
 					teams,
 				});
-
-				if (!isValid) {
-					return false;
-				}
-				return true;
 			}),
 		);
 
-		const result = results.every(Boolean);
-		this.logger.info(`Evaluated condition has_valid_signatures_by: ${result}`);
-		return result;
+		for (const reason of results) {
+			if (reason) {
+				failCondition(trace, reason);
+			}
+		}
+
+		this.logger.info(
+			`Evaluated condition has_valid_signatures_by: ${trace.passed}`,
+		);
+		return trace;
 	}
 
 	private async evaluateOnlyHasAuthorsInCondition(
 		condition: NonNullable<RuleCondition['only_has_authors_in']>,
-	): Promise<boolean> {
+	): Promise<ConditionTrace> {
+		const trace = newConditionTrace('only_has_authors_in');
 		const { users, organizations, teams } = condition;
 		const commits = this.context.commits;
 
 		// If there are no commits, return false
 		if (commits.length === 0) {
-			return false;
+			return failCondition(trace, 'No commits found');
 		}
 
 		// Check that all commits were authored by the specified users/organizations/teams
@@ -311,22 +706,31 @@ export class PolicyEvaluator {
 			}),
 		);
 
-		const result = results.every(Boolean);
+		commits.forEach((commit, idx) => {
+			if (!results[idx]) {
+				failCondition(
+					trace,
+					`Commit "${commit.sha}" authored by an unauthorized user: ${commit.author?.login ?? 'unknown'}`,
+				);
+			}
+		});
+
 		this.logger.info(
-			`Evaluated condition only_has_authors_in: ${JSON.stringify(condition)}: ${result}`,
+			`Evaluated condition only_has_authors_in: ${JSON.stringify(condition)}: ${trace.passed}`,
 		);
-		return result;
+		return trace;
 	}
 
 	private async evaluateOnlyHasContributorsInCondition(
 		condition: NonNullable<RuleCondition['only_has_contributors_in']>,
-	): Promise<boolean> {
+	): Promise<ConditionTrace> {
+		const trace = newConditionTrace('only_has_contributors_in');
 		const { users, organizations, teams } = condition;
 		const commits = this.context.commits;
 
 		// If there are no commits, return false
 		if (commits.length === 0) {
-			return false;
+			return failCondition(trace, 'No commits found');
 		}
 
 		// Check that all commits were authored and committed by the specified users/organizations/teams
@@ -346,21 +750,35 @@ export class PolicyEvaluator {
 					organizations ?? [],
 					teams ?? [],
 				);
-				return isAuthorAuthorized && isCommitterAuthorized;
+				return { isAuthorAuthorized, isCommitterAuthorized };
 			}),
 		);
 
-		const result = results.every(Boolean);
+		commits.forEach((commit, idx) => {
+			if (!results[idx].isAuthorAuthorized) {
+				failCondition(
+					trace,
+					`Commit "${commit.sha}" authored by an unauthorized user: ${commit.author?.login ?? 'unknown'}`,
+				);
+			}
+			if (!results[idx].isCommitterAuthorized) {
+				failCondition(
+					trace,
+					`Commit "${commit.sha}" committed by an unauthorized user: ${commit.committer?.login ?? 'unknown'}`,
+				);
+			}
+		});
+
 		this.logger.info(
-			`Evaluated condition only_has_contributors_in: ${JSON.stringify(condition)}: ${result}`,
+			`Evaluated condition only_has_contributors_in: ${JSON.stringify(condition)}: ${trace.passed}`,
 		);
-		return result;
+		return trace;
 	}
 
 	private async evaluateConditions(
 		conditions: RuleCondition,
-	): Promise<boolean> {
-		const conditionPromises: Array<Promise<boolean>> = [];
+	): Promise<ConditionTrace[]> {
+		const conditionPromises: Array<Promise<ConditionTrace>> = [];
 
 		// Add condition promises based on what's present in the conditions object
 		if (conditions.environment) {
@@ -371,6 +789,35 @@ export class PolicyEvaluator {
 			);
 		}
 
+		if (conditions.event) {
+			conditionPromises.push(
+				Promise.resolve(this.evaluateEventCondition(conditions.event)),
+			);
+		}
+
+		if (conditions.ref) {
+			// Branches are matched by name, whether or not the ref is qualified
+			const ref = this.context.deployment?.ref?.replace(/^refs\/heads\//, '');
+			conditionPromises.push(
+				Promise.resolve(
+					this.evaluateBranchCondition('ref', 'Ref', ref, conditions.ref),
+				),
+			);
+		}
+
+		if (conditions.target_branch) {
+			conditionPromises.push(
+				Promise.resolve(
+					this.evaluateBranchCondition(
+						'target_branch',
+						'Target branch',
+						this.context.target_branch,
+						conditions.target_branch,
+					),
+				),
+			);
+		}
+
 		if (conditions.has_valid_signatures) {
 			conditionPromises.push(
 				Promise.resolve(this.evaluateHasValidSignaturesCondition()),
@@ -399,140 +846,346 @@ export class PolicyEvaluator {
 			);
 		}
 
-		// If no conditions were specified, return true
+		if (conditions.labels) {
+			conditionPromises.push(
+				Promise.resolve(this.evaluateLabelsCondition(conditions.labels)),
+			);
+		}
+
+		if (conditions.time_window) {
+			conditionPromises.push(
+				Promise.resolve(
+					this.evaluateTimeWindowCondition(conditions.time_window),
+				),
+			);
+		}
+
+		if (conditions.changed_files) {
+			conditionPromises.push(
+				Promise.resolve(
+					this.evaluateChangedFilesCondition(conditions.changed_files),
+				),
+			);
+		}
+
+		// If no conditions were specified, there is nothing to check
 		if (conditionPromises.length === 0) {
-			return true;
+			return [];
 		}
 
 		// Wait for all conditions to complete and check if all passed
 		const results = await Promise.all(conditionPromises);
-		const allConditionsPassed = results.every(Boolean);
+		const allConditionsPassed = results.every((result) => result.passed);
 
 		this.logger.info(
 			`All conditions evaluation result: ${allConditionsPassed} (${results.length} conditions checked)`,
 		);
-		return allConditionsPassed;
+		return results;
 	}
 
 	private async evaluateRequirements(
 		requirements: ApprovalRequirement,
 		methods?: ApprovalMethods,
-	): Promise<boolean> {
-		const { count, teams, users, organizations } = requirements;
+	): Promise<RequirementTrace> {
+		const { count, teams, users, organizations, permissions } = requirements;
 		const reviews = this.context.reviews;
-		const commits = this.context.commits;
+		// Comments are not bound to a commit, so only consider them when the rule accepts them
+		const comments = methods?.issue_comment_patterns
+			? (this.context.comments ?? []).filter((comment) => !comment.stale)
+			: [];
 		const deploymentSha = this.context.deployment?.commit?.sha;
 
 		// Filter reviews based on methods and user conditions
-		const validReviews = reviews.filter((review) => {
+		const reviewTraces = reviews.map((review): ReviewTrace => {
 			this.logger.info(`Evaluating review: ${JSON.stringify(review)}`);
+			const trace: ReviewTrace = {
+				id: review.id,
+				user: review.user.login,
+				state: review.state,
+				counted: false,
+			};
 
 			// Check if review is for the current deployment
 			if (deploymentSha && review.commit_id !== deploymentSha) {
 				this.logger.info(
 					`Review ${review.id} is not for the current deployment`,
 				);
-				return false;
+				return { ...trace, discarded: 'wrong_sha' };
 			}
 
 			this.logger.info(`Review ${review.id} is for the current deployment`);
 
 			// Check if reviewer is not the author or committer
-			for (const commit of commits) {
-				if (review.user.id === commit.author?.id) {
-					this.logger.warn(
-						`Review ${review.id} is by the author: ${commit.author?.login}`,
-					);
-					return false;
-				}
-				if (review.user.id === commit.committer?.id) {
-					this.logger.warn(
-						`Review ${review.id} is by the committer: ${commit.committer?.login}`,
-					);
-					return false;
-				}
+			if (this.isCommitAuthorOrCommitter(`Review ${review.id}`, review.user)) {
+				return { ...trace, discarded: 'self_review' };
 			}
 
 			// Check review state and methods
 			if (methods?.github_review) {
 				if (review.state.toLowerCase() === 'approved') {
 					this.logger.info(`Review ${review.id} is approved`);
-					return true;
+					return { ...trace, counted: true };
 				}
 			}
 
-			function parsePattern(pattern: string): RegExp {
-				// If pattern is wrapped in forward slashes, treat as regex
-				if (pattern.startsWith('/') && pattern.match(/\/[gimuy]*$/)) {
-					const match = pattern.match(/^\/(.+)\/([gimuy]*)$/);
-					if (match) {
-						return new RegExp(match[1], match[2]);
-					}
-				}
-				// Otherwise treat as literal string match (case-insensitive)
-				return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
-			}
-
 			// Check for comment patterns
 			if (
 				methods?.github_review_comment_patterns &&
 				review.body &&
 				review.state.toLowerCase() === 'commented'
 			) {
-				return methods.github_review_comment_patterns.some((pattern) => {
-					try {
-						const regex = parsePattern(pattern);
-						const match = regex.test(review.body ?? '');
-						if (match) {
-							this.logger.info(
-								`Review ${review.id} pattern "${pattern}" matches: ${review.body}`,
-							);
-						} else {
-							this.logger.warn(
-								`Review ${review.id} pattern "${pattern}" does not match: ${review.body}`,
-							);
-						}
-						return match;
-					} catch (error) {
-						this.logger.error(`Pattern "${pattern}" is not valid: ${error}`);
-						throw new Error(`Pattern "${pattern}" is not valid: ${error}`);
-					}
-				});
+				const matched = this.findMatchingCommentPattern(
+					`Review ${review.id}`,
+					review.body,
+					methods.github_review_comment_patterns,
+				);
+				if (matched === undefined) {
+					return { ...trace, discarded: 'pattern_mismatch' };
+				}
+				return this.countCommentApproval(
+					`Review ${review.id}`,
+					trace,
+					review.body,
+					matched,
+				);
 			}
 
 			this.logger.info(`Review ${review.id} does not meet the requirements`);
-			return false;
+			return { ...trace, discarded: 'unsupported_method' };
 		});
 
+		const commentTraces = comments.map((comment): ReviewTrace => {
+			this.logger.info(`Evaluating comment: ${JSON.stringify(comment)}`);
+			const trace: ReviewTrace = {
+				id: comment.id,
+				user: comment.user.login,
+				state: 'COMMENTED',
+				counted: false,
+				source: 'issue_comment',
+			};
+
+			// Edited comments could have been changed after the deployment was approved
+			if (comment.updated_at && comment.updated_at !== comment.created_at) {
+				this.logger.warn(
+					`Comment ${comment.id} was edited after it was created`,
+				);
+				return { ...trace, discarded: 'edited' };
+			}
+
+			if (
+				this.isCommitAuthorOrCommitter(`Comment ${comment.id}`, comment.user)
+			) {
+				return { ...trace, discarded: 'self_review' };
+			}
+
+			const matched = this.findMatchingCommentPattern(
+				`Comment ${comment.id}`,
+				comment.body,
+				methods?.issue_comment_patterns ?? [],
+			);
+			if (matched === undefined) {
+				return { ...trace, discarded: 'pattern_mismatch' };
+			}
+			return this.countCommentApproval(
+				`Comment ${comment.id}`,
+				trace,
+				comment.body,
+				matched,
+			);
+		});
+
+		// Only the latest review or comment of each user counts: a later approval
+		// replaces an earlier one, and a later change request or dismissal revokes it
+		const timeline = [
+			...reviews.map((review, idx) => ({
+				id: review.id,
+				userId: review.user.id,
+				state: review.state.toLowerCase(),
+				submitted_at: review.submitted_at,
+				trace: reviewTraces[idx],
+			})),
+			...comments.map((comment, idx) => ({
+				id: comment.id,
+				userId: comment.user.id,
+				state: 'commented',
+				submitted_at: comment.created_at,
+				trace: commentTraces[idx],
+			})),
+		];
+		const latestApprovals = new Map<number, ReviewTrace>();
+		for (const { id, userId, state, trace } of sortBySubmission(timeline)) {
+			const previous = latestApprovals.get(userId);
+			if (
+				previous &&
+				(trace.counted ||
+					state === 'changes_requested' ||
+					state === 'dismissed')
+			) {
+				this.logger.info(
+					`Review ${previous.id} by ${previous.user} is superseded by review ${id}`,
+				);
+				previous.counted = false;
+				previous.discarded = 'superseded';
+				latestApprovals.delete(userId);
+			}
+			if (trace.counted) {
+				latestApprovals.set(userId, trace);
+			}
+		}
+
+		const traces = [...reviewTraces, ...commentTraces];
+
 		// Filter by reviews that meet membership requirements
-		const reviewChecks = await Promise.all(
-			validReviews.map(async (review) => {
+		await Promise.all(
+			traces.map(async (trace) => {
+				if (!trace.counted) {
+					return;
+				}
 				const authorized = await this.isUserInAny(
-					review.user.login,
+					trace.user,
 					users ?? [],
 					organizations ?? [],
 					teams ?? [],
+					permissions,
 				);
 				if (authorized) {
 					this.logger.info(
-						`Review ${review.id} authored by an authorized user ${review.user.login}`,
+						`Review ${trace.id} authored by an authorized user ${trace.user}`,
 					);
 				} else {
 					this.logger.warn(
-						`Review ${review.id} authored by an unauthorized user ${review.user.login}`,
+						`Review ${trace.id} authored by an unauthorized user ${trace.user}`,
 					);
+					trace.counted = false;
+					trace.discarded = 'unauthorized';
 				}
-				return authorized;
 			}),
 		);
 
-		const approvedReviews = validReviews.filter((_, idx) => reviewChecks[idx]);
+		const approvedCount = traces.filter((trace) => trace.counted).length;
 
 		this.logger.info(
-			`Found ${approvedReviews.length} eligible reviews per the policy requirements`,
+			`Found ${approvedCount} eligible reviews per the policy requirements`,
 		);
 
-		return approvedReviews.length >= count;
+		return {
+			required: count,
+			count: approvedCount,
+			approvers: {
+				users: users ?? [],
+				teams: teams ?? [],
+				organizations: organizations ?? [],
+				...(permissions?.length && { permissions }),
+			},
+			reviews: traces,
+		};
+	}
+
+	/**
+	 * Check whether a reviewer or commenter authored or committed any of the commits
+	 * @param subject Description of the review or comment for logging
+	 * @param user The reviewer or commenter
+	 * @returns true if the user is an author or committer
+	 */
+	private isCommitAuthorOrCommitter(
+		subject: string,
+		user: { id: number },
+	): boolean {
+		for (const commit of this.context.commits) {
+			if (user.id === commit.author?.id) {
+				this.logger.warn(
+					`${subject} is by the author: ${commit.author?.login}`,
+				);
+				return true;
+			}
+			if (user.id === commit.committer?.id) {
+				this.logger.warn(
+					`${subject} is by the committer: ${commit.committer?.login}`,
+				);
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Find the first comment pattern matching a review or comment body
+	 * @param subject Description of the review or comment for logging
+	 * @param body The body to match
+	 * @param patterns Comment patterns as accepted by parsePattern
+	 * @returns The matching pattern, or undefined if none match
+	 */
+	private findMatchingCommentPattern(
+		subject: string,
+		body: string,
+		patterns: string[],
+	): string | undefined {
+		return patterns.find((pattern) => {
+			try {
+				const regex = parsePattern(pattern);
+				const match = regex.test(body);
+				if (match) {
+					this.logger.info(`${subject} pattern "${pattern}" matches: ${body}`);
+				} else {
+					this.logger.warn(
+						`${subject} pattern "${pattern}" does not match: ${body}`,
+					);
+				}
+				return match;
+			} catch (error) {
+				this.logger.error(`Pattern "${pattern}" is not valid: ${error}`);
+				throw new Error(`Pattern "${pattern}" is not valid: ${error}`);
+			}
+		});
+	}
+
+	/**
+	 * Count an approval comment, unless it names environments that do not include
+	 * the environment being evaluated. Comments name environments with the
+	 * `environment` named capture group of the matching pattern, e.g. `/deploy staging`.
+	 * @param subject Description of the review or comment for logging
+	 * @param trace Trace of the review or comment
+	 * @param body The comment body
+	 * @param pattern The comment pattern that matched the body
+	 * @returns The trace, counted if the comment applies to the environment
+	 */
+	private countCommentApproval(
+		subject: string,
+		trace: ReviewTrace,
+		body: string,
+		pattern: string,
+	): ReviewTrace {
+		const argument = parsePattern(pattern).exec(body)?.groups?.environment;
+		const environments = argument?.split(/[\s,]+/).filter(Boolean) ?? [];
+
+		// Comments without an environment argument, or with "all", apply to every environment
+		if (
+			environments.length === 0 ||
+			environments.some((name) => name.toLowerCase() === 'all')
+		) {
+			return { ...trace, counted: true, pattern };
+		}
+
+		// Environment names are case-insensitive on GitHub. Arguments are matched
+		// literally as they are written by the commenter rather than the policy author.
+		const environment = this.context.environment?.name;
+		if (
+			environment !== undefined &&
+			!environments.some(
+				(name) => name.toLowerCase() === environment.toLowerCase(),
+			)
+		) {
+			this.logger.info(
+				`${subject} only approves environments ${environments.join(', ')}, not ${environment}`,
+			);
+			return {
+				...trace,
+				pattern,
+				environments,
+				discarded: 'wrong_environment',
+			};
+		}
+		return { ...trace, counted: true, pattern, environments };
 	}
 
 	private async isUserInAny(
@@ -540,6 +1193,7 @@ export class PolicyEvaluator {
 		users: string[],
 		organizations: string[],
 		teams: string[],
+		permissions: Permission[] = [],
 	): Promise<boolean> {
 		// Check users list first (synchronous)
 		if (users.includes(user)) {
@@ -560,14 +1214,17 @@ export class PolicyEvaluator {
 			}
 		}
 
+		// Check repository permissions
+		if (permissions.length > 0) {
+			return hasPermission(await this.getPermission(user), permissions);
+		}
+
 		return false;
 	}
 
 	private async isUserInTeam(user: string, team: string): Promise<boolean> {
 		try {
-			const [org, slug] = team.split('/');
-			const teamMembers = await listTeamMembers(this.githubContext, org, slug);
-			return teamMembers.some((member) => member.login === user);
+			return await this.identity.isUserInTeam(user, team);
 		} catch (error) {
 			this.logger.warn(
 				`Failed to check team membership for ${user} in ${team}: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -581,11 +1238,7 @@ export class PolicyEvaluator {
 		organization: string,
 	): Promise<boolean> {
 		try {
-			const organizationMembers = await listOrganizationMembers(
-				this.githubContext,
-				organization,
-			);
-			return organizationMembers.some((member) => member.login === user);
+			return await this.identity.isUserInOrg(user, organization);
 		} catch (error) {
 			this.logger.warn(
 				`Failed to check organization membership for ${user} in ${organization}: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -594,29 +1247,40 @@ export class PolicyEvaluator {
 		}
 	}
 
+	private async getPermission(user: string): Promise<Permission> {
+		try {
+			return await this.identity.getPermission(user);
+		} catch (error) {
+			this.logger.warn(
+				`Failed to check repository permission for ${user}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+			return 'none';
+		}
+	}
+
 	/**
 	 * Validate a commit signature using GitHub's verification status and committer field
 	 * @param commit The commit to validate
 	 * @param policy The signature validation policy
-	 * @returns true if signature is valid and authorized
+	 * @returns undefined if signature is valid and authorized, otherwise the reason it is not
 	 */
 	private async validateCommitSignature(
 		commit: any,
 		policy: { users?: string[]; organizations?: string[]; teams?: string[] },
-	): Promise<boolean> {
+	): Promise<string | undefined> {
 		// Check if GitHub verified the signature
 		if (!commit.verification?.verified) {
-			this.logger.warn(
-				`Commit "${commit.sha}" signature not verified by GitHub: ${commit.verification?.reason ?? 'unknown'}`,
-			);
-			return false;
+			const message = `Commit "${commit.sha}" signature not verified by GitHub: ${commit.verification?.reason ?? 'unknown'}`;
+			this.logger.warn(message);
+			return message;
 		}
 
 		// Get the committer information
 		const committer = commit.committer;
 		if (!committer) {
-			this.logger.warn(`Commit "${commit.sha}" has no committer information`);
-			return false;
+			const message = `Commit "${commit.sha}" has no committer information`;
+			this.logger.warn(message);
+			return message;
 		}
 
 		// Check if committer is authorized
@@ -633,12 +1297,125 @@ export class PolicyEvaluator {
 			this.logger.info(
 				`Commit "${commit.sha}" signed by an authorized user: ${committerLogin}`,
 			);
-			return true;
+			return undefined;
 		}
 
-		this.logger.warn(
-			`Commit "${commit.sha}" signed by an unauthorized user: ${committerLogin}`,
-		);
-		return false;
+		const reason = `Commit "${commit.sha}" signed by an unauthorized user: ${committerLogin}`;
+		this.logger.warn(reason);
+		return reason;
 	}
 }
+
+/**
+ * Combine rule results using OR logic
+ * @returns 'skipped' if all rules were skipped, otherwise true if any rule passed
+ */
+function combineOr(results: RuleResult[]): RuleResult {
+	// Filter out skipped rules to get actual results
+	const nonSkippedResults = results.filter(
+		(r): r is boolean => r !== 'skipped',
+	);
+
+	if (nonSkippedResults.length === 0) {
+		return 'skipped';
+	}
+	return nonSkippedResults.some((r) => r === true);
+}
+
+/**
+ * Combine rule results using AND logic
+ * @returns 'skipped' if all rules were skipped, otherwise true if all non-skipped rules passed
+ */
+function combineAnd(results: RuleResult[]): RuleResult {
+	const nonSkippedResults = results.filter(
+		(r): r is boolean => r !== 'skipped',
+	);
+
+	if (nonSkippedResults.length === 0) {
+		return 'skipped';
+	}
+	return nonSkippedResults.every((r) => r === true);
+}
+
+/**
+ * Negate a rule result. A negation must not approve a deployment on its own, so
+ * rules that were skipped or are not satisfied yet leave it skipped.
+ * @returns false if the rule passed, otherwise 'skipped'
+ */
+function negate(result: RuleResult): RuleResult {
+	return result === true ? false : 'skipped';
+}
+
+/**
+ * Get the results of a list of rule traces
+ */
+function resultsOf(traces: ApprovalTrace[]): RuleResult[] {
+	return traces.map((trace) => trace.result);
+}
+
+/**
+ * Sort reviews by the time they were submitted, keeping the original order for
+ * reviews without a submission time
+ */
+function sortBySubmission<T extends { submitted_at?: string }>(
+	reviews: T[],
+): T[] {
+	const submittedAt = (review: T) =>
+		review.submitted_at ? Date.parse(review.submitted_at) || 0 : 0;
+	return reviews
+		.map((review, idx) => ({ review, idx }))
+		.sort(
+			(a, b) => submittedAt(a.review) - submittedAt(b.review) || a.idx - b.idx,
+		)
+		.map(({ review }) => review);
+}
+
+/**
+ * Determine the outcome of a policy evaluation
+ * @returns 'pending' if additional approvals could still satisfy the policy, 'rejected' otherwise
+ */
+function getOutcome(
+	result: RuleResult,
+	traces: ApprovalTrace[],
+): PolicyOutcome {
+	if (result === true) {
+		return 'approved';
+	}
+	return bestCaseOr(traces) === true ? 'pending' : 'rejected';
+}
+
+/**
+ * Result of a rule if every requirement still waiting for approvals was satisfied.
+ * Skipped rules and failed conditions cannot be changed by reviews, so they stay as they are.
+ */
+function bestCase(trace: ApprovalTrace): RuleResult {
+	switch (trace.type) {
+		case 'rule':
+			return trace.result === false && trace.requirements !== undefined
+				? true
+				: trace.result;
+		case 'and':
+			return combineAnd(trace.rules.map(bestCase));
+		case 'or':
+			return bestCaseOr(trace.rules);
+		case 'not':
+			// More approvals can only make the negated rule pass
+			return trace.result;
+		default:
+			return trace.result;
+	}
+}
+
+function bestCaseOr(traces: ApprovalTrace[]): RuleResult {
+	return combineOr(traces.map(bestCase));
+}
+
+function newConditionTrace(condition: keyof RuleCondition): ConditionTrace {
+	return { condition, passed: true, reasons: [] };
+}
+
+function failCondition(trace: ConditionTrace, reason: string): ConditionTrace {
+	trace.passed = false;
+	trace.reasons.push(reason);
+	return trace;
+}
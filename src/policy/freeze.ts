@@ -0,0 +1,66 @@
+import { findMatchingPattern } from './patterns.js';
+import { isWithinWeeklyWindow } from './schedule.js';
+import type { FreezePolicy, FreezeWindow } from './types.js';
+
+/**
+ * Find the freeze windows in effect for a deployment
+ * @param freeze The freeze section of a validated configuration
+ * @param environment Name of the environment, if known. Windows limited to some
+ * environments only apply when it is known.
+ * @param now The time of the deployment
+ * @returns The windows in effect, in configuration order
+ */
+export function findActiveFreezeWindows(
+	freeze: FreezePolicy,
+	environment: string | undefined,
+	now: Date,
+): FreezeWindow[] {
+	return freeze.windows.filter(
+		(window) =>
+			freezeAppliesTo(window, environment) && isFreezeActive(window, now),
+	);
+}
+
+/**
+ * Check whether a freeze window applies to an environment
+ * @param window The freeze window
+ * @param environment Name of the environment, if known
+ */
+export function freezeAppliesTo(
+	window: FreezeWindow,
+	environment: string | undefined,
+): boolean {
+	if (!window.environments) {
+		return true;
+	}
+	return (
+		environment !== undefined &&
+		findMatchingPattern(environment, window.environments) !== undefined
+	);
+}
+
+/**
+ * Check whether a freeze window is in effect at a given time
+ * @param window The freeze window
+ * @param now The time to check
+ */
+export function isFreezeActive(window: FreezeWindow, now: Date): boolean {
+	if (!window.days) {
+		return (
+			parseDate(window.from) <= now.getTime() &&
+			now.getTime() < parseDate(window.until)
+		);
+	}
+	return isWithinWeeklyWindow(window, now);
+}
+
+/**
+ * Parse a date of a freeze window. Dates without a time are midnight UTC.
+ * @returns Milliseconds since the epoch, or NaN if the date is not valid
+ */
+export function parseDate(value: string | Date | undefined): number {
+	// Unquoted YAML timestamps are already parsed as dates
+	return value instanceof Date
+		? value.getTime()
+		: new Date(value ?? NaN).getTime();
+}
@@ -0,0 +1,183 @@
+import { diffPolicies } from './diff.js';
+import type { ApprovalRule, FreezePolicy, PolicyConfig } from './types.js';
+
+/**
+ * Build a repository configuration on the organization configuration. Sections of
+ * the repository policy replace the organization sections, and rules, templates and
+ * freeze windows replace the organization ones with the same name or are added after them.
+ * @param base The organization configuration
+ * @param config The repository configuration
+ * @returns The merged configuration, with the locks of the organization
+ */
+export function mergePolicyConfigs(
+	base: PolicyConfig,
+	config: PolicyConfig,
+): PolicyConfig {
+	const policy = config.policy ?? {};
+	const templates = mergeByName(
+		base.rule_templates ?? [],
+		config.rule_templates ?? [],
+	);
+	const freeze = mergeFreeze(base.freeze, config.freeze);
+
+	return {
+		policy: {
+			...base.policy,
+			...(policy.disapproval && { disapproval: policy.disapproval }),
+			...(policy.reject_unsatisfiable !== undefined && {
+				reject_unsatisfiable: policy.reject_unsatisfiable,
+			}),
+			// The default configuration has an empty approval list, which does not
+			// replace the organization policy
+			approval:
+				(policy.approval?.length ?? 0) > 0
+					? policy.approval
+					: base.policy.approval,
+		},
+		approval_rules: mergeByName(
+			base.approval_rules ?? [],
+			config.approval_rules ?? [],
+		),
+		...(templates.length > 0 && { rule_templates: templates }),
+		...(freeze && { freeze }),
+		...(base.locked && { locked: base.locked }),
+	};
+}
+
+// Items replace the base items with the same name, and other items are added after them
+function mergeByName<T extends { name: string }>(base: T[], items: T[]): T[] {
+	const names = new Set(base.map((item) => item.name));
+	return [
+		...base.map(
+			(item) => items.find((candidate) => candidate.name === item.name) ?? item,
+		),
+		...items.filter((item) => !names.has(item.name)),
+	];
+}
+
+function mergeFreeze(
+	base: FreezePolicy | undefined,
+	freeze: FreezePolicy | undefined,
+): FreezePolicy | undefined {
+	if (!base || !freeze) {
+		return base ?? freeze;
+	}
+	const override = freeze.freeze_override ?? base.freeze_override;
+	return {
+		windows: mergeByName(base.windows, freeze.windows),
+		...(override && { freeze_override: override }),
+	};
+}
+
+/**
+ * Find the changes of a repository configuration that remove or weaken the rules
+ * and environments locked by the organization configuration
+ * @param base The organization configuration
+ * @param config The configuration of the repository
+ * @returns A description of each violation, or an empty list if the locks are kept
+ */
+export function findLockViolations(
+	base: PolicyConfig,
+	config: PolicyConfig,
+): string[] {
+	const lockedRules = base.locked?.rules ?? [];
+	const lockedEnvironments = base.locked?.environments ?? [];
+	if (lockedRules.length === 0 && lockedEnvironments.length === 0) {
+		return [];
+	}
+
+	const violations: string[] = [];
+	for (const name of lockedRules) {
+		if (!config.approval_rules.some((rule) => rule.name === name)) {
+			violations.push(`Locked rule "${name}" was removed`);
+		} else if (!references(config.policy.approval, name)) {
+			violations.push(
+				`Locked rule "${name}" is no longer used by \`policy.approval\``,
+			);
+		}
+	}
+
+	// A locked rule can only be combined with `and`, as alternatives next to it
+	// would approve deployments without it
+	for (const name of lockedRules) {
+		const existing = alternatives(base.policy.approval, name).map(describe);
+		const added = alternatives(config.policy.approval, name)
+			.map(describe)
+			.filter((item) => !existing.includes(item));
+		for (const item of new Set(added)) {
+			violations.push(`Locked rule "${name}" can be bypassed by \`${item}\``);
+		}
+	}
+
+	// A locked rule that is skipped more often stops protecting the groups it is in
+	const changes = diffPolicies(base, config, {
+		environments: lockedEnvironments,
+		strictRules: lockedRules,
+	});
+	for (const change of changes) {
+		if (!change.weakens) {
+			continue;
+		}
+		if (change.rule && lockedRules.includes(change.rule)) {
+			violations.push(`Locked rule "${change.rule}": ${change.description}`);
+		} else if (change.environments.length > 0) {
+			violations.push(
+				`Locked environment ${change.environments.join(', ')}: ${change.rule ? `rule "${change.rule}": ` : ''}${change.description}`,
+			);
+		}
+	}
+	return violations;
+}
+
+type ApprovalItem = string | ApprovalRule | ApprovalItem[];
+
+function references(items: ApprovalItem[], name: string): boolean {
+	return items.some((item) => {
+		if (typeof item === 'string') {
+			return item === name;
+		}
+		if (Array.isArray(item)) {
+			return references(item, name);
+		}
+		// A negated rule does not approve, so it is not used by the policy
+		return (
+			references((item.and ?? []) as ApprovalItem[], name) ||
+			references((item.or ?? []) as ApprovalItem[], name)
+		);
+	});
+}
+
+/**
+ * Find the items that approve instead of a rule: the other members of the top-level
+ * list and of every `or` group that leads to the rule through `and` and `or` groups
+ */
+function alternatives(items: ApprovalItem[], name: string): ApprovalItem[] {
+	const leading = items.filter((item) => references([item], name));
+	if (leading.length === 0) {
+		return [];
+	}
+	return [
+		...items.filter((item) => !leading.includes(item)),
+		...leading.flatMap((item) => nestedAlternatives(item, name)),
+	];
+}
+
+function nestedAlternatives(item: ApprovalItem, name: string): ApprovalItem[] {
+	if (typeof item === 'string') {
+		return [];
+	}
+	if (Array.isArray(item)) {
+		return alternatives(item, name);
+	}
+	// Members of an `and` group are required together, so only look inside them
+	return [
+		...alternatives((item.or ?? []) as ApprovalItem[], name),
+		...((item.and ?? []) as ApprovalItem[]).flatMap((member) =>
+			references([member], name) ? nestedAlternatives(member, name) : [],
+		),
+	];
+}
+
+function describe(item: ApprovalItem): string {
+	return typeof item === 'string' ? item : JSON.stringify(item);
+}
@@ -0,0 +1,120 @@
+/**
+ * Parse a pattern wrapped in forward slashes (e.g. `/^deploy$/i`) as a regular expression
+ * @param pattern The pattern to parse
+ * @returns The regular expression, or undefined if the pattern is not wrapped in slashes
+ */
+function parseRegexPattern(pattern: string): RegExp | undefined {
+	if (pattern.startsWith('/') && pattern.match(/\/[gimuy]*$/)) {
+		const match = pattern.match(/^\/(.+)\/([gimuy]*)$/);
+		if (match) {
+			return new RegExp(match[1], match[2]);
+		}
+	}
+	return undefined;
+}
+
+function escapeRegex(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse a comment pattern
+ * - `/.../flags` is treated as a regular expression
+ * - anything else is a literal, case-insensitive substring match
+ * @param pattern The pattern to parse
+ * @returns Regular expression to test comment bodies with
+ */
+export function parsePattern(pattern: string): RegExp {
+	// If pattern is wrapped in forward slashes, treat as regex
+	// Otherwise treat as literal string match (case-insensitive)
+	return parseRegexPattern(pattern) ?? new RegExp(escapeRegex(pattern), 'i');
+}
+
+/**
+ * Convert a glob to an anchored regular expression source
+ * - `**` matches any characters, including `/`. As a whole path segment it also
+ *   matches no directories at all, e.g. `docs` for `docs/**`
+ * - `*` matches any characters except `/`
+ * - `?` matches a single character except `/`
+ * - `[abc]`, `[a-z]` and `[!abc]` match character classes
+ * - `{a,b}` matches any of the comma-separated alternatives
+ */
+function globToRegexSource(glob: string): string {
+	let source = '';
+	let braces = 0;
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			const segmentStart = i === 0 || glob[i - 1] === '/';
+			if (segmentStart && glob[i + 2] === '/') {
+				// `**/` also matches no directories at all
+				source += '(?:.*/)?';
+				i += 2;
+			} else if (i > 0 && segmentStart && i + 2 === glob.length) {
+				// A trailing `/**` also matches the directory itself
+				source = `${source.slice(0, -1)}(?:/.*)?`;
+				i++;
+			} else {
+				source += '.*';
+				i++;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '[') {
+			const end = glob.indexOf(']', i + 2);
+			if (end === -1) {
+				source += '\\[';
+				continue;
+			}
+			const negated = glob[i + 1] === '!';
+			const members = glob
+				.slice(negated ? i + 2 : i + 1, end)
+				.replace(/[\\^\]]/g, '\\$&');
+			source += `[${negated ? '^' : ''}${members}]`;
+			i = end;
+		} else if (char === '{') {
+			braces++;
+			source += '(?:';
+		} else if (char === '}' && braces > 0) {
+			braces--;
+			source += ')';
+		} else if (char === ',' && braces > 0) {
+			source += '|';
+		} else {
+			source += escapeRegex(char);
+		}
+	}
+
+	// Unbalanced braces are treated as literals
+	if (braces > 0) {
+		return `^${escapeRegex(glob)}$`;
+	}
+	return `^${source}$`;
+}
+
+/**
+ * Parse a name pattern used to match environments, branches and file paths
+ * - `/.../flags` is treated as a regular expression and is not anchored
+ * - anything else is treated as a case-sensitive glob that must match the whole name
+ * @param pattern The pattern to parse
+ * @returns Regular expression to test names with
+ */
+export function parseNamePattern(pattern: string): RegExp {
+	return parseRegexPattern(pattern) ?? new RegExp(globToRegexSource(pattern));
+}
+
+/**
+ * Check whether a name matches any of the given name patterns
+ * @param name The name to check
+ * @param patterns Patterns as accepted by parseNamePattern
+ * @returns The first pattern that matches, or undefined if none match
+ */
+export function findMatchingPattern(
+	name: string,
+	patterns: string[],
+): string | undefined {
+	return patterns.find((pattern) => parseNamePattern(pattern).test(name));
+}
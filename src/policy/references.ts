@@ -0,0 +1,124 @@
+import type { ConfigPath, ValidationIssue } from './validate.js';
+
+// Deepest nesting of approval groups, so evaluation cannot exhaust the stack
+export const MAX_NESTING_DEPTH = 32;
+
+/**
+ * Find values that contain themselves. YAML aliases can refer to the mapping or list
+ * they are in, which would make validation and evaluation recurse forever.
+ * @param config The parsed configuration
+ * @returns An issue at every alias that refers to a value containing it
+ */
+export function findReferenceCycles(config: unknown): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	const ancestors = new Set<object>();
+
+	const visit = (value: unknown, path: ConfigPath) => {
+		if (typeof value !== 'object' || value === null) {
+			return;
+		}
+		if (ancestors.has(value)) {
+			issues.push({ path, message: 'refers to a value that contains it' });
+			return;
+		}
+		ancestors.add(value);
+		for (const [key, child] of Object.entries(value)) {
+			visit(child, [...path, Array.isArray(value) ? Number(key) : key]);
+		}
+		ancestors.delete(value);
+	};
+
+	visit(config, []);
+	return issues;
+}
+
+/**
+ * Find approval groups nested deeper than MAX_NESTING_DEPTH
+ * @param config The parsed configuration, without reference cycles
+ * @returns An issue at the first group of every branch that is too deep
+ */
+export function findDeepNesting(config: unknown): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+
+	const visit = (item: unknown, path: ConfigPath, depth: number) => {
+		if (typeof item !== 'object' || item === null) {
+			return;
+		}
+		if (depth > MAX_NESTING_DEPTH) {
+			issues.push({
+				path,
+				message: `is nested more than ${MAX_NESTING_DEPTH} levels deep`,
+			});
+			return;
+		}
+		for (const [key, child] of childItems(item)) {
+			visit(child, [...path, key], depth + 1);
+		}
+	};
+
+	const approval = policyApproval(config);
+	if (approval) {
+		visit(approval, ['policy', 'approval'], 0);
+	}
+	return issues;
+}
+
+/**
+ * Find approval rules that are never referenced from `policy.approval`, directly or
+ * through groups, and are not the freeze override. Unused rules cannot approve
+ * deployments, which is usually a mistake.
+ * @param config The parsed configuration, without reference cycles
+ * @returns An issue at the name of every unused rule, or none if the configuration
+ * has no approval policy
+ */
+export function findUnreachableRules(config: unknown): ValidationIssue[] {
+	const approval = policyApproval(config);
+	if (!approval) {
+		return [];
+	}
+
+	const referenced = new Set<string>();
+	const visit = (item: unknown) => {
+		if (typeof item === 'string') {
+			referenced.add(item);
+		} else if (typeof item === 'object' && item !== null) {
+			for (const [, child] of childItems(item)) {
+				visit(child);
+			}
+		}
+	};
+	visit(approval);
+	visit(
+		(config as { freeze?: { freeze_override?: unknown } }).freeze
+			?.freeze_override,
+	);
+
+	const rules = (config as { approval_rules?: unknown }).approval_rules;
+	const issues: ValidationIssue[] = [];
+	(Array.isArray(rules) ? rules : []).forEach((rule, idx) => {
+		const name = (rule as { name?: unknown } | null)?.name;
+		if (typeof name === 'string' && !referenced.has(name)) {
+			issues.push({
+				path: ['approval_rules', idx, 'name'],
+				message: `rule "${name}" is never used by policy.approval`,
+			});
+		}
+	});
+	return issues;
+}
+
+function policyApproval(config: unknown): unknown[] | undefined {
+	const approval = (config as { policy?: { approval?: unknown } } | null)
+		?.policy?.approval;
+	return Array.isArray(approval) ? approval : undefined;
+}
+
+// Items of a list, or the operands of an `and`, `or` or `not` group
+function childItems(item: object): Array<[string | number, unknown]> {
+	if (Array.isArray(item)) {
+		return item.map((child, idx) => [idx, child]);
+	}
+	return Object.entries(item).filter(([key]) =>
+		['and', 'or', 'not'].includes(key),
+	);
+}
@@ -0,0 +1,250 @@
+import type {
+	ApprovalTrace,
+	FreezeTrace,
+	NamedRuleTrace,
+	PolicyDecision,
+	PolicyContext,
+	PolicyOutcome,
+	RequirementTrace,
+} from './types.js';
+
+export type EnvironmentStatus = PolicyOutcome;
+
+// Negated rules are blocking while they are satisfied
+export type RuleStatus = 'satisfied' | 'pending' | 'skipped' | 'blocking';
+
+export interface RuleReport {
+	name: string;
+	status: RuleStatus;
+	details: string;
+}
+
+/**
+ * Human-readable summary of a policy decision for a single environment
+ */
+export interface EnvironmentReport {
+	environment: string;
+	status: EnvironmentStatus;
+	// Reviewers currently vetoing the deployment
+	vetoedBy: string[];
+	// Omitted when no freeze window is in effect
+	freeze?: FreezeTrace;
+	rules: RuleReport[];
+	// The deployment that was evaluated, so that it can be evaluated again later
+	deployment?: PolicyContext['deployment'];
+}
+
+const STATUS_ICONS: Record<EnvironmentStatus | RuleStatus, string> = {
+	approved: '✅',
+	satisfied: '✅',
+	pending: '⏳',
+	skipped: '⏭️',
+	blocking: '🚫',
+	rejected: '❌',
+};
+
+// Keep rejection comments short enough to be displayed in the deployment review
+const MAX_COMMENT_LENGTH = 1000;
+
+/**
+ * Summarize a policy decision for an environment
+ * @param environment Name of the environment the decision applies to
+ * @param decision Decision returned by the policy evaluator
+ * @param deployment The deployment that was evaluated, if any
+ * @returns Report with the status of every named rule in the decision trace
+ */
+export function summarizeDecision(
+	environment: string,
+	decision: PolicyDecision,
+	deployment?: PolicyContext['deployment'],
+): EnvironmentReport {
+	return {
+		environment,
+		status: decision.outcome,
+		vetoedBy: decision.disapproval?.vetoes.map((veto) => veto.user) ?? [],
+		...(decision.freeze && { freeze: decision.freeze }),
+		rules: summarizeRules(decision.approval),
+		...(deployment && { deployment }),
+	};
+}
+
+/**
+ * Flatten a decision trace into the named rules it evaluated
+ * @param traces Traces to flatten
+ * @returns Named rule traces in evaluation order, without duplicates
+ */
+export function collectNamedRules(traces: ApprovalTrace[]): NamedRuleTrace[] {
+	const rules = new Map<string, NamedRuleTrace>();
+	const visit = (trace: ApprovalTrace) => {
+		if (trace.type === 'rule') {
+			if (!rules.has(trace.name)) {
+				rules.set(trace.name, trace);
+			}
+		} else if (trace.type !== 'invalid') {
+			trace.rules.forEach(visit);
+		}
+	};
+	traces.forEach(visit);
+	return [...rules.values()];
+}
+
+/**
+ * Summarize the named rules of a decision trace, reporting the status of rules
+ * negated by `not` after the negation
+ * @param traces Traces to summarize
+ * @returns Reports in evaluation order, without duplicates
+ */
+function summarizeRules(traces: ApprovalTrace[]): RuleReport[] {
+	const negated = new Map<string, boolean>();
+	const visit = (trace: ApprovalTrace, inverted: boolean) => {
+		if (trace.type === 'rule') {
+			if (!negated.has(trace.name)) {
+				negated.set(trace.name, inverted);
+			}
+		} else if (trace.type !== 'invalid') {
+			for (const rule of trace.rules) {
+				visit(rule, trace.type === 'not' ? !inverted : inverted);
+			}
+		}
+	};
+	for (const trace of traces) {
+		visit(trace, false);
+	}
+
+	return collectNamedRules(traces).map((trace) => {
+		const report = summarizeRule(trace);
+		if (!negated.get(trace.name) || report.status === 'skipped') {
+			return report;
+		}
+		return {
+			...report,
+			status: report.status === 'satisfied' ? 'blocking' : 'satisfied',
+			details: `Negated: ${report.details}`,
+		};
+	});
+}
+
+function summarizeRule(trace: NamedRuleTrace): RuleReport {
+	if (trace.result === 'skipped') {
+		const reasons = trace.conditions.flatMap((condition) => condition.reasons);
+		return {
+			name: trace.name,
+			status: 'skipped',
+			details: reasons.join('; ') || 'Conditions not met',
+		};
+	}
+
+	const requirements = trace.requirements;
+	if (trace.result === true) {
+		const approvers = requirements?.reviews
+			.filter((review) => review.counted)
+			.map((review) => review.user);
+		return {
+			name: trace.name,
+			status: 'satisfied',
+			details: approvers?.length
+				? `Approved by ${approvers.join(', ')}`
+				: 'No approvals required',
+		};
+	}
+
+	return {
+		name: trace.name,
+		status: 'pending',
+		details: requirements ? describeMissingApprovals(requirements) : '',
+	};
+}
+
+function describeMissingApprovals(requirements: RequirementTrace): string {
+	const missing = requirements.required - requirements.count;
+	const approvals = `${missing} more approval${missing === 1 ? '' : 's'}`;
+	const { users, teams, organizations, permissions } = requirements.approvers;
+	const sources = [
+		users.length > 0 ? `users ${users.join(', ')}` : undefined,
+		teams.length > 0 ? `teams ${teams.join(', ')}` : undefined,
+		organizations.length > 0
+			? `organizations ${organizations.join(', ')}`
+			: undefined,
+		permissions?.length
+			? `users with ${permissions.join(' or ')} permission`
+			: undefined,
+	].filter((source) => source !== undefined);
+
+	if (sources.length === 0) {
+		return `Needs ${approvals}, but no approvers are configured`;
+	}
+	return `Needs ${approvals} from ${sources.join('; ')}`;
+}
+
+/**
+ * Render an environment report as a markdown section
+ * @param report The report to render
+ * @returns Markdown with a heading and a table of named rules
+ */
+export function renderEnvironmentReport(report: EnvironmentReport): string {
+	const lines = [
+		`### ${STATUS_ICONS[report.status]} ${report.environment}: ${report.status}`,
+		'',
+	];
+
+	if (report.vetoedBy.length > 0) {
+		lines.push(`Vetoed by ${report.vetoedBy.join(', ')}.`, '');
+	}
+
+	if (report.freeze) {
+		const { windows, override } = report.freeze;
+		lines.push(
+			`Deployments are frozen by ${windows.join(', ')}. ${override ? `Only ${override} can approve them.` : 'They cannot be approved until the freeze ends.'}`,
+			'',
+		);
+	}
+
+	if (report.rules.length === 0) {
+		lines.push('No approval rules were evaluated.');
+		return lines.join('\n');
+	}
+
+	lines.push('| Rule | Status | Details |', '| --- | --- | --- |');
+	for (const rule of report.rules) {
+		lines.push(
+			`| ${escapeTableCell(rule.name)} | ${STATUS_ICONS[rule.status]} ${rule.status} | ${escapeTableCell(rule.details)} |`,
+		);
+	}
+	return lines.join('\n');
+}
+
+function escapeTableCell(value: string): string {
+	return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Build a human-readable comment explaining why a deployment was rejected
+ * @param decision Decision returned by the policy evaluator
+ * @returns Comment listing the vetoes, or the rules that can no longer be satisfied and why
+ */
+export function renderRejectionComment(decision: PolicyDecision): string {
+	if (decision.disapproval?.vetoed) {
+		const users = decision.disapproval.vetoes.map((veto) => veto.user);
+		return `Rejected by policy: deployment vetoed by ${users.join(', ')}.`;
+	}
+
+	const freeze = decision.freeze;
+	if (freeze && !freeze.override) {
+		return `Rejected by policy: deployments are frozen by ${freeze.windows.join(', ')}.`;
+	}
+
+	const reasons = collectNamedRules(decision.approval)
+		.map(summarizeRule)
+		.filter((rule) => rule.status === 'skipped')
+		.map((rule) => `"${rule.name}" does not apply: ${rule.details}`);
+
+	const comment = [
+		freeze
+			? `Rejected by policy: deployments are frozen by ${freeze.windows.join(', ')} and "${freeze.override}" cannot be satisfied.`
+			: 'Rejected by policy: no approval rule can be satisfied.',
+		...reasons,
+	].join('\n');
+	return comment.length > MAX_COMMENT_LENGTH
+		? `${comment.slice(0, MAX_COMMENT_LENGTH - 1)}…`
+		: comment;
+}
@@ -0,0 +1,80 @@
+import type { WeeklyWindow, Weekday } from './types.js';
+
+// Days of the week in the order of Date.prototype.getDay
+export const WEEKDAYS: Weekday[] = [
+	'sunday',
+	'monday',
+	'tuesday',
+	'wednesday',
+	'thursday',
+	'friday',
+	'saturday',
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Check whether a time is within a weekly window
+ * @param window The days (every day when omitted) and times of day of the window
+ * @param now The time to check
+ */
+export function isWithinWeeklyWindow(window: WeeklyWindow, now: Date): boolean {
+	const days = window.days ?? WEEKDAYS;
+	const { weekday, minutes } = localTime(now, window.timezone ?? 'UTC');
+	const start = parseTime(window.start ?? '00:00');
+	const end = parseTime(window.end ?? '24:00');
+	if (start < end) {
+		return days.includes(weekday) && start <= minutes && minutes < end;
+	}
+
+	// The window continues past midnight into the next day
+	const previous = WEEKDAYS[(WEEKDAYS.indexOf(weekday) + 6) % 7];
+	return (
+		(days.includes(weekday) && minutes >= start) ||
+		(days.includes(previous) && minutes < end)
+	);
+}
+
+/**
+ * Check whether a name is an IANA time zone known to the runtime, e.g. `Europe/London`
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Find the day of the week and time of day in a time zone, so that windows follow
+ * daylight saving time changes
+ * @param now The time to convert
+ * @param timeZone IANA time zone
+ * @returns The day, and the minutes since midnight
+ */
+export function localTime(
+	now: Date,
+	timeZone: string,
+): { weekday: Weekday; minutes: number } {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		weekday: 'long',
+		hour: 'numeric',
+		minute: 'numeric',
+		hourCycle: 'h23',
+	}).formatToParts(now);
+	const part = (type: string) =>
+		parts.find((candidate) => candidate.type === type)?.value ?? '';
+	return {
+		weekday: part('weekday').toLowerCase() as Weekday,
+		minutes: Number(part('hour')) * 60 + Number(part('minute')),
+	};
+}
+
+// Minutes since midnight of a HH:MM time
+function parseTime(value: string): number {
+	const [hours, minutes] = value.split(':').map(Number);
+	return Math.min(hours * 60 + minutes, MINUTES_PER_DAY);
+}
@@ -0,0 +1,179 @@
+import type { NamedApprovalRule, PolicyConfig } from './types.js';
+import type { ConfigPath, ValidationIssue } from './validate.js';
+
+// Parameter reference in the values of a template, e.g. `${{ team }}`
+const PLACEHOLDER = /\$\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Keys of a template that are not copied to the rules expanded from it
+const TEMPLATE_KEYS = ['name', 'parameters'];
+
+/**
+ * Expand the approval rules that use a template into concrete rules
+ * @param config A validated policy configuration
+ * @returns The configuration with every rule expanded and without templates
+ * @throws Error if a rule cannot be expanded, which validation reports first
+ */
+export function expandRuleTemplates(config: PolicyConfig): PolicyConfig {
+	const { rules, issues } = expandRules(config);
+	if (issues.length > 0) {
+		throw new Error(`Cannot expand rule templates: ${issues[0].message}`);
+	}
+	return {
+		...(omit(config, ['rule_templates']) as Omit<
+			PolicyConfig,
+			'rule_templates'
+		>),
+		approval_rules: rules as NamedApprovalRule[],
+	};
+}
+
+/**
+ * Expand the approval rules of a configuration that has not been validated yet
+ * @param config The parsed configuration
+ * @param partial The configuration may use templates defined in the file it extends
+ * @returns The rules, expanded where possible, and the problems found in templates
+ * and the rules that use them
+ */
+export function expandRules(
+	config: object,
+	partial = false,
+): {
+	rules: unknown[];
+	issues: ValidationIssue[];
+} {
+	const { rule_templates: ruleTemplates, approval_rules: approvalRules } =
+		config as Record<string, unknown>;
+	const issues: ValidationIssue[] = [];
+	const templates = new Map<string, Record<string, unknown>>();
+
+	asArray(ruleTemplates).forEach((template, idx) => {
+		if (!isRecord(template) || typeof template.name !== 'string') {
+			return;
+		}
+		const path: ConfigPath = ['rule_templates', idx];
+		if (templates.has(template.name)) {
+			issues.push({
+				path: [...path, 'name'],
+				message: `duplicate template name "${template.name}"`,
+			});
+			return;
+		}
+		templates.set(template.name, template);
+
+		const parameters = asArray(template.parameters);
+		for (const name of placeholders(omit(template, TEMPLATE_KEYS))) {
+			if (!parameters.includes(name)) {
+				issues.push({ path, message: `unknown parameter "${name}"` });
+			}
+		}
+	});
+
+	const rules = asArray(approvalRules).map((rule, idx) => {
+		if (!isRecord(rule) || rule.template === undefined) {
+			return rule;
+		}
+		const path: ConfigPath = ['approval_rules', idx];
+		const template =
+			typeof rule.template === 'string'
+				? templates.get(rule.template)
+				: undefined;
+		const values = isRecord(rule.with) ? rule.with : {};
+		const overrides = omit(rule, ['template', 'with']);
+		if (!template) {
+			if (!partial && typeof rule.template === 'string') {
+				issues.push({
+					path: [...path, 'template'],
+					message: `unknown template "${rule.template}"`,
+				});
+			}
+			return overrides;
+		}
+
+		const parameters = asArray(template.parameters);
+		for (const name of parameters) {
+			if (typeof name === 'string' && values[name] === undefined) {
+				issues.push({
+					path: [...path, 'with'],
+					message: `missing parameter "${name}" for template "${rule.template}"`,
+				});
+			}
+		}
+		for (const [name, value] of Object.entries(values)) {
+			if (!parameters.includes(name)) {
+				issues.push({
+					path: [...path, 'with', name],
+					message: `unknown parameter "${name}" for template "${rule.template}"`,
+				});
+			} else if (!['string', 'number', 'boolean'].includes(typeof value)) {
+				issues.push({
+					path: [...path, 'with', name],
+					message: 'must be a string, a number or a boolean',
+				});
+			}
+		}
+
+		return {
+			...(substitute(omit(template, TEMPLATE_KEYS), values) as object),
+			...overrides,
+		};
+	});
+
+	return { rules, issues };
+}
+
+// Replace parameter references in every string. A string that only references a
+// parameter takes the value of the parameter, so counts can be parameters too.
+function substitute(value: unknown, values: Record<string, unknown>): unknown {
+	if (typeof value === 'string') {
+		const match = value.match(/^\$\{\{\s*([\w-]+)\s*\}\}$/);
+		if (match && values[match[1]] !== undefined) {
+			return values[match[1]];
+		}
+		return value.replace(PLACEHOLDER, (reference, name: string) =>
+			values[name] !== undefined ? String(values[name]) : reference,
+		);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => substitute(item, values));
+	}
+	if (isRecord(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				substitute(item, values),
+			]),
+		);
+	}
+	return value;
+}
+
+function placeholders(value: unknown): Set<string> {
+	const names = new Set<string>();
+	const visit = (item: unknown) => {
+		if (typeof item === 'string') {
+			for (const match of item.matchAll(PLACEHOLDER)) {
+				names.add(match[1]);
+			}
+		} else if (Array.isArray(item)) {
+			item.forEach(visit);
+		} else if (isRecord(item)) {
+			Object.values(item).forEach(visit);
+		}
+	};
+	visit(value);
+	return names;
+}
+
+function omit(value: object, keys: string[]): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(value).filter(([key]) => !keys.includes(key)),
+	);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
@@ -1,14 +1,88 @@
+import type { Permission } from '../identity/provider.js';
+
 // Types for the policy configuration
 export interface PolicyConfig {
 	policy: {
 		approval: string[] | ApprovalRule[];
+		disapproval?: DisapprovalPolicy;
+		// Reject deployments that no additional reviews could ever approve,
+		// instead of leaving them pending
+		reject_unsatisfiable?: boolean;
 	};
 	approval_rules: NamedApprovalRule[];
+	// Rules with parameters that approval rules can be expanded from
+	rule_templates?: RuleTemplate[];
+	// Build on the policy of the organization's .github repository
+	extends?: boolean;
+	// Rules and environments that repositories may tighten but not weaken
+	locked?: PolicyLocks;
+	// Periods during which only the override rule can approve deployments
+	freeze?: FreezePolicy;
+}
+
+export interface FreezePolicy {
+	windows: FreezeWindow[];
+	// Name of the approval rule that can still approve deployments during a freeze
+	freeze_override?: string;
+}
+
+// A weekly range when `days` is set
+export interface FreezeWindow extends WeeklyWindow {
+	name: string;
+	// Name patterns of the environments the freeze applies to, all when omitted
+	environments?: string[];
+	// Date range, as ISO 8601 dates or date-times with an offset. `until` is excluded.
+	from?: string;
+	until?: string;
+}
+
+// Weekly range on these days, between `start` and `end` (HH:MM) in `timezone`
+export interface WeeklyWindow {
+	days?: Weekday[];
+	start?: string;
+	end?: string;
+	timezone?: string;
+}
+
+export type Weekday =
+	| 'monday'
+	| 'tuesday'
+	| 'wednesday'
+	| 'thursday'
+	| 'friday'
+	| 'saturday'
+	| 'sunday';
+
+export interface PolicyLocks {
+	rules?: string[];
+	environments?: string[];
+}
+
+export interface DisapprovalPolicy {
+	requires: {
+		teams?: string[];
+		users?: string[];
+		organizations?: string[];
+		// Users with at least one of these repository permissions
+		permissions?: Permission[];
+	};
+	methods?: DisapprovalMethods;
+}
+
+export interface DisapprovalMethods {
+	// Treat "CHANGES_REQUESTED" reviews as a veto (enabled by default)
+	github_review?: boolean;
+	// Treat commented reviews matching any of these patterns as a veto
+	github_review_comment_patterns?: string[];
+	// Treat pull request comments matching any of these patterns as a veto
+	issue_comment_patterns?: string[];
 }
 
 export interface ApprovalRule {
-	or?: string[] | ApprovalRule[];
-	and?: string[] | ApprovalRule[];
+	or?: Array<string | ApprovalRule>;
+	and?: Array<string | ApprovalRule>;
+	// Fails when the rule passes, so it can block an approval but never approve
+	not?: string | ApprovalRule;
 }
 
 export interface NamedApprovalRule {
@@ -16,13 +90,41 @@ export interface NamedApprovalRule {
 	if?: RuleCondition;
 	requires?: ApprovalRequirement;
 	methods?: ApprovalMethods;
+	// Template to expand the rule from, with the values of its parameters
+	template?: string;
+	with?: Record<string, TemplateValue>;
+}
+
+export interface RuleTemplate {
+	name: string;
+	// Names of the parameters, referenced as `${{ name }}` in the values of the template
+	parameters?: string[];
+	if?: RuleCondition;
+	requires?: ApprovalRequirement;
+	methods?: ApprovalMethods;
 }
 
+export type TemplateValue = string | number | boolean;
+
 export interface RuleCondition {
 	environment?: {
 		matches?: string[];
 		not_matches?: string[];
 	};
+	event?: {
+		matches?: string[];
+		not_matches?: string[];
+	};
+	// Branch or tag the deployment was created from
+	ref?: {
+		matches?: string[];
+		not_matches?: string[];
+	};
+	// Branch the pull request would be merged into
+	target_branch?: {
+		matches?: string[];
+		not_matches?: string[];
+	};
 	has_valid_signatures?: boolean;
 	has_valid_signatures_by?: {
 		users?: string[];
@@ -39,6 +141,22 @@ export interface RuleCondition {
 		organizations?: string[];
 		teams?: string[];
 	};
+	labels?: {
+		// The pull request has every one of these labels
+		has_labels?: string[];
+		// The pull request has none of these labels
+		lacks_labels?: string[];
+	};
+	// The deployment was requested during this weekly range
+	time_window?: WeeklyWindow;
+	changed_files?: {
+		// At least one changed file matches one of these patterns
+		paths?: string[];
+		// Changed files matching these patterns are not considered
+		ignore?: string[];
+		// Every changed file matches one of these patterns
+		only_in?: string[];
+	};
 }
 
 export interface ApprovalRequirement {
@@ -46,11 +164,15 @@ export interface ApprovalRequirement {
 	teams?: string[];
 	users?: string[];
 	organizations?: string[];
+	// Users with at least one of these repository permissions
+	permissions?: Permission[];
 }
 
 export interface ApprovalMethods {
 	github_review?: boolean;
 	github_review_comment_patterns?: string[];
+	// Accept pull request comments matching any of these patterns
+	issue_comment_patterns?: string[];
 }
 
 export interface Commit {
@@ -87,6 +209,21 @@ export interface Review {
 	submitted_at?: string;
 }
 
+// A comment on the pull request conversation, as opposed to a review
+export interface IssueComment {
+	id: number;
+	user: {
+		id: number;
+		login: string;
+	};
+	body: string;
+	html_url?: string;
+	created_at: string;
+	updated_at?: string;
+	// Set for comments made too early to approve the deployment, which can still veto it
+	stale?: boolean;
+}
+
 // Context types for policy evaluation
 export interface PolicyContext {
 	environment?: {
@@ -95,8 +232,133 @@ export interface PolicyContext {
 	deployment?: {
 		environment?: string;
 		event?: string;
+		// Branch name, tag or SHA the deployment was created from
+		ref?: string;
+		// Time the deployment was requested, if it is known
+		created_at?: string;
 		commit: Commit;
 	};
 	commits: Commit[];
 	reviews: Review[];
+	// Only evaluated by rules accepting issue comment approvals
+	comments?: IssueComment[];
+	// Paths of the files changed by the pull request, if it is known
+	changed_files?: string[];
+	// Base branch of the pull request, if the deployment is for one
+	target_branch?: string;
+	// Names of the pull request labels, if the deployment is for one
+	labels?: string[];
+}
+
+// Result types for policy evaluation
+
+/**
+ * Result of evaluating a rule or rule group
+ * - true: rule passed
+ * - false: rule failed
+ * - 'skipped': rule conditions not met, so it was skipped
+ */
+export type RuleResult = boolean | 'skipped';
+
+/**
+ * Decision returned by the policy evaluator, including the full trace of
+ * every rule, condition and review that contributed to the result
+ */
+export interface PolicyDecision {
+	approved: boolean;
+	result: RuleResult;
+	// 'rejected' when no additional reviews could satisfy the policy
+	outcome: PolicyOutcome;
+	// Top-level approval entries, combined with OR logic
+	approval: ApprovalTrace[];
+	// Omitted when the policy has no disapproval section
+	disapproval?: DisapprovalTrace;
+	// Omitted when no freeze window is in effect
+	freeze?: FreezeTrace;
+}
+
+export interface FreezeTrace {
+	// Names of the freeze windows in effect
+	windows: string[];
+	// The only rule that was evaluated, if the policy has one
+	override?: string;
+}
+
+export interface DisapprovalTrace {
+	vetoed: boolean;
+	// Reviews currently vetoing the deployment
+	vetoes: ReviewTrace[];
+}
+
+export type PolicyOutcome = 'approved' | 'pending' | 'rejected';
+
+export type ApprovalTrace = NamedRuleTrace | RuleGroupTrace | InvalidRuleTrace;
+
+export interface RuleGroupTrace {
+	// A negation has a single rule
+	type: 'and' | 'or' | 'not';
+	result: RuleResult;
+	rules: ApprovalTrace[];
+}
+
+export interface InvalidRuleTrace {
+	type: 'invalid';
+	result: false;
+	rule: unknown;
+}
+
+export interface NamedRuleTrace {
+	type: 'rule';
+	name: string;
+	result: RuleResult;
+	conditions: ConditionTrace[];
+	// Omitted when the rule was skipped or has no requirements
+	requirements?: RequirementTrace;
+}
+
+export interface ConditionTrace {
+	condition: keyof RuleCondition;
+	passed: boolean;
+	reasons: string[];
+}
+
+export interface RequirementTrace {
+	required: number;
+	count: number;
+	// Users, teams and organizations whose approvals count toward the requirement
+	approvers: {
+		users: string[];
+		teams: string[];
+		organizations: string[];
+		permissions?: Permission[];
+	};
+	// Reviews and pull request comments that were considered, in context order
+	reviews: ReviewTrace[];
+}
+
+export type ReviewDiscardReason =
+	| 'wrong_sha'
+	| 'self_review'
+	| 'unauthorized'
+	| 'pattern_mismatch'
+	| 'unsupported_method'
+	// The comment was edited after it was created
+	| 'edited'
+	// The comment names other environments than the one being evaluated
+	| 'wrong_environment'
+	// A later review by the same user replaced or revoked this approval
+	| 'superseded';
+
+export interface ReviewTrace {
+	id: number;
+	user: string;
+	state: string;
+	counted: boolean;
+	discarded?: ReviewDiscardReason;
+	// The comment pattern that matched, if the review was counted via a pattern
+	pattern?: string;
+	// Environments named by the comment, omitted if it applies to every environment
+	environments?: string[];
+	// Set for pull request comments, omitted for reviews
+	source?: 'issue_comment';
 }
@@ -0,0 +1,502 @@
+import schema from './deploynaut.schema.json' with { type: 'json' };
+import { parseNamePattern, parsePattern } from './patterns.js';
+import { expandRules } from './templates.js';
+import { findDeepNesting, findReferenceCycles } from './references.js';
+import { parseDate } from './freeze.js';
+import { isValidTimeZone } from './schedule.js';
+
+/**
+ * Location of a value in the configuration, as keys and array indexes from the root
+ */
+export type ConfigPath = Array<string | number>;
+
+/**
+ * Problem found in a policy configuration
+ */
+export interface ValidationIssue {
+	path: ConfigPath;
+	message: string;
+}
+
+/**
+ * Subset of JSON Schema used by the published policy schema
+ */
+interface Schema {
+	$ref?: string;
+	type?: string;
+	properties?: Record<string, Schema>;
+	additionalProperties?: boolean;
+	required?: string[];
+	items?: Schema;
+	anyOf?: Schema[];
+	enum?: unknown[];
+	minimum?: number;
+	pattern?: string;
+	// Message for values that do not match the pattern, as used by ajv-errors
+	errorMessage?: string;
+}
+
+const POLICY_SCHEMA = schema as Schema & { $defs: Record<string, Schema> };
+
+export interface ValidateOptions {
+	// The configuration is a single file that may inherit its policy and rules from
+	// the file it extends, so missing sections and rules are not reported
+	partial?: boolean;
+}
+
+/**
+ * Validate a policy configuration against the JSON Schema, expand rule templates, and
+ * check that rule names are unique, every referenced rule exists, approval groups are
+ * not cyclic or too deeply nested, every pattern is a valid regular expression and
+ * every freeze window has a valid range
+ * @param config The parsed configuration
+ * @param options Validation options
+ * @returns Every issue found, in document order of the schema checks followed by the
+ * rule checks, or only the reference cycles if there are any
+ */
+export function validatePolicyConfig(
+	config: unknown,
+	{ partial = false }: ValidateOptions = {},
+): ValidationIssue[] {
+	// Values that contain themselves cannot be walked, so nothing else is checked
+	const cycles = findReferenceCycles(config);
+	if (cycles.length > 0) {
+		return cycles;
+	}
+
+	const issues: ValidationIssue[] = [];
+	checkSchema(
+		config,
+		partial ? { ...POLICY_SCHEMA, required: [] } : POLICY_SCHEMA,
+		[],
+		issues,
+	);
+	if (isRecord(config)) {
+		const expanded = expandRules(config, partial);
+		issues.push(...expanded.issues);
+		checkExpandedRules(config, expanded.rules, issues);
+		checkRules({ ...config, approval_rules: expanded.rules }, partial, issues);
+	}
+	issues.push(...findDeepNesting(config));
+	return issues;
+}
+
+/**
+ * Format a configuration path the way it would be written in JavaScript, e.g. `approval_rules[2].if`
+ * @param path The path to format
+ */
+export function formatPath(path: ConfigPath): string {
+	if (path.length === 0) {
+		return '(root)';
+	}
+	return path
+		.map((key, idx) =>
+			typeof key === 'number' ? `[${key}]` : idx === 0 ? key : `.${key}`,
+		)
+		.join('');
+}
+
+/**
+ * Format a validation issue as a single line
+ * @param issue The issue to format
+ */
+export function formatIssue(issue: ValidationIssue): string {
+	return `${formatPath(issue.path)}: ${issue.message}`;
+}
+
+function checkSchema(
+	value: unknown,
+	target: Schema,
+	path: ConfigPath,
+	issues: ValidationIssue[],
+): void {
+	const rule = resolve(target);
+
+	if (rule.anyOf) {
+		// Report the issues of the alternative with the same type, or a type mismatch
+		const candidates = rule.anyOf.filter((option) =>
+			matchesType(value, resolve(option).type),
+		);
+		if (candidates.length === 0) {
+			const types = rule.anyOf.map((option) => resolve(option).type);
+			issues.push({ path, message: `must be ${describeTypes(types)}` });
+			return;
+		}
+		checkSchema(value, candidates[0], path, issues);
+		return;
+	}
+
+	if (rule.type !== undefined && !matchesType(value, rule.type)) {
+		issues.push({ path, message: `must be ${describeTypes([rule.type])}` });
+		return;
+	}
+
+	if (rule.enum && !rule.enum.includes(value)) {
+		issues.push({
+			path,
+			message: `must be one of ${rule.enum.join(', ')}`,
+		});
+	}
+
+	if (typeof value === 'number' && rule.minimum !== undefined) {
+		if (value < rule.minimum) {
+			issues.push({ path, message: `must be at least ${rule.minimum}` });
+		}
+	}
+
+	if (typeof value === 'string' && rule.pattern !== undefined) {
+		if (!new RegExp(rule.pattern).test(value)) {
+			issues.push({
+				path,
+				message: rule.errorMessage ?? `must match ${rule.pattern}`,
+			});
+		}
+	}
+
+	if (Array.isArray(value) && rule.items) {
+		const items = rule.items;
+		value.forEach((item, idx) => {
+			checkSchema(item, items, [...path, idx], issues);
+		});
+	}
+
+	if (isRecord(value)) {
+		for (const key of rule.required ?? []) {
+			if (value[key] === undefined) {
+				issues.push({ path, message: `missing required key "${key}"` });
+			}
+		}
+		for (const [key, child] of Object.entries(value)) {
+			const property = rule.properties?.[key];
+			if (property) {
+				checkSchema(child, property, [...path, key], issues);
+			} else if (rule.additionalProperties === false) {
+				issues.push({ path: [...path, key], message: `unknown key "${key}"` });
+			}
+		}
+	}
+}
+
+function resolve(target: Schema): Schema {
+	if (target.$ref === undefined) {
+		return target;
+	}
+	const name = target.$ref.replace('#/$defs/', '');
+	const definition = POLICY_SCHEMA.$defs[name];
+	if (!definition) {
+		throw new Error(`Schema reference ${target.$ref} not found`);
+	}
+	return resolve(definition);
+}
+
+function matchesType(value: unknown, type: string | undefined): boolean {
+	switch (type) {
+		case undefined:
+			return true;
+		case 'object':
+			return isRecord(value);
+		case 'array':
+			return Array.isArray(value);
+		case 'integer':
+			return Number.isInteger(value);
+		case 'string':
+			// Probot parses unquoted YAML timestamps as dates
+			return typeof value === 'string' || value instanceof Date;
+		default:
+			return typeof value === type;
+	}
+}
+
+function describeTypes(types: Array<string | undefined>): string {
+	const names = types.map((type) => {
+		switch (type) {
+			case 'object':
+				return 'a mapping';
+			case 'array':
+				return 'a list';
+			case 'integer':
+				return 'an integer';
+			default:
+				return `a ${type}`;
+		}
+	});
+	return names.length > 1
+		? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+		: names[0];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
+
+// Values of templates are only known to be valid once their parameters are replaced,
+// so rules expanded from a template are checked against the schema again
+function checkExpandedRules(
+	config: Record<string, unknown>,
+	rules: unknown[],
+	issues: ValidationIssue[],
+): void {
+	const reported = new Set(issues.map(formatIssue));
+	const original = asArray(config.approval_rules);
+	rules.forEach((rule, idx) => {
+		if (rule === original[idx]) {
+			return;
+		}
+		const ruleIssues: ValidationIssue[] = [];
+		checkSchema(
+			rule,
+			{ $ref: '#/$defs/approval_rule' },
+			['approval_rules', idx],
+			ruleIssues,
+		);
+		issues.push(
+			...ruleIssues.filter((issue) => !reported.has(formatIssue(issue))),
+		);
+	});
+}
+
+function checkRules(
+	config: Record<string, unknown>,
+	partial: boolean,
+	issues: ValidationIssue[],
+): void {
+	const rules = asArray(config.approval_rules);
+	const names = new Map<string, number>();
+
+	rules.forEach((rule, idx) => {
+		if (!isRecord(rule)) {
+			return;
+		}
+		const path: ConfigPath = ['approval_rules', idx];
+		if (typeof rule.name === 'string') {
+			const first = names.get(rule.name);
+			if (first !== undefined) {
+				issues.push({
+					path: [...path, 'name'],
+					message: `duplicate rule name "${rule.name}", first defined at ${formatPath(['approval_rules', first])}`,
+				});
+			} else {
+				names.set(rule.name, idx);
+			}
+		}
+
+		const conditions = isRecord(rule.if) ? rule.if : {};
+		for (const condition of ['environment', 'ref', 'target_branch']) {
+			const lists = conditions[condition];
+			if (!isRecord(lists)) {
+				continue;
+			}
+			for (const key of ['matches', 'not_matches']) {
+				checkPatterns(
+					lists[key],
+					[...path, 'if', condition, key],
+					parseNamePattern,
+					issues,
+				);
+			}
+		}
+		if (isRecord(conditions.changed_files)) {
+			for (const key of ['paths', 'ignore', 'only_in']) {
+				checkPatterns(
+					conditions.changed_files[key],
+					[...path, 'if', 'changed_files', key],
+					parseNamePattern,
+					issues,
+				);
+			}
+		}
+
+		if (isRecord(conditions.time_window)) {
+			checkTimeZone(
+				conditions.time_window.timezone,
+				[...path, 'if', 'time_window', 'timezone'],
+				issues,
+			);
+		}
+
+		const methods = isRecord(rule.methods) ? rule.methods : {};
+		for (const key of [
+			'github_review_comment_patterns',
+			'issue_comment_patterns',
+		]) {
+			checkPatterns(
+				methods[key],
+				[...path, 'methods', key],
+				parsePattern,
+				issues,
+			);
+		}
+	});
+
+	const policy = isRecord(config.policy) ? config.policy : {};
+	if (!partial) {
+		checkReferences(policy.approval, ['policy', 'approval'], names, issues);
+		const locked = isRecord(config.locked) ? config.locked : {};
+		checkReferences(locked.rules, ['locked', 'rules'], names, issues);
+	}
+	if (isRecord(config.freeze)) {
+		checkFreeze(config.freeze, partial ? undefined : names, issues);
+	}
+
+	const disapproval = isRecord(policy.disapproval) ? policy.disapproval : {};
+	const disapprovalMethods = isRecord(disapproval.methods)
+		? disapproval.methods
+		: {};
+	for (const key of [
+		'github_review_comment_patterns',
+		'issue_comment_patterns',
+	]) {
+		checkPatterns(
+			disapprovalMethods[key],
+			['policy', 'disapproval', 'methods', key],
+			parsePattern,
+			issues,
+		);
+	}
+}
+
+function checkReferences(
+	approval: unknown,
+	path: ConfigPath,
+	names: Map<string, number>,
+	issues: ValidationIssue[],
+): void {
+	asArray(approval).forEach((rule, idx) => {
+		checkReference(rule, [...path, idx], names, issues);
+	});
+}
+
+function checkReference(
+	rule: unknown,
+	path: ConfigPath,
+	names: Map<string, number>,
+	issues: ValidationIssue[],
+): void {
+	if (typeof rule === 'string') {
+		if (!names.has(rule)) {
+			issues.push({ path, message: `unknown rule "${rule}"` });
+		}
+	} else if (Array.isArray(rule)) {
+		checkReferences(rule, path, names, issues);
+	} else if (isRecord(rule)) {
+		for (const key of ['or', 'and']) {
+			checkReferences(rule[key], [...path, key], names, issues);
+		}
+		if (rule.not !== undefined) {
+			checkReference(rule.not, [...path, 'not'], names, issues);
+		}
+	}
+}
+
+function checkPatterns(
+	patterns: unknown,
+	path: ConfigPath,
+	parse: (pattern: string) => RegExp,
+	issues: ValidationIssue[],
+): void {
+	asArray(patterns).forEach((pattern, idx) => {
+		if (typeof pattern !== 'string') {
+			return;
+		}
+		try {
+			parse(pattern);
+		} catch (error) {
+			issues.push({
+				path: [...path, idx],
+				message: `invalid pattern: ${error instanceof Error ? error.message : error}`,
+			});
+		}
+	});
+}
+
+function checkFreeze(
+	freeze: Record<string, unknown>,
+	names: Map<string, number> | undefined,
+	issues: ValidationIssue[],
+): void {
+	if (names && typeof freeze.freeze_override === 'string') {
+		checkReference(
+			freeze.freeze_override,
+			['freeze', 'freeze_override'],
+			names,
+			issues,
+		);
+	}
+
+	const windows = new Set<string>();
+	asArray(freeze.windows).forEach((window, idx) => {
+		if (!isRecord(window)) {
+			return;
+		}
+		const path: ConfigPath = ['freeze', 'windows', idx];
+		if (typeof window.name === 'string') {
+			if (windows.has(window.name)) {
+				issues.push({
+					path: [...path, 'name'],
+					message: `duplicate freeze window name "${window.name}"`,
+				});
+			}
+			windows.add(window.name);
+		}
+		checkPatterns(
+			window.environments,
+			[...path, 'environments'],
+			parseNamePattern,
+			issues,
+		);
+
+		// A window is either a date range or a weekly range
+		const hasRange = window.from !== undefined || window.until !== undefined;
+		if (hasRange === (window.days !== undefined)) {
+			issues.push({
+				path,
+				message: 'must have either `from` and `until`, or `days`',
+			});
+			return;
+		}
+		if (hasRange) {
+			for (const key of ['from', 'until']) {
+				if (window[key] === undefined) {
+					issues.push({ path, message: `missing required key "${key}"` });
+				} else if (Number.isNaN(parseDate(window[key] as string))) {
+					issues.push({
+						path: [...path, key],
+						message: 'must be a valid date',
+					});
+				}
+			}
+			for (const key of ['start', 'end', 'timezone']) {
+				if (window[key] !== undefined) {
+					issues.push({
+						path: [...path, key],
+						message: 'only applies to windows with `days`',
+					});
+				}
+			}
+			const from = parseDate(window.from as string);
+			const until = parseDate(window.until as string);
+			if (from >= until) {
+				issues.push({
+					path: [...path, 'until'],
+					message: 'must be after `from`',
+				});
+			}
+			return;
+		}
+		checkTimeZone(window.timezone, [...path, 'timezone'], issues);
+	});
+}
+
+function checkTimeZone(
+	value: unknown,
+	path: ConfigPath,
+	issues: ValidationIssue[],
+) {
+	if (typeof value === 'string' && !isValidTimeZone(value)) {
+		issues.push({ path, message: `unknown time zone "${value}"` });
+	}
+}
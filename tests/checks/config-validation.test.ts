@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'vitest';
+import {
+	findConfigWarnings,
+	validateConfigFile,
+} from '../../src/checks/config-validation.js';
+
+describe('validateConfigFile', () => {
+	test('reports problems on the lines they were found', () => {
+		const content = [
+			'policy:',
+			'  approval:',
+			'    - team-approval',
+			'    - missing-rule',
+			'approval_rules:',
+			'  - name: team-approval',
+			'    requires:',
+			'      count: 1',
+			'      teams: [team]',
+		].join('\n');
+
+		expect(validateConfigFile(content)).toEqual([
+			{
+				line: 4,
+				endLine: 4,
+				path: 'policy.approval[1]',
+				message: 'unknown rule "missing-rule"',
+			},
+			{
+				line: 9,
+				endLine: 9,
+				path: 'approval_rules[0].requires.teams[0]',
+				message: 'must be a team in the format org/team-slug',
+			},
+		]);
+	});
+
+	test('reports missing keys on the mapping that should contain them', () => {
+		const content = ['approval_rules:', '  - requires:', '      count: 1'].join(
+			'\n',
+		);
+
+		expect(validateConfigFile(content)).toEqual([
+			expect.objectContaining({
+				line: 1,
+				path: '(root)',
+				message: 'missing required key "policy"',
+			}),
+			expect.objectContaining({
+				line: 2,
+				endLine: 3,
+				path: 'approval_rules[0]',
+				message: 'missing required key "name"',
+			}),
+		]);
+	});
+
+	test('reports syntax errors', () => {
+		const [problem] = validateConfigFile('policy:\n  approval: [one\n');
+
+		expect(problem).toMatchObject({ line: expect.any(Number) });
+		expect(problem.path).toBeUndefined();
+	});
+
+	test('does not require rules of files that extend another configuration', () => {
+		const content = [
+			'_extends: .github',
+			'policy:',
+			'  approval:',
+			'    - org-rule',
+		].join('\n');
+
+		expect(validateConfigFile(content)).toEqual([]);
+	});
+});
+
+describe('findConfigWarnings', () => {
+	test('reports unused rules on the line of their name', () => {
+		const content = [
+			'policy:',
+			'  approval:',
+			'    - team-approval',
+			'approval_rules:',
+			'  - name: team-approval',
+			'  - name: staging',
+			'    requires:',
+			'      count: 0',
+		].join('\n');
+
+		expect(findConfigWarnings(content)).toEqual([
+			{
+				line: 6,
+				endLine: 6,
+				path: 'approval_rules[1].name',
+				message: 'rule "staging" is never used by policy.approval',
+			},
+		]);
+	});
+
+	test('does not report rules of files that extend another configuration', () => {
+		const content = [
+			'extends: true',
+			'approval_rules:',
+			'  - name: staging',
+		].join('\n');
+
+		expect(findConfigWarnings(content)).toEqual([]);
+	});
+});
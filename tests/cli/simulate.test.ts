@@ -0,0 +1,195 @@
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import { run } from '../../src/cli/index.js';
+
+const fixtures = path.join(__dirname, '../fixtures');
+const config = path.join(fixtures, 'simulate/deploynaut.yml');
+const context = path.join(fixtures, 'simulate/context.json');
+const identity = path.join(fixtures, 'identity/static.yml');
+
+// Collect everything written to an output
+const capture = () => {
+	const chunks: string[] = [];
+	return {
+		write: (text: string) => chunks.push(text),
+		text: () => chunks.join(''),
+	};
+};
+
+const simulate = async (...args: string[]) => {
+	const stdout = capture();
+	const stderr = capture();
+	const code = await run(['simulate', ...args], stdout, stderr);
+	return { code, stdout: stdout.text(), stderr: stderr.text() };
+};
+
+describe('deploynaut simulate', () => {
+	test('approves deployments approved by the policy', async () => {
+		const result = await simulate(
+			'--config',
+			config,
+			'--environment',
+			'production',
+			'--context',
+			context,
+			'--identity',
+			identity,
+		);
+
+		expect(result.code).toBe(0);
+		expect(result.stdout).toContain('### ✅ production: approved');
+		expect(result.stdout).toContain('Approved by alice');
+		expect(result.stderr).toBe('');
+	});
+
+	test('does not approve deployments without identity information', async () => {
+		const result = await simulate(
+			'-c',
+			config,
+			'-e',
+			'production',
+			'-x',
+			context,
+		);
+
+		expect(result.code).toBe(1);
+		expect(result.stdout).toContain('production: pending');
+		expect(result.stdout).toContain(
+			'Needs 1 more approval from teams test-org/release-managers',
+		);
+	});
+
+	test('evaluates conditions against the given environment', async () => {
+		const result = await simulate(
+			'-c',
+			config,
+			'-e',
+			'staging',
+			'-x',
+			context,
+			'-i',
+			identity,
+		);
+
+		expect(result.code).toBe(1);
+		expect(result.stdout).toContain('staging: rejected');
+	});
+
+	test('expands rule templates', async () => {
+		const result = await simulate(
+			'-c',
+			path.join(fixtures, 'policy-configs/rule-templates.yml'),
+			'-e',
+			'prod-identity',
+			'-x',
+			context,
+		);
+
+		expect(result.code).toBe(1);
+		expect(result.stdout).toContain(
+			'Needs 1 more approval from teams test-org/identity',
+		);
+	});
+
+	test('prints the decision trace as JSON', async () => {
+		const result = await simulate(
+			'-c',
+			config,
+			'-e',
+			'production',
+			'-x',
+			context,
+			'-i',
+			identity,
+			'--json',
+		);
+
+		expect(JSON.parse(result.stdout)).toMatchObject({
+			approved: true,
+			outcome: 'approved',
+			approval: [
+				{
+					type: 'rule',
+					name: 'release-managers',
+					requirements: {
+						count: 1,
+						reviews: [{ user: 'alice', counted: true }],
+					},
+				},
+			],
+		});
+	});
+
+	test('logs evaluation steps to stderr when verbose', async () => {
+		const result = await simulate(
+			'-c',
+			config,
+			'-e',
+			'production',
+			'-x',
+			context,
+			'--verbose',
+		);
+
+		expect(result.stderr).toContain('Evaluating rule:');
+	});
+
+	test('prints usage for missing options', async () => {
+		const result = await simulate('-c', config);
+
+		expect(result.code).toBe(2);
+		expect(result.stderr).toContain(
+			'Options --config, --environment and --context are required',
+		);
+		expect(result.stderr).toContain('Usage: deploynaut simulate');
+	});
+
+	test('reports input files that cannot be read', async () => {
+		const result = await simulate(
+			'-c',
+			config,
+			'-e',
+			'production',
+			'-x',
+			path.join(fixtures, 'simulate/missing.json'),
+		);
+
+		expect(result.code).toBe(2);
+		expect(result.stderr).toContain('Cannot read deployment context');
+	});
+
+	test('reports invalid deployment contexts', async () => {
+		const result = await simulate(
+			'-c',
+			config,
+			'-e',
+			'production',
+			'-x',
+			config,
+		);
+
+		expect(result.code).toBe(2);
+		expect(result.stderr).toContain('Invalid deployment context');
+	});
+
+	test('rejects unknown commands', async () => {
+		const stderr = capture();
+
+		expect(await run(['approve'], capture(), stderr)).toBe(2);
+		expect(stderr.text()).toContain('Unknown command "approve"');
+	});
+
+	test('reports invalid policy configurations', async () => {
+		const result = await simulate(
+			'-c',
+			path.join(fixtures, 'simulate/context.json'),
+			'-e',
+			'production',
+			'-x',
+			context,
+		);
+
+		expect(result.code).toBe(2);
+		expect(result.stderr).toContain('(root): missing required key "policy"');
+	});
+});
@@ -0,0 +1,149 @@
+import nock from 'nock';
+import { ProbotOctokit } from 'probot';
+import { describe, beforeEach, afterEach, test, expect } from 'vitest';
+import {
+	listCheckRunsForRef,
+	listIssueComments,
+	listPullRequestCommits,
+	listPullRequestReviews,
+	listWorkflowRuns,
+} from '../src/client.js';
+
+describe('GitHub client', () => {
+	let context: any;
+
+	beforeEach(() => {
+		nock.disableNetConnect();
+
+		const octokit = new (ProbotOctokit.defaults({
+			retry: { enabled: false },
+			throttle: { enabled: false },
+		}))();
+		context = {
+			octokit,
+			repo: (params: object) => ({
+				owner: 'test-org',
+				repo: 'test-repo',
+				...params,
+			}),
+		};
+	});
+
+	afterEach(() => {
+		nock.cleanAll();
+		nock.enableNetConnect();
+	});
+
+	// Reply with a Link header pointing at the next page, as the GitHub API does
+	const nextPage = (path: string, page: number) => ({
+		link: `<https://api.github.com${path}?per_page=100&page=${page}>; rel="next"`,
+	});
+
+	test('paginates pull request reviews', async () => {
+		const path = '/repos/test-org/test-repo/pulls/1/reviews';
+		const mock = nock('https://api.github.com')
+			.get(path)
+			.query({ per_page: 100 })
+			.reply(200, [{ id: 1 }, { id: 2 }], nextPage(path, 2))
+			.get(path)
+			.query({ per_page: 100, page: 2 })
+			.reply(200, [{ id: 3 }], nextPage(path, 3))
+			.get(path)
+			.query({ per_page: 100, page: 3 })
+			.reply(200, [{ id: 4 }]);
+
+		const reviews = await listPullRequestReviews(context, 1);
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(reviews.map((review) => review.id)).toEqual([1, 2, 3, 4]);
+	});
+
+	test('paginates issue comments', async () => {
+		const path = '/repos/test-org/test-repo/issues/1/comments';
+		const mock = nock('https://api.github.com')
+			.get(path)
+			.query({ per_page: 100 })
+			.reply(200, [{ id: 1 }, { id: 2 }], nextPage(path, 2))
+			.get(path)
+			.query({ per_page: 100, page: 2 })
+			.reply(200, [{ id: 3 }]);
+
+		const comments = await listIssueComments(context, 1);
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(comments.map((comment) => comment.id)).toEqual([1, 2, 3]);
+	});
+
+	test('paginates pull request commits', async () => {
+		const path = '/repos/test-org/test-repo/pulls/1/commits';
+		const mock = nock('https://api.github.com')
+			.get(path)
+			.query({ per_page: 100 })
+			.reply(200, [{ sha: 'sha-1' }], nextPage(path, 2))
+			.get(path)
+			.query({ per_page: 100, page: 2 })
+			.reply(200, [{ sha: 'sha-2' }])
+			.get('/repos/test-org/test-repo/commits/sha-1')
+			.reply(200, { sha: 'sha-1' })
+			.get('/repos/test-org/test-repo/commits/sha-2')
+			.reply(200, { sha: 'sha-2' });
+
+		const commits = await listPullRequestCommits(context, 1);
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(commits.map((commit) => commit.sha)).toEqual(['sha-1', 'sha-2']);
+	});
+
+	test('paginates workflow runs', async () => {
+		const path = '/repos/test-org/test-repo/actions/runs';
+		const mock = nock('https://api.github.com')
+			.get(path)
+			.query({ status: 'waiting', branch: 'test-branch', per_page: 100 })
+			.reply(
+				200,
+				{ total_count: 2, workflow_runs: [{ id: 1 }] },
+				{
+					link: `<https://api.github.com${path}?status=waiting&branch=test-branch&per_page=100&page=2>; rel="next"`,
+				},
+			)
+			.get(path)
+			.query({
+				status: 'waiting',
+				branch: 'test-branch',
+				per_page: 100,
+				page: 2,
+			})
+			.reply(200, { total_count: 2, workflow_runs: [{ id: 2 }] });
+
+		const runs = await listWorkflowRuns(context, 'test-branch');
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(runs.map((run) => run.id)).toEqual([1, 2]);
+	});
+
+	test('paginates check runs', async () => {
+		const path = '/repos/test-org/test-repo/commits/test-sha/check-runs';
+		const mock = nock('https://api.github.com')
+			.get(path)
+			.query({ check_name: 'deploynaut policy', per_page: 100 })
+			.reply(
+				200,
+				{ total_count: 2, check_runs: [{ id: 1 }] },
+				{
+					link: `<https://api.github.com${path}?check_name=deploynaut%20policy&per_page=100&page=2>; rel="next"`,
+				},
+			)
+			.get(path)
+			.query({ check_name: 'deploynaut policy', per_page: 100, page: 2 })
+			.reply(200, { total_count: 2, check_runs: [{ id: 2 }] });
+
+		const checkRuns = await listCheckRunsForRef(
+			context,
+			'test-sha',
+			'deploynaut policy',
+		);
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(checkRuns.map((checkRun) => checkRun.id)).toEqual([1, 2]);
+	});
+});
@@ -37,6 +37,11 @@ const deployCommentFixture = fs.readFileSync(
 	'utf-8',
 );
 
+const issueCommentFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/issue-comment-patterns.yml'),
+	'utf-8',
+);
+
 const hasValidSignaturesFixture = fs.readFileSync(
 	path.join(__dirname, '../fixtures/policy-configs/has-valid-signatures.yml'),
 	'utf-8',
@@ -50,11 +55,41 @@ const hasValidSignaturesByFixture = fs.readFileSync(
 	'utf-8',
 );
 
+const eventConditionsFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/event-conditions.yml'),
+	'utf-8',
+);
+
+const rejectUnsatisfiableFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/reject-unsatisfiable.yml'),
+	'utf-8',
+);
+
+const disapprovalFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/disapproval.yml'),
+	'utf-8',
+);
+
 const orgApprovalFixture = fs.readFileSync(
 	path.join(__dirname, '../fixtures/policy-configs/org-approval-only.yml'),
 	'utf-8',
 );
 
+const changedFilesFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/changed-files.yml'),
+	'utf-8',
+);
+
+const refConditionsFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/ref-conditions.yml'),
+	'utf-8',
+);
+
+const timeWindowFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/time-window.yml'),
+	'utf-8',
+);
+
 // Test fixtures
 interface TestFixture {
 	deployment_protection_rule: {
@@ -147,6 +182,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, authorConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -179,6 +216,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, contributorConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -211,6 +250,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -226,6 +267,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					user: { id: 456, login: 'maintainer-user' },
@@ -237,6 +279,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -247,12 +290,8 @@ describe('Deployment Protection Rule Handler', () => {
 					},
 				},
 			])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'maintainer-user',
-				},
-			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/maintainer-user')
+			.reply(200, { state: 'active' })
 			.post(
 				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
 			)
@@ -272,6 +311,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, deployCommentFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -287,6 +328,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					user: { id: 456, login: 'maintainer-user' },
@@ -298,6 +340,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -308,14 +351,67 @@ describe('Deployment Protection Rule Handler', () => {
 					},
 				},
 			])
-			.get('/orgs/test-org/teams/test-maintainers/members')
+			.get('/orgs/test-org/teams/test-maintainers/memberships/maintainer-user')
+			.reply(200, { state: 'active' })
+			.post(
+				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: testFixtures.deployment_protection_rule,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('approves deployment with a pull request comment created after the workflow run', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, issueCommentFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const commit = {
+			sha: 'test-sha',
+			author: { id: 123, login: 'test-user' },
+			committer: { id: 123, login: 'test-user' },
+			commit: {},
+		};
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, commit)
+			.get('/repos/test-org/test-repo/actions/runs/123')
+			.reply(200, { id: 123, created_at: '2025-01-01T00:00:00Z' })
+			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/1/comments')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
-					login: 'maintainer-user',
+					id: 1,
+					user: { id: 456, login: 'maintainer-user' },
+					body: '/deploy test-environment',
+					html_url:
+						'https://github.com/test-org/test-repo/pull/1#issuecomment-1',
+					created_at: '2025-01-01T00:05:00Z',
+					updated_at: '2025-01-01T00:05:00Z',
 				},
 			])
+			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
+			.reply(200, [commit])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/maintainer-user')
+			.reply(200, { state: 'active' })
 			.post(
 				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+				(body) => body.state === 'approved',
 			)
 			.reply(200);
 
@@ -327,12 +423,68 @@ describe('Deployment Protection Rule Handler', () => {
 		expect(mock.pendingMocks()).toStrictEqual([]);
 	});
 
+	test('ignores pull request comments created before the workflow run', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, issueCommentFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const commit = {
+			sha: 'test-sha',
+			author: { id: 123, login: 'test-user' },
+			committer: { id: 123, login: 'test-user' },
+			commit: {},
+		};
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, commit)
+			.get('/repos/test-org/test-repo/actions/runs/123')
+			.reply(200, { id: 123, created_at: '2025-01-01T00:00:00Z' })
+			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/1/comments')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 1,
+					user: { id: 456, login: 'maintainer-user' },
+					body: '/deploy test-environment',
+					html_url:
+						'https://github.com/test-org/test-repo/pull/1#issuecomment-1',
+					created_at: '2025-01-01T00:00:30Z',
+					updated_at: '2025-01-01T00:00:30Z',
+				},
+			])
+			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
+			.reply(200, [commit])
+			// The commenter is a maintainer, so only the comment time prevents the approval
+			.get('/orgs/test-org/teams/test-maintainers/memberships/maintainer-user')
+			.optionally()
+			.reply(200, { state: 'active' });
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: testFixtures.deployment_protection_rule,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
 	test('approves deployment with organization member review', async () => {
 		// Override the beforeEach setup to use org-approval fixture
 		nock.cleanAll();
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, orgApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -348,6 +500,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					user: { id: 456, login: 'org-member-user' },
@@ -359,6 +512,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -369,12 +523,8 @@ describe('Deployment Protection Rule Handler', () => {
 					},
 				},
 			])
-			.get('/orgs/test-org/members')
-			.reply(200, [
-				{
-					login: 'org-member-user',
-				},
-			])
+			.get('/orgs/test-org/memberships/org-member-user')
+			.reply(200, { state: 'active' })
 			.post(
 				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
 			)
@@ -394,6 +544,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, hasValidSignaturesFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -435,6 +587,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, hasValidSignaturesFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -459,8 +613,10 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -495,6 +651,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, hasValidSignaturesByFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -517,12 +675,8 @@ describe('Deployment Protection Rule Handler', () => {
 					},
 				},
 			})
-			.get('/orgs/test-org/teams/test-users/members')
-			.reply(200, [
-				{
-					login: 'test-user',
-				},
-			])
+			.get('/orgs/test-org/teams/test-users/memberships/test-user')
+			.reply(200, { state: 'active' })
 			.post(
 				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
 			)
@@ -542,6 +696,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, hasValidSignaturesByFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -565,15 +721,13 @@ describe('Deployment Protection Rule Handler', () => {
 					},
 				},
 			})
-			.get('/orgs/test-org/teams/test-users/members')
-			.reply(200, [
-				{
-					login: 'test-user',
-				},
-			])
+			.get('/orgs/test-org/teams/test-users/memberships/unauthorized-user')
+			.reply(404, { message: 'Not Found' })
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -608,6 +762,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -623,8 +779,10 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -649,6 +807,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -667,14 +827,104 @@ describe('Deployment Protection Rule Handler', () => {
 		expect(nock.pendingMocks()).toStrictEqual([]);
 	});
 
+	test('approves deployment with the rules of the extended organization policy', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, 'extends: true\n')
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(200, authorConditionsFixture)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-bot' },
+				committer: { id: 123, login: 'test-bot' },
+				commit: {
+					verification: { verified: true, reason: 'valid' },
+				},
+			})
+			.post(
+				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: testFixtures.deployment_protection_rule,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('approves deployment when an organization configuration it does not extend is not valid', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, authorConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(200, 'policy:\n  approval: [missing]\napproval_rules: []\n')
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-bot' },
+				committer: { id: 123, login: 'test-bot' },
+				commit: {
+					verification: { verified: true, reason: 'valid' },
+				},
+			})
+			.post(
+				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: testFixtures.deployment_protection_rule,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('does not evaluate configurations that drop locked organization rules', async () => {
+		nock.cleanAll();
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(
+				200,
+				`${authorConditionsFixture}\nlocked:\n  rules:\n    - was authored by test-bot\n`,
+			)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: testFixtures.deployment_protection_rule,
+		});
+
+		// No pending mocks and no unexpected API calls means the deployment was not evaluated
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
 	test('handles missing configuration gracefully', async () => {
 		// Override the config endpoint to return 404
 		nock.cleanAll();
 		const mock = nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(404)
-			// Probot will also check the organization's .github repo
+			// Probot will also check the organization's .github repo, and the
+			// organization policy is loaded again to apply its locks
 			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.times(2)
 			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
@@ -693,6 +943,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -708,6 +960,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					user: { id: 456, login: 'regular-user' },
@@ -719,6 +972,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -729,12 +983,8 @@ describe('Deployment Protection Rule Handler', () => {
 					},
 				},
 			])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.get('/orgs/test-org/teams/test-maintainers/memberships/regular-user')
+			.reply(404, { message: 'Not Found' });
 
 		await probot.receive({
 			name: 'deployment_protection_rule',
@@ -750,6 +1000,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -782,6 +1034,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -798,8 +1052,10 @@ describe('Deployment Protection Rule Handler', () => {
 			})
 			// Called once for commit committer only
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -824,6 +1080,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -839,8 +1097,10 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -865,6 +1125,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -880,8 +1142,10 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -906,6 +1170,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -921,8 +1187,10 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -948,7 +1216,9 @@ describe('Deployment Protection Rule Handler', () => {
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } })
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
-			.reply(200, basicApprovalFixture);
+			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404);
 
 		const unsupportedEventPayload = {
 			...testFixtures.deployment_protection_rule,
@@ -968,6 +1238,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, contributorConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -1001,6 +1273,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -1016,6 +1290,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			})
 			.get('/repos/test-org/test-repo/pulls/1/reviews')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					user: { id: 456, login: 'maintainer-user' },
@@ -1027,6 +1302,7 @@ describe('Deployment Protection Rule Handler', () => {
 				},
 			])
 			.get('/repos/test-org/test-repo/pulls/1/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					sha: 'test-sha',
@@ -1037,12 +1313,8 @@ describe('Deployment Protection Rule Handler', () => {
 					},
 				},
 			])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'maintainer-user',
-				},
-			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/maintainer-user')
+			.reply(200, { state: 'active' })
 			.post(
 				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
 			)
@@ -1063,6 +1335,8 @@ describe('Deployment Protection Rule Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, authorConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
@@ -1092,4 +1366,765 @@ describe('Deployment Protection Rule Handler', () => {
 
 		expect(mock.pendingMocks()).toStrictEqual([]);
 	});
+
+	test('approves deployment when the triggering event matches the policy', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, eventConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-user' },
+				committer: { id: 123, login: 'test-user' },
+				commit: {},
+			})
+			.post(
+				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: {
+				...testFixtures.deployment_protection_rule,
+				event: 'push',
+				pull_requests: [],
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('does not approve deployment when the triggering event does not match the policy', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, eventConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-user' },
+				committer: { id: 123, login: 'test-user' },
+				commit: {},
+			});
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: {
+				...testFixtures.deployment_protection_rule,
+				event: 'workflow_dispatch',
+				pull_requests: [],
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('approves deployment when the deployment ref matches the policy', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, refConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-user' },
+				committer: { id: 123, login: 'test-user' },
+				commit: {},
+			})
+			.post(
+				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: {
+				...testFixtures.deployment_protection_rule,
+				deployment: {
+					...testFixtures.deployment_protection_rule.deployment,
+					ref: 'main',
+				},
+				event: 'push',
+				pull_requests: [],
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('does not approve deployment from other refs', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, refConditionsFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-user' },
+				committer: { id: 123, login: 'test-user' },
+				commit: {},
+			});
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: {
+				...testFixtures.deployment_protection_rule,
+				deployment: {
+					...testFixtures.deployment_protection_rule.deployment,
+					ref: 'feature/login',
+				},
+				event: 'push',
+				pull_requests: [],
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('approves deployments requested during the time window', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, timeWindowFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-user' },
+				committer: { id: 123, login: 'test-user' },
+				commit: {},
+			})
+			.post(
+				'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: {
+				...testFixtures.deployment_protection_rule,
+				deployment: {
+					...testFixtures.deployment_protection_rule.deployment,
+					// Thursday 10:00 in Athens
+					created_at: '2025-01-09T08:00:00Z',
+				},
+				event: 'push',
+				pull_requests: [],
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('does not approve deployments requested outside of the time window', async () => {
+		nock.cleanAll();
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, timeWindowFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, {
+				sha: 'test-sha',
+				author: { id: 123, login: 'test-user' },
+				committer: { id: 123, login: 'test-user' },
+				commit: {},
+			});
+
+		await probot.receive({
+			name: 'deployment_protection_rule',
+			payload: {
+				...testFixtures.deployment_protection_rule,
+				deployment: {
+					...testFixtures.deployment_protection_rule.deployment,
+					// Friday 10:00 in Athens
+					created_at: '2025-01-10T08:00:00Z',
+				},
+				event: 'push',
+				pull_requests: [],
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	describe('changed files', () => {
+		const mockPullRequest = (files: object[]) =>
+			nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.times(2)
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-user' },
+					committer: { id: 123, login: 'test-user' },
+					commit: {},
+				})
+				.get('/repos/test-org/test-repo/pulls/1/reviews')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						user: { id: 456, login: 'maintainer-user' },
+						state: 'APPROVED',
+						commit_id: 'test-sha',
+						submitted_at: '2023-01-01T00:00:00Z',
+					},
+				])
+				.get('/repos/test-org/test-repo/pulls/1/commits')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						sha: 'test-sha',
+						author: { id: 123, login: 'test-user' },
+						committer: { id: 123, login: 'test-user' },
+						commit: {},
+					},
+				])
+				.get('/repos/test-org/test-repo/pulls/1/files')
+				.query({ per_page: 100 })
+				.reply(200, files);
+
+		beforeEach(() => {
+			nock.cleanAll();
+			nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+				.reply(200, changedFilesFixture)
+				.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+				.reply(404)
+				.post('/app/installations/12345678/access_tokens')
+				.reply(200, { token: 'test', permissions: { issues: 'write' } });
+		});
+
+		test('approves deployment of pull requests that only change docs', async () => {
+			const mock = mockPullRequest([
+				{ filename: 'docs/setup.md', status: 'modified' },
+				{ filename: 'README.md', status: 'modified' },
+			])
+				.post(
+					'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+				)
+				.reply(200);
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: testFixtures.deployment_protection_rule,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+		});
+
+		test('requires the sre team for files moved out of terraform paths', async () => {
+			const mock = mockPullRequest([
+				{
+					filename: 'docs/main.tf',
+					previous_filename: 'infra/terraform/main.tf',
+					status: 'renamed',
+				},
+			])
+				.get('/orgs/test-org/teams/sre/memberships/maintainer-user')
+				.reply(404);
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: testFixtures.deployment_protection_rule,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+		});
+	});
+
+	describe('rejecting unsatisfiable deployments', () => {
+		beforeEach(() => {
+			nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+				.reply(200, rejectUnsatisfiableFixture)
+				.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+				.reply(404)
+				.post('/app/installations/12345678/access_tokens')
+				.reply(200, { token: 'test', permissions: { issues: 'write' } });
+		});
+
+		test('rejects deployment with a reason when no rule can be satisfied', async () => {
+			let review: any;
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-user' },
+					committer: { id: 123, login: 'test-user' },
+					commit: {
+						verification: { verified: false, reason: 'unsigned' },
+					},
+				})
+				.post(
+					'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+					(body) => {
+						review = body;
+						return true;
+					},
+				)
+				.reply(200);
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: {
+					...testFixtures.deployment_protection_rule,
+					pull_requests: [],
+				},
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+			expect(review).toEqual({
+				environment_name: 'test-environment',
+				state: 'rejected',
+				comment: [
+					'Rejected by policy: no approval rule can be satisfied.',
+					'"test environment has valid signatures" does not apply: Commit "test-sha" signature not verified by GitHub: unsigned',
+					'"test-maintainers have approved" does not apply: Environment "test-environment" is explicitly excluded by the policy',
+				].join('\n'),
+			});
+		});
+
+		test('leaves deployment pending while waiting for reviews', async () => {
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-user' },
+					committer: { id: 123, login: 'test-user' },
+					commit: {
+						verification: { verified: false, reason: 'unsigned' },
+					},
+				});
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: {
+					...testFixtures.deployment_protection_rule,
+					environment: 'production',
+					pull_requests: [],
+				},
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+		});
+	});
+
+	describe('disapproval', () => {
+		beforeEach(() => {
+			nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+				.reply(200, disapprovalFixture)
+				.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+				.reply(404)
+				.post('/app/installations/12345678/access_tokens')
+				.reply(200, { token: 'test', permissions: { issues: 'write' } });
+		});
+
+		test('rejects deployment vetoed by a maintainer despite approvals', async () => {
+			let review: any;
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.times(2)
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-user' },
+					committer: { id: 123, login: 'test-user' },
+					commit: {},
+				})
+				.get('/repos/test-org/test-repo/pulls/1/reviews')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						id: 1,
+						user: { id: 456, login: 'maintainer-user' },
+						state: 'APPROVED',
+						commit_id: 'test-sha',
+						submitted_at: '2023-01-01T00:00:00Z',
+					},
+					{
+						id: 2,
+						user: { id: 457, login: 'security-user' },
+						state: 'COMMENTED',
+						body: '/block pending audit',
+						commit_id: 'test-sha',
+						submitted_at: '2023-01-01T01:00:00Z',
+					},
+				])
+				.get('/repos/test-org/test-repo/pulls/1/commits')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						sha: 'test-sha',
+						author: { id: 123, login: 'test-user' },
+						committer: { id: 123, login: 'test-user' },
+						commit: {},
+					},
+				])
+				.get(
+					'/orgs/test-org/teams/test-maintainers/memberships/maintainer-user',
+				)
+				.reply(200, { state: 'active' })
+				.get('/orgs/test-org/teams/test-maintainers/memberships/security-user')
+				.reply(200, { state: 'active' })
+				.post(
+					'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+					(body) => {
+						review = body;
+						return true;
+					},
+				)
+				.reply(200);
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: testFixtures.deployment_protection_rule,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+			expect(review).toEqual({
+				environment_name: 'test-environment',
+				state: 'rejected',
+				comment: 'Rejected by policy: deployment vetoed by security-user.',
+			});
+		});
+
+		test('rejects deployment approved by commit rules when it is vetoed', async () => {
+			nock.cleanAll();
+			nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+				.reply(
+					200,
+					[
+						'policy:',
+						'  reject_unsatisfiable: true',
+						'  approval:',
+						'    - bot commits',
+						'  disapproval:',
+						'    requires:',
+						'      users: [security-user]',
+						'approval_rules:',
+						'  - name: bot commits',
+						'    if:',
+						'      only_has_authors_in:',
+						'        users: [test-bot]',
+						'    requires:',
+						'      count: 0',
+					].join('\n'),
+				)
+				.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+				.reply(404)
+				.post('/app/installations/12345678/access_tokens')
+				.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+			let review: any;
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.times(2)
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-bot' },
+					committer: { id: 123, login: 'test-bot' },
+					commit: {},
+				})
+				.get('/repos/test-org/test-repo/pulls/1/reviews')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						id: 1,
+						user: { id: 457, login: 'security-user' },
+						state: 'CHANGES_REQUESTED',
+						commit_id: 'test-sha',
+						submitted_at: '2023-01-01T00:00:00Z',
+					},
+				])
+				.get('/repos/test-org/test-repo/pulls/1/commits')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						sha: 'test-sha',
+						author: { id: 123, login: 'test-bot' },
+						committer: { id: 123, login: 'test-bot' },
+						commit: {},
+					},
+				])
+				.post(
+					'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+					(body) => {
+						review = body;
+						return true;
+					},
+				)
+				.reply(200);
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: testFixtures.deployment_protection_rule,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+			expect(review).toEqual({
+				environment_name: 'test-environment',
+				state: 'rejected',
+				comment: 'Rejected by policy: deployment vetoed by security-user.',
+			});
+		});
+
+		test('rejects deployment vetoed by a pull request comment', async () => {
+			nock.cleanAll();
+			nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+				.reply(
+					200,
+					[
+						'policy:',
+						'  reject_unsatisfiable: true',
+						'  approval:',
+						'    - bot commits',
+						'  disapproval:',
+						'    requires:',
+						'      users: [security-user]',
+						'    methods:',
+						'      issue_comment_patterns: [/block]',
+						'approval_rules:',
+						'  - name: bot commits',
+						'    if:',
+						'      only_has_authors_in:',
+						'        users: [test-bot]',
+						'    requires:',
+						'      count: 0',
+					].join('\n'),
+				)
+				.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+				.reply(404)
+				.post('/app/installations/12345678/access_tokens')
+				.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+			let review: any;
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.times(2)
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-bot' },
+					committer: { id: 123, login: 'test-bot' },
+					commit: {},
+				})
+				.get('/repos/test-org/test-repo/pulls/1/reviews')
+				.query({ per_page: 100 })
+				.reply(200, [])
+				.get('/repos/test-org/test-repo/issues/1/comments')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						id: 10,
+						user: { id: 457, login: 'security-user' },
+						body: '/block pending audit',
+						created_at: '2023-01-01T00:00:00Z',
+						updated_at: '2023-01-01T00:00:00Z',
+					},
+				])
+				.get('/repos/test-org/test-repo/pulls/1/commits')
+				.query({ per_page: 100 })
+				.reply(200, [
+					{
+						sha: 'test-sha',
+						author: { id: 123, login: 'test-bot' },
+						committer: { id: 123, login: 'test-bot' },
+						commit: {},
+					},
+				])
+				.post(
+					'/repos/test-org/test-repo/actions/runs/123/deployment_protection_rule',
+					(body) => {
+						review = body;
+						return true;
+					},
+				)
+				.reply(200);
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: testFixtures.deployment_protection_rule,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+			expect(review).toEqual({
+				environment_name: 'test-environment',
+				state: 'rejected',
+				comment: 'Rejected by policy: deployment vetoed by security-user.',
+			});
+		});
+	});
+
+	describe('policy check run', () => {
+		const pendingPayload = {
+			...testFixtures.deployment_protection_rule,
+			pull_requests: [],
+		};
+
+		beforeEach(() => {
+			nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+				.reply(200, basicApprovalFixture)
+				.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+				.reply(404)
+				.post('/app/installations/12345678/access_tokens')
+				.reply(200, { token: 'test', permissions: { issues: 'write' } });
+		});
+
+		test('creates a check run with the evaluation breakdown', async () => {
+			let checkRun: any;
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-user' },
+					committer: { id: 123, login: 'test-user' },
+					commit: {},
+				})
+				.get('/repos/test-org/test-repo/commits/test-sha/check-runs')
+				.query({ check_name: 'deploynaut policy', per_page: 100 })
+				.reply(200, { total_count: 0, check_runs: [] })
+				.post('/repos/test-org/test-repo/check-runs', (body) => {
+					checkRun = body;
+					return true;
+				})
+				.reply(201, { id: 42 });
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: pendingPayload,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+			expect(checkRun).toMatchObject({
+				name: 'deploynaut policy',
+				head_sha: 'test-sha',
+				status: 'completed',
+				conclusion: 'neutral',
+				output: {
+					title: '0 of 1 environments approved',
+					summary: '- ⏳ **test-environment**: waiting for approval',
+				},
+			});
+			expect(checkRun.output.text).toContain(
+				'| test-maintainers have approved | ⏳ pending | Needs 1 more approval from teams test-org/test-maintainers |',
+			);
+		});
+
+		test('updates the existing check run in place', async () => {
+			let checkRun: any;
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-user' },
+					committer: { id: 123, login: 'test-user' },
+					commit: {},
+				})
+				.get('/repos/test-org/test-repo/commits/test-sha/check-runs')
+				.query({ check_name: 'deploynaut policy', per_page: 100 })
+				.reply(200, {
+					total_count: 1,
+					check_runs: [
+						{
+							id: 42,
+							output: {
+								text: [
+									'<!-- deploynaut:environment=staging status=approved -->',
+									'### ✅ staging: approved',
+									'<!-- deploynaut:environment=test-environment status=approved -->',
+									'### ✅ test-environment: approved',
+								].join('\n'),
+							},
+						},
+					],
+				})
+				.patch('/repos/test-org/test-repo/check-runs/42', (body) => {
+					checkRun = body;
+					return true;
+				})
+				.reply(200, { id: 42 });
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: pendingPayload,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+			expect(checkRun).toMatchObject({
+				conclusion: 'neutral',
+				output: {
+					title: '1 of 2 environments approved',
+					summary: [
+						'- ✅ **staging**: approved',
+						'- ⏳ **test-environment**: waiting for approval',
+					].join('\n'),
+				},
+			});
+			expect(checkRun.output.text).toContain('### ✅ staging: approved');
+			expect(checkRun.output.text).toContain(
+				'### ⏳ test-environment: pending',
+			);
+			expect(checkRun.output.text).not.toContain(
+				'### ✅ test-environment: approved',
+			);
+		});
+
+		test('does not fail the deployment when the check run cannot be published', async () => {
+			const mock = nock('https://api.github.com')
+				.get('/repos/test-org/test-repo/commits/test-sha')
+				.reply(200, {
+					sha: 'test-sha',
+					author: { id: 123, login: 'test-user' },
+					committer: { id: 123, login: 'test-user' },
+					commit: {},
+				})
+				.get('/repos/test-org/test-repo/commits/test-sha/check-runs')
+				.query({ check_name: 'deploynaut policy', per_page: 100 })
+				.reply(403, { message: 'Resource not accessible by integration' });
+
+			await probot.receive({
+				name: 'deployment_protection_rule',
+				payload: pendingPayload,
+			});
+
+			expect(mock.pendingMocks()).toStrictEqual([]);
+		});
+	});
 });
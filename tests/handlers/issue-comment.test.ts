@@ -0,0 +1,556 @@
+import nock from 'nock';
+import { Probot, ProbotOctokit } from 'probot';
+import fs from 'fs';
+import path from 'path';
+import { describe, beforeEach, afterEach, test, expect } from 'vitest';
+import myProbotApp from '../../src/index.js';
+
+const privateKey = fs.readFileSync(
+	path.join(__dirname, '../fixtures/mock-cert.pem'),
+	'utf-8',
+);
+
+const commentCreatedAt = '2025-02-24T13:13:54Z';
+
+// Test fixtures
+const testFixtures = {
+	issue_comment: {
+		action: 'created',
+		comment: {
+			id: 456,
+			body: '/deploy',
+			// workflows must be created before this comment was created
+			created_at: commentCreatedAt,
+			updated_at: commentCreatedAt,
+			user: {
+				login: 'test-reviewer',
+				id: 789,
+			},
+			html_url:
+				'https://github.com/test-org/test-repo/pull/123#issuecomment-456',
+		},
+		issue: {
+			// eslint-disable-next-line id-denylist
+			number: 123,
+			pull_request: {
+				url: 'https://api.github.com/repos/test-org/test-repo/pulls/123',
+			},
+		},
+		installation: { id: 12345678 },
+		repository: {
+			owner: {
+				login: 'test-org',
+			},
+			name: 'test-repo',
+		},
+	},
+	pull_request: {
+		// eslint-disable-next-line id-denylist
+		number: 123,
+		head: {
+			ref: 'test-branch',
+			sha: 'test-sha',
+		},
+		base: {
+			ref: 'main',
+		},
+		labels: [],
+	},
+	workflow_run: {
+		id: 1234,
+		actor: { id: 123 },
+		head_sha: 'test-sha',
+		created_at: new Date(
+			new Date(commentCreatedAt).getTime() - 10 * 60 * 1000,
+		).toISOString(),
+	},
+	commit: {
+		sha: 'test-sha',
+		author: { id: 123, login: 'test-user' },
+		committer: { id: 123, login: 'test-user' },
+		commit: {
+			verification: {
+				verified: true,
+				reason: 'valid-signature',
+			},
+		},
+	},
+};
+
+// Load the policy config fixtures
+const issueCommentFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/issue-comment-patterns.yml'),
+	'utf-8',
+);
+
+const issueCommentDisapprovalFixture = fs.readFileSync(
+	path.join(
+		__dirname,
+		'../fixtures/policy-configs/issue-comment-disapproval.yml',
+	),
+	'utf-8',
+);
+
+const basicApprovalFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/basic-approval-only.yml'),
+	'utf-8',
+);
+
+describe('Issue Comment Handler', () => {
+	let probot: any;
+
+	beforeEach(() => {
+		nock.disableNetConnect();
+
+		probot = new Probot({
+			appId: 456,
+			privateKey,
+			Octokit: ProbotOctokit.defaults({
+				retry: { enabled: false },
+				throttle: { enabled: false },
+			}),
+		});
+		probot.load(myProbotApp);
+	});
+
+	afterEach(() => {
+		nock.cleanAll();
+		nock.enableNetConnect();
+	});
+
+	const mockConfig = (fixture: string) =>
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, fixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+	test('approves workflow with a maintainer deploy comment', async () => {
+		mockConfig(issueCommentFixture);
+
+		let review: any;
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123')
+			.reply(200, testFixtures.pull_request)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/comments/456')
+			.reply(200, testFixtures.issue_comment.comment)
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query({ status: 'waiting', branch: 'test-branch', per_page: 100 })
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => {
+					review = body;
+					return true;
+				},
+			)
+			.reply(200)
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: testFixtures.issue_comment,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(review).toEqual({
+			environment_name: 'test',
+			state: 'approved',
+			comment: 'Approved by policy',
+		});
+	});
+
+	test('only approves environments named in the comment', async () => {
+		mockConfig(issueCommentFixture);
+
+		const reviews: any[] = [];
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123')
+			.reply(200, testFixtures.pull_request)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/comments/456')
+			.reply(200, {
+				...testFixtures.issue_comment.comment,
+				body: '/deploy staging',
+			})
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(3)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'staging' },
+					current_user_can_approve: true,
+				},
+				{
+					environment: { name: 'production' },
+					current_user_can_approve: true,
+				},
+			])
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => {
+					reviews.push(body);
+					return true;
+				},
+			)
+			.reply(200)
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: {
+				...testFixtures.issue_comment,
+				comment: {
+					...testFixtures.issue_comment.comment,
+					body: '/deploy staging',
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(reviews).toEqual([
+			{
+				environment_name: 'staging',
+				state: 'approved',
+				comment: 'Approved by policy',
+			},
+		]);
+	});
+
+	test('counts reviews and comments towards the same rule', async () => {
+		mockConfig(
+			[
+				'policy:',
+				'  approval:',
+				'    - two maintainers',
+				'approval_rules:',
+				'  - name: two maintainers',
+				'    requires:',
+				'      count: 2',
+				'      teams: [test-org/test-maintainers]',
+				'    methods:',
+				'      github_review: true',
+				"      issue_comment_patterns: ['/deploy']",
+			].join('\n'),
+		);
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123')
+			.reply(200, testFixtures.pull_request)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 455,
+					user: { id: 790, login: 'other-reviewer' },
+					state: 'APPROVED',
+					commit_id: 'test-sha',
+					submitted_at: '2025-02-24T13:00:00Z',
+				},
+			])
+			.get('/repos/test-org/test-repo/issues/comments/456')
+			.reply(200, testFixtures.issue_comment.comment)
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/other-reviewer')
+			.reply(200, { state: 'active' })
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' })
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => body.state === 'approved',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: testFixtures.issue_comment,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('ignores comments on issues', async () => {
+		const mock = nock('https://api.github.com');
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: {
+				...testFixtures.issue_comment,
+				issue: {
+					// eslint-disable-next-line id-denylist
+					number: 123,
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('ignores comments when no rule accepts them', async () => {
+		mockConfig(basicApprovalFixture);
+		const mock = nock('https://api.github.com');
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: testFixtures.issue_comment,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('does not approve when an earlier comment vetoes the deployment', async () => {
+		mockConfig(issueCommentDisapprovalFixture);
+
+		let review: any;
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123')
+			.reply(200, testFixtures.pull_request)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/comments/456')
+			.reply(200, testFixtures.issue_comment.comment)
+			// The veto was posted before the workflow run, so it could not approve it
+			.get('/repos/test-org/test-repo/issues/123/comments')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 455,
+					body: '/block until the incident is resolved',
+					created_at: '2025-02-24T12:00:00Z',
+					updated_at: '2025-02-24T12:00:00Z',
+					user: { login: 'security-lead', id: 321 },
+				},
+				testFixtures.issue_comment.comment,
+			])
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query({ status: 'waiting', branch: 'test-branch', per_page: 100 })
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			// The commenter is a maintainer, so only the veto prevents the approval
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.optionally()
+			.reply(200, { state: 'active' })
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => {
+					review = body;
+					return true;
+				},
+			)
+			.optionally()
+			.reply(200);
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: testFixtures.issue_comment,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(review).toBeUndefined();
+	});
+
+	test('does not approve with an edited comment', async () => {
+		mockConfig(issueCommentFixture);
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/pulls/123')
+			.reply(200, testFixtures.pull_request)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/comments/456')
+			.reply(200, {
+				...testFixtures.issue_comment.comment,
+				updated_at: '2025-02-24T13:14:54Z',
+			})
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
+			// The commenter is a maintainer, so only the edit prevents the approval
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.optionally()
+			.reply(200, { state: 'active' });
+
+		// The payload holds the comment as it was created
+		await probot.receive({
+			name: 'issue_comment',
+			payload: testFixtures.issue_comment,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('does not approve with a comment by the commit author', async () => {
+		mockConfig(issueCommentFixture);
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/pulls/123')
+			.reply(200, testFixtures.pull_request)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/comments/456')
+			.reply(200, {
+				...testFixtures.issue_comment.comment,
+				user: { login: 'test-user', id: 123 },
+			})
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit);
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: {
+				...testFixtures.issue_comment,
+				comment: {
+					...testFixtures.issue_comment.comment,
+					user: { login: 'test-user', id: 123 },
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('skips workflows created within one minute of the comment', async () => {
+		mockConfig(issueCommentFixture);
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123')
+			.reply(200, testFixtures.pull_request)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/comments/456')
+			.reply(200, testFixtures.issue_comment.comment)
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [
+					{
+						...testFixtures.workflow_run,
+						// 30 seconds before the comment was created
+						created_at: new Date(
+							new Date(commentCreatedAt).getTime() - 30 * 1000,
+						).toISOString(),
+					},
+				],
+			});
+
+		await probot.receive({
+			name: 'issue_comment',
+			payload: testFixtures.issue_comment,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+});
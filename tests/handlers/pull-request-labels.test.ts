@@ -0,0 +1,341 @@
+import nock from 'nock';
+import { Probot, ProbotOctokit } from 'probot';
+import fs from 'fs';
+import path from 'path';
+import { describe, beforeEach, afterEach, test, expect } from 'vitest';
+import myProbotApp from '../../src/index.js';
+
+const privateKey = fs.readFileSync(
+	path.join(__dirname, '../fixtures/mock-cert.pem'),
+	'utf-8',
+);
+
+const labeledAt = '2025-02-24T13:13:54Z';
+
+// Test fixtures
+const testFixtures = {
+	pull_request_labeled: {
+		action: 'labeled',
+		label: { name: 'hotfix' },
+		pull_request: {
+			// eslint-disable-next-line id-denylist
+			number: 123,
+			head: {
+				ref: 'test-branch',
+				sha: 'test-sha',
+			},
+			base: {
+				ref: 'main',
+			},
+			labels: [{ name: 'hotfix' }],
+			// workflows must be created before the labels were changed
+			updated_at: labeledAt,
+		},
+		installation: { id: 12345678 },
+		repository: {
+			owner: {
+				login: 'test-org',
+			},
+			name: 'test-repo',
+		},
+	},
+	workflow_run: {
+		id: 1234,
+		actor: { id: 123 },
+		head_sha: 'test-sha',
+		created_at: new Date(
+			new Date(labeledAt).getTime() - 10 * 60 * 1000,
+		).toISOString(),
+	},
+	commit: {
+		sha: 'test-sha',
+		author: { id: 123, login: 'test-user' },
+		committer: { id: 123, login: 'test-user' },
+		commit: {
+			verification: {
+				verified: true,
+				reason: 'valid-signature',
+			},
+		},
+	},
+	review: {
+		id: 456,
+		user: { id: 789, login: 'test-reviewer' },
+		state: 'APPROVED',
+		body: '',
+		commit_id: 'test-sha',
+		submitted_at: '2025-02-24T12:00:00Z',
+	},
+};
+
+// Load the policy config fixtures
+const labelsFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/labels.yml'),
+	'utf-8',
+);
+
+const basicApprovalFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/basic-approval-only.yml'),
+	'utf-8',
+);
+
+// Labels decide whether comments can approve the deployment
+const labelCommentConfig = [
+	'policy:',
+	'  approval:',
+	'    - hotfix deploy comment',
+	'approval_rules:',
+	'  - name: hotfix deploy comment',
+	'    if:',
+	'      labels:',
+	'        has_labels: [hotfix]',
+	'    requires:',
+	'      count: 1',
+	'      teams: [test-org/test-maintainers]',
+	'    methods:',
+	"      issue_comment_patterns: ['/deploy']",
+].join('\n');
+
+describe('Pull Request Labels Handler', () => {
+	let probot: any;
+
+	beforeEach(() => {
+		nock.disableNetConnect();
+
+		probot = new Probot({
+			appId: 456,
+			privateKey,
+			Octokit: ProbotOctokit.defaults({
+				retry: { enabled: false },
+				throttle: { enabled: false },
+			}),
+		});
+		probot.load(myProbotApp);
+	});
+
+	afterEach(() => {
+		nock.cleanAll();
+		nock.enableNetConnect();
+	});
+
+	const mockConfig = (fixture: string) =>
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, fixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+	test('approves waiting workflows when a label satisfies the policy', async () => {
+		mockConfig(labelsFixture);
+
+		let review: any;
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.review])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query({ status: 'waiting', branch: 'test-branch', per_page: 100 })
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => {
+					review = body;
+					return true;
+				},
+			)
+			.reply(200)
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request_labeled,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(review).toEqual({
+			environment_name: 'test',
+			state: 'approved',
+			comment: 'Approved by policy',
+		});
+	});
+
+	test('does not approve when the labels do not satisfy the policy', async () => {
+		mockConfig(labelsFixture);
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.review])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query({ status: 'waiting', branch: 'test-branch', per_page: 100 })
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			]);
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: {
+				...testFixtures.pull_request_labeled,
+				action: 'unlabeled',
+				pull_request: {
+					...testFixtures.pull_request_labeled.pull_request,
+					labels: [],
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('approves waiting workflows with an earlier deploy comment', async () => {
+		mockConfig(labelCommentConfig);
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/123/comments')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 321,
+					user: { id: 789, login: 'test-reviewer' },
+					body: '/deploy',
+					// Five minutes after the workflow run was created
+					created_at: new Date(
+						new Date(labeledAt).getTime() - 5 * 60 * 1000,
+					).toISOString(),
+					updated_at: new Date(
+						new Date(labeledAt).getTime() - 5 * 60 * 1000,
+					).toISOString(),
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query({ status: 'waiting', branch: 'test-branch', per_page: 100 })
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' })
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => body.state === 'approved',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request_labeled,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('ignores comments created before the workflow run', async () => {
+		mockConfig(labelCommentConfig);
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/123/comments')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 321,
+					user: { id: 789, login: 'test-reviewer' },
+					body: '/deploy',
+					// Before the workflow run was created
+					created_at: '2025-02-24T12:00:00Z',
+					updated_at: '2025-02-24T12:00:00Z',
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query({ status: 'waiting', branch: 'test-branch', per_page: 100 })
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.optionally()
+			.reply(200, { state: 'active' });
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request_labeled,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('ignores label changes when no rule has a label condition', async () => {
+		const mock = mockConfig(basicApprovalFixture);
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request_labeled,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+});
@@ -54,6 +54,7 @@ interface PullRequestReview {
 		base: {
 			sha: string;
 		};
+		labels: Array<{ name: string }>;
 		commits: Commit[];
 	};
 	repository: {
@@ -98,6 +99,7 @@ const testFixtures: TestFixtures = {
 			base: {
 				sha: 'base-sha',
 			},
+			labels: [],
 			commits: [
 				{
 					sha: 'test-sha',
@@ -159,6 +161,11 @@ const deployCommentFixture = fs.readFileSync(
 	'utf-8',
 );
 
+const disapprovalFixture = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/disapproval.yml'),
+	'utf-8',
+);
+
 const orgApprovalFixture = fs.readFileSync(
 	path.join(__dirname, '../fixtures/policy-configs/org-approval-only.yml'),
 	'utf-8',
@@ -191,13 +198,19 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [
 					{
 						...testFixtures.workflow_run,
@@ -212,15 +225,10 @@ describe('Pull Request Review Handler', () => {
 				],
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
-			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.reply(200, testFixtures.commit);
 
 		await probot.receive({
 			name: 'pull_request_review',
@@ -235,25 +243,26 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
-			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.reply(200, testFixtures.commit);
 
 		await probot.receive({
 			name: 'pull_request_review',
@@ -274,15 +283,21 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, orgApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
@@ -297,16 +312,12 @@ describe('Pull Request Review Handler', () => {
 			)
 			.reply(200)
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/members')
-			.times(2)
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.get('/orgs/test-org/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
 
 		const payload = {
 			...testFixtures.pull_request_review,
@@ -329,15 +340,21 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, simpleReviewFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
@@ -352,16 +369,12 @@ describe('Pull Request Review Handler', () => {
 			)
 			.reply(200)
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.times(2)
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
 
 		const payload = {
 			...testFixtures.pull_request_review,
@@ -379,20 +392,188 @@ describe('Pull Request Review Handler', () => {
 		expect(mock.pendingMocks()).toStrictEqual([]);
 	});
 
+	test('counts earlier reviews towards the required approvals', async () => {
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(
+				200,
+				[
+					'policy:',
+					'  approval:',
+					'    - two maintainers',
+					'approval_rules:',
+					'  - name: two maintainers',
+					'    requires:',
+					'      count: 2',
+					'      teams: [test-org/test-maintainers]',
+					'    methods:',
+					'      github_review: true',
+				].join('\n'),
+			)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 455,
+					user: { id: 790, login: 'other-reviewer' },
+					state: 'APPROVED',
+					commit_id: 'test-sha',
+					submitted_at: '2025-02-24T12:00:00Z',
+				},
+			])
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/other-reviewer')
+			.reply(200, { state: 'active' })
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' })
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => body.state === 'approved',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'pull_request_review',
+			payload: {
+				...testFixtures.pull_request_review,
+				review: {
+					...testFixtures.pull_request_review.review,
+					state: 'APPROVED',
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('counts earlier deploy comments together with the review', async () => {
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(
+				200,
+				[
+					'policy:',
+					'  approval:',
+					'    - two maintainers',
+					'approval_rules:',
+					'  - name: two maintainers',
+					'    requires:',
+					'      count: 2',
+					'      teams: [test-org/test-maintainers]',
+					'    methods:',
+					'      github_review: true',
+					"      issue_comment_patterns: ['/deploy']",
+				].join('\n'),
+			)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/issues/123/comments')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 321,
+					user: { id: 790, login: 'other-reviewer' },
+					body: '/deploy',
+					// Five minutes after the workflow run was created
+					created_at: new Date(
+						new Date(reviewSubmittedAt).getTime() - 5 * 60 * 1000,
+					).toISOString(),
+				},
+			])
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/other-reviewer')
+			.reply(200, { state: 'active' })
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' })
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+				(body) => body.state === 'approved',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'pull_request_review',
+			payload: {
+				...testFixtures.pull_request_review,
+				review: {
+					...testFixtures.pull_request_review.review,
+					state: 'APPROVED',
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
 	test('approves workflow when review state is COMMENTED with deploy pattern', async () => {
 		// Use deploy comment patterns fixture for COMMENTED with pattern test
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, deployCommentFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
@@ -407,23 +588,172 @@ describe('Pull Request Review Handler', () => {
 			)
 			.reply(200)
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/teams/test-maintainers/members')
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
+
+		const payload = {
+			...testFixtures.pull_request_review,
+			review: {
+				...testFixtures.pull_request_review.review,
+				state: 'COMMENTED',
+				body: '/deploy this PR',
+			},
+		};
+
+		await probot.receive({
+			name: 'pull_request_review',
+			payload,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('approves deployments requested during a time window after it closes', async () => {
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(
+				200,
+				[
+					'policy:',
+					'  approval:',
+					'    - business hours',
+					'approval_rules:',
+					'  - name: business hours',
+					'    if:',
+					'      time_window:',
+					'        days: [monday, tuesday, wednesday, thursday]',
+					"        start: '09:00'",
+					"        end: '16:00'",
+					'        timezone: Europe/Athens',
+					'    requires:',
+					'      count: 1',
+					'      teams: [test-org/test-maintainers]',
+					'    methods:',
+					'      github_review: true',
+				].join('\n'),
+			)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		// Requested on Thursday at 10:00 in Athens, and approved at 17:00
+		const requestedAt = '2025-01-09T08:00:00Z';
+		const approvedAt = '2025-01-09T15:00:00Z';
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
 			.times(2)
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [
+					{ ...testFixtures.workflow_run, created_at: requestedAt },
+				],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
 			.reply(200, [
 				{
-					login: 'test-reviewer',
+					environment: { name: 'production' },
+					current_user_can_approve: true,
 				},
-			]);
+			])
+			.get('/repos/test-org/test-repo/deployments')
+			.query({ sha: 'test-sha', environment: 'production', per_page: 100 })
+			.reply(200, [{ id: 1, created_at: requestedAt }])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' })
+			.post(
+				'/repos/test-org/test-repo/actions/runs/1234/deployment_protection_rule',
+			)
+			.reply(200);
+
+		await probot.receive({
+			name: 'pull_request_review',
+			payload: {
+				...testFixtures.pull_request_review,
+				review: {
+					...testFixtures.pull_request_review.review,
+					state: 'APPROVED',
+					submitted_at: approvedAt,
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('rejects workflow when an earlier review vetoes the deployment', async () => {
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, disapprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [
+				{
+					id: 455,
+					user: { id: 790, login: 'security-reviewer' },
+					state: 'CHANGES_REQUESTED',
+					commit_id: 'test-sha',
+					submitted_at: '2025-02-24T12:00:00Z',
+				},
+				{
+					id: 456,
+					user: { id: 789, login: 'test-reviewer' },
+					state: 'APPROVED',
+					commit_id: 'test-sha',
+					submitted_at: reviewSubmittedAt,
+				},
+			])
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' })
+			.get(
+				'/orgs/test-org/teams/test-maintainers/memberships/security-reviewer',
+			)
+			.reply(200, { state: 'active' });
 
 		const payload = {
 			...testFixtures.pull_request_review,
 			review: {
 				...testFixtures.pull_request_review.review,
-				state: 'COMMENTED',
-				body: '/deploy this PR',
+				state: 'APPROVED',
 			},
 		};
 
@@ -440,11 +770,32 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit);
@@ -470,11 +821,32 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, deployCommentFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit);
@@ -501,11 +873,32 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit);
@@ -534,11 +927,32 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, {
+				total_count: 1,
+				workflow_runs: [testFixtures.workflow_run],
+			})
+			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
+			.reply(200, [
+				{
+					environment: { name: 'test' },
+					current_user_can_approve: true,
+				},
+			])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit);
@@ -567,13 +981,19 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [
 					{
 						...testFixtures.workflow_run,
@@ -582,15 +1002,10 @@ describe('Pull Request Review Handler', () => {
 				],
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
-			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.reply(200, testFixtures.commit);
 
 		await probot.receive({
 			name: 'pull_request_review',
@@ -600,32 +1015,114 @@ describe('Pull Request Review Handler', () => {
 		expect(mock.pendingMocks()).toStrictEqual([]);
 	});
 
+	test('updates the policy check of deployed environments when no workflow run is waiting', async () => {
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.reply(200, disapprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { issues: 'write' } });
+
+		const deployment = {
+			environment: 'test',
+			event: 'pull_request',
+			ref: 'test-branch',
+			commit: { sha: 'test-sha' },
+		};
+		let checkRun: any;
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
+			.reply(200, [testFixtures.commit])
+			.get('/repos/test-org/test-repo/commits/test-sha')
+			.reply(200, testFixtures.commit)
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
+			.get('/repos/test-org/test-repo/actions/runs')
+			.query(true)
+			.reply(200, { total_count: 0, workflow_runs: [] })
+			.get('/repos/test-org/test-repo/commits/test-sha/check-runs')
+			.query({ check_name: 'deploynaut policy', per_page: 100 })
+			.times(2)
+			.reply(200, {
+				total_count: 1,
+				check_runs: [
+					{
+						id: 42,
+						output: {
+							text: [
+								`<!-- deploynaut:environment=test status=approved deployment=${encodeURIComponent(JSON.stringify(deployment))} -->`,
+								'### ✅ test: approved',
+							].join('\n'),
+						},
+					},
+				],
+			})
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' })
+			.patch('/repos/test-org/test-repo/check-runs/42', (body) => {
+				checkRun = body;
+				return true;
+			})
+			.reply(200, { id: 42 });
+
+		await probot.receive({
+			name: 'pull_request_review',
+			payload: {
+				...testFixtures.pull_request_review,
+				review: {
+					...testFixtures.pull_request_review.review,
+					state: 'CHANGES_REQUESTED',
+				},
+				pull_request: {
+					...testFixtures.pull_request_review.pull_request,
+					head: {
+						...testFixtures.pull_request_review.pull_request.head,
+						sha: 'test-sha',
+					},
+				},
+			},
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(checkRun).toMatchObject({
+			conclusion: 'failure',
+			output: { summary: '- ❌ **test**: rejected' },
+		});
+		expect(checkRun.output.text).toContain(
+			`deployment=${encodeURIComponent(JSON.stringify(deployment))}`,
+		);
+	});
+
 	test('rejects if there are no pending deployments associated with the workflow run', async () => {
 		// Use basic approval fixture for deployment validation test (needs comment patterns for COMMENTED reviews)
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
 			.reply(200, [])
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
-			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.reply(200, testFixtures.commit);
 
 		await probot.receive({
 			name: 'pull_request_review',
@@ -640,13 +1137,19 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
@@ -654,15 +1157,10 @@ describe('Pull Request Review Handler', () => {
 				{ environment: { name: 'test' }, current_user_can_approve: false },
 			])
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
-			.reply(200, testFixtures.commit)
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.reply(200, testFixtures.commit);
 
 		await probot.receive({
 			name: 'pull_request_review',
@@ -676,16 +1174,23 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					...testFixtures.commit,
@@ -699,12 +1204,6 @@ describe('Pull Request Review Handler', () => {
 					author: null,
 				},
 			])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			])
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
 			.reply(200, []);
 
@@ -720,16 +1219,23 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					...testFixtures.commit,
@@ -743,12 +1249,6 @@ describe('Pull Request Review Handler', () => {
 					committer: null,
 				},
 			])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			])
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
 			.reply(200, []);
 
@@ -764,16 +1264,23 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, basicApprovalFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [
 				{
 					...testFixtures.commit,
@@ -793,12 +1300,6 @@ describe('Pull Request Review Handler', () => {
 					},
 				},
 			])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			])
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
 			.reply(200, []);
 
@@ -814,15 +1315,21 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, simpleReviewFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
@@ -839,16 +1346,12 @@ describe('Pull Request Review Handler', () => {
 				message: 'There was a problem approving one of the gates',
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, [testFixtures.commit])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.times(2)
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
 
 		const payload = {
 			...testFixtures.pull_request_review,
@@ -870,15 +1373,21 @@ describe('Pull Request Review Handler', () => {
 		nock('https://api.github.com')
 			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
 			.reply(200, simpleReviewFixture)
+			.get('/repos/test-org/.github/contents/.github%2Fdeploynaut.yml')
+			.reply(404)
 			.post('/app/installations/12345678/access_tokens')
 			.reply(200, { token: 'test', permissions: { issues: 'write' } });
 
 		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/reviews')
+			.query({ per_page: 100 })
+			.reply(200, [])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, testFixtures.commit)
 			.get('/repos/test-org/test-repo/actions/runs')
 			.query(true)
 			.reply(200, {
+				total_count: 1,
 				workflow_runs: [testFixtures.workflow_run],
 			})
 			.get('/repos/test-org/test-repo/actions/runs/1234/pending_deployments')
@@ -895,16 +1404,12 @@ describe('Pull Request Review Handler', () => {
 				message: 'Internal server error',
 			})
 			.get('/repos/test-org/test-repo/pulls/123/commits')
+			.query({ per_page: 100 })
 			.reply(200, [testFixtures.commit])
 			.get('/repos/test-org/test-repo/commits/test-sha')
 			.reply(200, [testFixtures.commit])
-			.get('/orgs/test-org/teams/test-maintainers/members')
-			.times(2)
-			.reply(200, [
-				{
-					login: 'test-reviewer',
-				},
-			]);
+			.get('/orgs/test-org/teams/test-maintainers/memberships/test-reviewer')
+			.reply(200, { state: 'active' });
 
 		const payload = {
 			...testFixtures.pull_request_review,
@@ -0,0 +1,283 @@
+import nock from 'nock';
+import { Probot, ProbotOctokit } from 'probot';
+import fs from 'fs';
+import path from 'path';
+import { describe, beforeEach, afterEach, test, expect } from 'vitest';
+import myProbotApp from '../../src/index.js';
+
+const privateKey = fs.readFileSync(
+	path.join(__dirname, '../fixtures/mock-cert.pem'),
+	'utf-8',
+);
+
+const validConfig = fs.readFileSync(
+	path.join(__dirname, '../fixtures/policy-configs/basic-approval-only.yml'),
+	'utf-8',
+);
+
+const invalidConfig = `policy:
+  approval:
+    - authored-by-bot
+
+approval_rules:
+  - name: authored-by-bot
+    if:
+      authored_by:
+        users: ['renovate[bot]']
+    requires:
+      count: -1
+`;
+
+const testFixtures = {
+	pull_request: {
+		action: 'synchronize',
+		pull_request: {
+			// eslint-disable-next-line id-denylist
+			number: 123,
+			head: {
+				ref: 'test-branch',
+				sha: 'test-sha',
+			},
+			base: {
+				ref: 'master',
+				sha: 'base-sha',
+			},
+		},
+		installation: { id: 12345678 },
+		repository: {
+			owner: {
+				login: 'test-org',
+			},
+			name: 'test-repo',
+		},
+	},
+};
+
+const fileContent = (content: string) => ({
+	type: 'file',
+	encoding: 'base64',
+	content: Buffer.from(content).toString('base64'),
+});
+
+describe('Pull Request Handler', () => {
+	let probot: any;
+
+	beforeEach(() => {
+		nock.disableNetConnect();
+
+		probot = new Probot({
+			appId: 456,
+			privateKey,
+			Octokit: ProbotOctokit.defaults({
+				retry: { enabled: false },
+				throttle: { enabled: false },
+			}),
+		});
+		probot.load(myProbotApp);
+
+		nock('https://api.github.com')
+			.post('/app/installations/12345678/access_tokens')
+			.reply(200, { token: 'test', permissions: { checks: 'write' } });
+	});
+
+	afterEach(() => {
+		nock.cleanAll();
+		nock.enableNetConnect();
+	});
+
+	const mockChangedFiles = (files: object[]) =>
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/pulls/123/files')
+			.query({ per_page: 100 })
+			.reply(200, files);
+
+	test('publishes a failing check run with annotations for an invalid configuration', async () => {
+		let checkRun: any;
+		const mock = mockChangedFiles([
+			{ filename: 'README.md', status: 'modified' },
+			{ filename: '.github/deploynaut.yml', status: 'modified' },
+		])
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.query({ ref: 'test-sha' })
+			.reply(200, fileContent(invalidConfig))
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.query({ ref: 'base-sha' })
+			.reply(200, fileContent(validConfig))
+			.post('/repos/test-org/test-repo/check-runs', (body) => {
+				checkRun = body;
+				return true;
+			})
+			.reply(201, { id: 1 });
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(checkRun).toMatchObject({
+			name: 'deploynaut config',
+			head_sha: 'test-sha',
+			status: 'completed',
+			conclusion: 'failure',
+			output: {
+				title: '2 problems found in .github/deploynaut.yml',
+				annotations: [
+					{
+						path: '.github/deploynaut.yml',
+						start_line: 8,
+						end_line: 8,
+						annotation_level: 'failure',
+						title: 'approval_rules[0].if.authored_by',
+						message: 'unknown key "authored_by"',
+					},
+					{
+						path: '.github/deploynaut.yml',
+						start_line: 11,
+						end_line: 11,
+						annotation_level: 'failure',
+						title: 'approval_rules[0].requires.count',
+						message: 'must be at least 0',
+					},
+				],
+			},
+		});
+	});
+
+	test('publishes a successful check run for a valid configuration', async () => {
+		let checkRun: any;
+		const mock = mockChangedFiles([
+			{ filename: '.github/deploynaut.yml', status: 'modified' },
+		])
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.query({ ref: 'test-sha' })
+			.reply(
+				200,
+				fileContent(`# Reviewed by the security team\n${validConfig}`),
+			)
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.query({ ref: 'base-sha' })
+			.reply(200, fileContent(validConfig))
+			.post('/repos/test-org/test-repo/check-runs', (body) => {
+				checkRun = body;
+				return true;
+			})
+			.reply(201, { id: 1 });
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: { ...testFixtures.pull_request, action: 'opened' },
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(checkRun).toMatchObject({
+			conclusion: 'success',
+			output: {
+				title: 'Configuration is valid',
+				text: expect.stringContaining('No changes to the effective policy.'),
+				annotations: [],
+			},
+		});
+	});
+
+	test('compares new configurations with manual approval', async () => {
+		let checkRun: any;
+		const mock = mockChangedFiles([
+			{ filename: '.github/deploynaut.yml', status: 'added' },
+		])
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.query({ ref: 'test-sha' })
+			.reply(200, fileContent(validConfig))
+			.post('/repos/test-org/test-repo/check-runs', (body) => {
+				checkRun = body;
+				return true;
+			})
+			.reply(201, { id: 1 });
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(checkRun).toMatchObject({
+			conclusion: 'neutral',
+			output: {
+				text: expect.stringContaining(
+					'`production` can now be approved with 1 approval, it previously required manual approval',
+				),
+			},
+		});
+	});
+
+	test('skips pull requests that do not change the configuration', async () => {
+		const mock = mockChangedFiles([
+			{ filename: 'src/index.ts', status: 'modified' },
+		]);
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('skips pull requests that remove the configuration', async () => {
+		const mock = mockChangedFiles([
+			{ filename: '.github/deploynaut.yml', status: 'removed' },
+		]);
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('ignores other pull request actions', async () => {
+		const mock = nock('https://api.github.com');
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: { ...testFixtures.pull_request, action: 'closed' },
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('flags changes that weaken the protection of production', async () => {
+		let checkRun: any;
+		const mock = mockChangedFiles([
+			{ filename: '.github/deploynaut.yml', status: 'modified' },
+		])
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.query({ ref: 'test-sha' })
+			.reply(200, fileContent(validConfig.replace('count: 1', 'count: 0')))
+			.get('/repos/test-org/test-repo/contents/.github%2Fdeploynaut.yml')
+			.query({ ref: 'base-sha' })
+			.reply(200, fileContent(validConfig))
+			.post('/repos/test-org/test-repo/check-runs', (body) => {
+				checkRun = body;
+				return true;
+			})
+			.reply(201, { id: 1 });
+
+		await probot.receive({
+			name: 'pull_request',
+			payload: testFixtures.pull_request,
+		});
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(checkRun).toMatchObject({
+			conclusion: 'neutral',
+			output: {
+				title: 'Configuration weakens protection of production',
+				text: expect.stringContaining(
+					'- ⚠️ **test-maintainers have approved**: Required approvals lowered from 1 to 0 (weakens protection of production)',
+				),
+			},
+		});
+	});
+});
@@ -0,0 +1,81 @@
+import nock from 'nock';
+import { ProbotOctokit } from 'probot';
+import { describe, beforeEach, afterEach, test, expect } from 'vitest';
+import { GitHubIdentityProvider } from '../../src/identity/github.js';
+
+describe('GitHubIdentityProvider', () => {
+	let context: any;
+
+	beforeEach(() => {
+		nock.disableNetConnect();
+		context = {
+			octokit: new (ProbotOctokit.defaults({
+				retry: { enabled: false },
+				throttle: { enabled: false },
+			}))(),
+			payload: { installation: { id: 1 } },
+			repo: (params: object) => ({
+				owner: 'test-org',
+				repo: 'test-repo',
+				...params,
+			}),
+		};
+	});
+
+	afterEach(() => {
+		nock.cleanAll();
+		nock.enableNetConnect();
+	});
+
+	test('looks up the repository permission once per user', async () => {
+		const mock = nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/collaborators/test-user/permission')
+			.reply(200, { permission: 'write', role_name: 'maintain' });
+
+		const identity = new GitHubIdentityProvider(context);
+		const permissions = await Promise.all([
+			identity.getPermission('test-user'),
+			identity.getPermission('Test-User'),
+		]);
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(permissions).toEqual(['maintain', 'maintain']);
+		expect(identity.stats).toEqual({ hits: 1, misses: 1 });
+	});
+
+	test('falls back to the base permission for custom roles', async () => {
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/collaborators/test-user/permission')
+			.reply(200, { permission: 'write', role_name: 'deployer' });
+
+		const identity = new GitHubIdentityProvider(context);
+
+		expect(await identity.getPermission('test-user')).toBe('write');
+	});
+
+	test('reports users who are not collaborators as having no permission', async () => {
+		nock('https://api.github.com')
+			.get('/repos/test-org/test-repo/collaborators/test-user/permission')
+			.reply(404, { message: 'Not Found' });
+
+		const identity = new GitHubIdentityProvider(context);
+
+		expect(await identity.getPermission('test-user')).toBe('none');
+	});
+
+	test('delegates membership checks to the membership resolver', async () => {
+		nock('https://api.github.com')
+			.get('/orgs/test-org/teams/test-team/memberships/test-user')
+			.reply(200, { state: 'active' })
+			.get('/orgs/test-org/memberships/test-user')
+			.reply(404, { message: 'Not Found' });
+
+		const identity = new GitHubIdentityProvider(context);
+
+		expect(await identity.isUserInTeam('test-user', 'test-org/test-team')).toBe(
+			true,
+		);
+		expect(await identity.isUserInOrg('test-user', 'test-org')).toBe(false);
+		expect(identity.stats).toEqual({ hits: 0, misses: 2 });
+	});
+});
@@ -0,0 +1,71 @@
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import {
+	StaticIdentityProvider,
+	loadStaticIdentityProvider,
+	parseStaticIdentity,
+} from '../../src/identity/static.js';
+import { hasPermission } from '../../src/identity/provider.js';
+
+const fixture = path.join(__dirname, '../fixtures/identity/static.yml');
+
+describe('StaticIdentityProvider', () => {
+	test('answers lookups from a YAML file', async () => {
+		const identity = await loadStaticIdentityProvider(fixture);
+
+		expect(await identity.isUserInOrg('bob', 'test-org')).toBe(true);
+		expect(await identity.isUserInOrg('carol', 'test-org')).toBe(false);
+		expect(
+			await identity.isUserInTeam('alice', 'test-org/release-managers'),
+		).toBe(true);
+		expect(
+			await identity.isUserInTeam('bob', 'test-org/release-managers'),
+		).toBe(false);
+		expect(await identity.getPermission('alice')).toBe('admin');
+		expect(await identity.getPermission('carol')).toBe('none');
+	});
+
+	test('matches logins, organizations and teams case-insensitively', async () => {
+		const identity = new StaticIdentityProvider({
+			organizations: { 'Test-Org': ['Alice'] },
+			teams: { 'Test-Org/Admins': ['ALICE'] },
+			permissions: { Alice: 'write' },
+		});
+
+		expect(await identity.isUserInOrg('alice', 'test-org')).toBe(true);
+		expect(await identity.isUserInTeam('alice', 'test-org/admins')).toBe(true);
+		expect(await identity.getPermission('ALICE')).toBe('write');
+	});
+
+	test('treats an empty file as no identities', () => {
+		expect(parseStaticIdentity(null)).toEqual({});
+	});
+
+	test.each([
+		[['alice'], 'Identity file must contain a mapping'],
+		[{ teams: { admins: ['alice'] } }, 'Team "admins" must be in the format'],
+		[{ organizations: { 'test-org': 'alice' } }, '"organizations.test-org"'],
+		[
+			{ permissions: { alice: 'owner' } },
+			'Permission of "alice" must be one of',
+		],
+	])('rejects invalid identity data %j', (data, message) => {
+		expect(() => parseStaticIdentity(data)).toThrow(message);
+	});
+
+	test('reports the path of invalid files', async () => {
+		await expect(loadStaticIdentityProvider(__filename)).rejects.toThrow(
+			`Invalid identity file ${__filename}`,
+		);
+	});
+});
+
+describe('hasPermission', () => {
+	test('accepts equal or higher permissions', () => {
+		expect(hasPermission('admin', ['write'])).toBe(true);
+		expect(hasPermission('write', ['write'])).toBe(true);
+		expect(hasPermission('triage', ['write'])).toBe(false);
+		expect(hasPermission('triage', ['maintain', 'triage'])).toBe(true);
+		expect(hasPermission('none', [])).toBe(false);
+	});
+});
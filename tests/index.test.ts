@@ -113,4 +113,171 @@ describe('GitHub Deployment App', () => {
 			'No configuration found',
 		);
 	});
+
+	test('does not evaluate configurations that are not valid', async () => {
+		const mockContext = {
+			log: { debug: vi.fn(), error: vi.fn() },
+			repo: vi.fn().mockReturnValue({ owner: 'test-org', repo: 'test-repo' }),
+			octokit: {
+				config: {
+					get: vi.fn().mockResolvedValue({ config: {}, files: [] }),
+				},
+			},
+			config: vi.fn().mockResolvedValue({
+				policy: { approval: ['bot-commits'] },
+				approval_rules: [
+					{
+						name: 'bot-commits',
+						if: { authored_by: { users: ['renovate[bot]'] } },
+						requires: { count: 0 },
+					},
+				],
+			}),
+			payload: {
+				action: 'requested',
+				installation: { id: 12345678 },
+				repository: {
+					owner: { login: 'test-org' },
+					name: 'test-repo',
+				},
+			},
+		};
+
+		const handlerPromise = new Promise<void>((resolve) => {
+			myProbotApp({
+				on: vi.fn().mockImplementation(async (event, handler) => {
+					if (event === 'deployment_protection_rule.requested') {
+						await handler(mockContext);
+						resolve();
+					}
+				}),
+			} as any);
+		});
+
+		await handlerPromise;
+
+		expect(mockContext.log.error).toHaveBeenCalledWith(
+			'Configuration is not valid:\napproval_rules[0].if.authored_by: unknown key "authored_by"',
+		);
+	});
+
+	test('does not evaluate configurations extending an organization configuration that is not valid', async () => {
+		const mockContext = {
+			log: { debug: vi.fn(), error: vi.fn() },
+			repo: vi.fn().mockReturnValue({ owner: 'test-org', repo: 'test-repo' }),
+			octokit: {
+				config: {
+					get: vi.fn().mockResolvedValue({
+						config: {
+							policy: { approval: ['maintainers'] },
+							approval_rules: [
+								{
+									name: 'maintainers',
+									requires: { count: 2, team: ['test-org/maintainers'] },
+								},
+							],
+						},
+						files: [{ config: {} }],
+					}),
+				},
+			},
+			config: vi.fn().mockResolvedValue({
+				extends: true,
+				policy: { approval: ['maintainers'] },
+				approval_rules: [],
+			}),
+			payload: {
+				action: 'requested',
+				installation: { id: 12345678 },
+				repository: {
+					owner: { login: 'test-org' },
+					name: 'test-repo',
+				},
+			},
+		};
+
+		const handlerPromise = new Promise<void>((resolve) => {
+			myProbotApp({
+				on: vi.fn().mockImplementation(async (event, handler) => {
+					if (event === 'deployment_protection_rule.requested') {
+						await handler(mockContext);
+						resolve();
+					}
+				}),
+			} as any);
+		});
+
+		await handlerPromise;
+
+		expect(mockContext.log.error).toHaveBeenCalledWith(
+			'Organization configuration is not valid:\napproval_rules[0].requires.team: unknown key "team"',
+		);
+		expect(mockContext.log.error).toHaveBeenCalledWith(
+			'Configuration extends the organization policy, but the organization configuration is not valid',
+		);
+	});
+
+	test('does not evaluate configurations that weaken locked organization rules', async () => {
+		const mockContext = {
+			log: { debug: vi.fn(), error: vi.fn() },
+			repo: vi.fn().mockReturnValue({ owner: 'test-org', repo: 'test-repo' }),
+			octokit: {
+				config: {
+					get: vi.fn().mockResolvedValue({
+						config: {
+							policy: { approval: ['maintainers'] },
+							approval_rules: [
+								{
+									name: 'maintainers',
+									requires: { count: 2, teams: ['test-org/maintainers'] },
+								},
+							],
+							locked: { rules: ['maintainers'] },
+						},
+						files: [{ config: {} }],
+					}),
+				},
+			},
+			config: vi.fn().mockResolvedValue({
+				extends: true,
+				policy: { approval: [] },
+				approval_rules: [
+					{
+						name: 'maintainers',
+						requires: { count: 1, teams: ['test-org/maintainers'] },
+					},
+				],
+			}),
+			payload: {
+				action: 'requested',
+				installation: { id: 12345678 },
+				repository: {
+					owner: { login: 'test-org' },
+					name: 'test-repo',
+				},
+			},
+		};
+
+		const handlerPromise = new Promise<void>((resolve) => {
+			myProbotApp({
+				on: vi.fn().mockImplementation(async (event, handler) => {
+					if (event === 'deployment_protection_rule.requested') {
+						await handler(mockContext);
+						resolve();
+					}
+				}),
+			} as any);
+		});
+
+		await handlerPromise;
+
+		expect(mockContext.octokit.config.get).toHaveBeenCalledWith({
+			owner: 'test-org',
+			repo: '.github',
+			path: '.github/deploynaut.yml',
+		});
+		expect(mockContext.log.error).toHaveBeenCalledWith(
+			'Configuration weakens the locked organization policy:\nLocked rule "maintainers": Required approvals lowered from 2 to 1',
+		);
+	});
 });
@@ -0,0 +1,163 @@
+import nock from 'nock';
+import { ProbotOctokit } from 'probot';
+import { describe, beforeEach, afterEach, test, expect } from 'vitest';
+import { MembershipCache, MembershipResolver } from '../src/membership.js';
+
+describe('MembershipResolver', () => {
+	let context: any;
+
+	const createContext = (installationId: number): any => ({
+		octokit: new (ProbotOctokit.defaults({
+			retry: { enabled: false },
+			throttle: { enabled: false },
+		}))(),
+		payload: { installation: { id: installationId } },
+	});
+
+	beforeEach(() => {
+		nock.disableNetConnect();
+		context = createContext(1);
+	});
+
+	afterEach(() => {
+		nock.cleanAll();
+		nock.enableNetConnect();
+	});
+
+	test('looks up team membership once for concurrent checks', async () => {
+		const mock = nock('https://api.github.com')
+			.get('/orgs/test-org/teams/test-team/memberships/test-user')
+			.reply(200, { state: 'active' });
+
+		const resolver = new MembershipResolver(context);
+		const results = await Promise.all([
+			resolver.isTeamMember('test-user', 'test-org/test-team'),
+			resolver.isTeamMember('test-user', 'test-org/test-team'),
+			resolver.isTeamMember('Test-User', 'test-org/test-team'),
+		]);
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+		expect(results).toEqual([true, true, true]);
+		expect(resolver.stats).toEqual({ hits: 2, misses: 1 });
+	});
+
+	test('reports users who are not found as non-members', async () => {
+		const mock = nock('https://api.github.com')
+			.get('/orgs/test-org/memberships/test-user')
+			.reply(404, { message: 'Not Found' });
+
+		const resolver = new MembershipResolver(context);
+
+		expect(await resolver.isOrganizationMember('test-user', 'test-org')).toBe(
+			false,
+		);
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('reports pending invitations as non-members', async () => {
+		nock('https://api.github.com')
+			.get('/orgs/test-org/memberships/test-user')
+			.reply(200, { state: 'pending' });
+
+		const resolver = new MembershipResolver(context);
+
+		expect(await resolver.isOrganizationMember('test-user', 'test-org')).toBe(
+			false,
+		);
+	});
+
+	test('propagates API errors without caching them', async () => {
+		const cache = new MembershipCache(60 * 1000);
+		const mock = nock('https://api.github.com')
+			.get('/orgs/test-org/memberships/test-user')
+			.reply(500, { message: 'Internal server error' })
+			.get('/orgs/test-org/memberships/test-user')
+			.reply(200, { state: 'active' });
+
+		await expect(
+			new MembershipResolver(context, cache).isOrganizationMember(
+				'test-user',
+				'test-org',
+			),
+		).rejects.toThrow('Internal server error');
+		expect(
+			await new MembershipResolver(context, cache).isOrganizationMember(
+				'test-user',
+				'test-org',
+			),
+		).toBe(true);
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('shares lookups across deliveries until they expire', async () => {
+		let now = 0;
+		const cache = new MembershipCache(60 * 1000, () => now);
+		const mock = nock('https://api.github.com')
+			.get('/orgs/test-org/teams/test-team/memberships/test-user')
+			.times(2)
+			.reply(200, { state: 'active' });
+
+		const first = new MembershipResolver(context, cache);
+		await first.isTeamMember('test-user', 'test-org/test-team');
+		expect(first.stats).toEqual({ hits: 0, misses: 1 });
+
+		now = 59 * 1000;
+		const second = new MembershipResolver(context, cache);
+		await second.isTeamMember('test-user', 'test-org/test-team');
+		expect(second.stats).toEqual({ hits: 1, misses: 0 });
+
+		now = 60 * 1000;
+		const third = new MembershipResolver(context, cache);
+		await third.isTeamMember('test-user', 'test-org/test-team');
+		expect(third.stats).toEqual({ hits: 0, misses: 1 });
+
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+
+	test('removes expired lookups when new lookups are cached', () => {
+		let now = 0;
+		const cache = new MembershipCache(60 * 1000, () => now);
+		cache.set('first-user', true);
+		now = 30 * 1000;
+		cache.set('second-user', false);
+		expect(cache.size).toBe(2);
+
+		now = 60 * 1000;
+		cache.set('third-user', true);
+		expect(cache.size).toBe(2);
+		expect(cache.get('first-user')).toBeUndefined();
+		expect(cache.get('second-user')).toBe(false);
+
+		// Refreshed entries expire after the entries cached before them
+		now = 70 * 1000;
+		cache.set('second-user', true);
+		now = 120 * 1000;
+		cache.set('fourth-user', true);
+		expect(cache.size).toBe(2);
+		expect(cache.get('second-user')).toBe(true);
+		expect(cache.get('fourth-user')).toBe(true);
+	});
+
+	test('does not share lookups across installations', async () => {
+		const cache = new MembershipCache(60 * 1000);
+		const mock = nock('https://api.github.com')
+			.get('/orgs/test-org/memberships/test-user')
+			.reply(200, { state: 'active' })
+			.get('/orgs/test-org/memberships/test-user')
+			.reply(404, { message: 'Not Found' });
+
+		expect(
+			await new MembershipResolver(context, cache).isOrganizationMember(
+				'test-user',
+				'test-org',
+			),
+		).toBe(true);
+		expect(
+			await new MembershipResolver(
+				createContext(2),
+				cache,
+			).isOrganizationMember('test-user', 'test-org'),
+		).toBe(false);
+		expect(mock.pendingMocks()).toStrictEqual([]);
+	});
+});
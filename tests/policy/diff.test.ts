@@ -0,0 +1,390 @@
+import { describe, test, expect } from 'vitest';
+import {
+	diffPolicies,
+	renderPolicyDiff,
+	weakeningChanges,
+} from '../../src/policy/diff.js';
+import type {
+	NamedApprovalRule,
+	PolicyConfig,
+} from '../../src/policy/types.js';
+
+const baseConfig = (): PolicyConfig => ({
+	policy: {
+		approval: ['maintainers', 'staging'],
+	},
+	approval_rules: [
+		{
+			name: 'maintainers',
+			requires: { count: 2, teams: ['org/maintainers'] },
+			methods: { github_review: true },
+		},
+		{
+			name: 'staging',
+			if: { environment: { matches: ['staging'] } },
+			requires: { count: 0 },
+		},
+	],
+});
+
+const describeChanges = (base: PolicyConfig | undefined, head: PolicyConfig) =>
+	diffPolicies(base, head).map(
+		(change) =>
+			`${change.weakens ? '-' : '+'} ${change.rule ?? '*'}: ${change.description} [${change.environments.join(', ')}]`,
+	);
+
+describe('diffPolicies', () => {
+	test('reports no changes for identical configurations', () => {
+		expect(diffPolicies(baseConfig(), baseConfig())).toEqual([]);
+	});
+
+	test('reports lowered counts and widened approvers as weakening', () => {
+		const head = baseConfig();
+		head.approval_rules[0].requires = {
+			count: 1,
+			teams: ['org/maintainers', 'org/contractors'],
+			permissions: ['write'],
+		};
+
+		expect(describeChanges(baseConfig(), head)).toEqual([
+			'- maintainers: Required approvals lowered from 2 to 1 [production]',
+			'- maintainers: Approvers (teams) adds org/contractors [production]',
+			'- maintainers: Approvers (permissions) widened from none to write or higher [production]',
+			'- *: `production` now requires 1 approval instead of 2 approvals [production]',
+		]);
+	});
+
+	test('reports narrowed approvers and raised counts as strengthening', () => {
+		const head = baseConfig();
+		head.approval_rules[0].requires = { count: 3, teams: [] };
+		head.approval_rules[0].methods = { github_review: false };
+
+		expect(describeChanges(baseConfig(), head)).toEqual([
+			'+ maintainers: Required approvals raised from 2 to 3 [production]',
+			'+ maintainers: Approvers (teams) removes org/maintainers [production]',
+			'+ maintainers: GitHub reviews disabled [production]',
+			'+ *: `production` now requires 3 approvals instead of 2 approvals [production]',
+		]);
+	});
+
+	test('reports environments that become exempt from approval', () => {
+		const head = baseConfig();
+		head.approval_rules[1].if = {
+			environment: { matches: ['staging', 'production-eu'] },
+		};
+
+		expect(describeChanges(baseConfig(), head)).toEqual([
+			'- staging: `environment.matches` adds production-eu [production-eu]',
+			'- *: `production-eu` is now approved automatically, it previously required 2 approvals [production-eu]',
+		]);
+	});
+
+	test('reports removed conditions and new approval paths as weakening', () => {
+		const head = baseConfig();
+		head.policy.approval = ['maintainers', 'staging', 'bots'];
+		head.approval_rules[1].if = {};
+		head.approval_rules.push({
+			name: 'bots',
+			if: { only_has_authors_in: { users: ['renovate[bot]'] } },
+			requires: { count: 0 },
+		});
+
+		expect(weakeningChanges(diffPolicies(baseConfig(), head))).toEqual([
+			expect.objectContaining({
+				rule: 'staging',
+				description: 'Condition `environment` removed',
+			}),
+			expect.objectContaining({
+				rule: 'bots',
+				description: 'Approval by `bots` added to `policy.approval`',
+			}),
+			expect.objectContaining({
+				description:
+					'`production` is now approved automatically, it previously required 2 approvals',
+			}),
+		]);
+	});
+
+	test('does not flag weakening changes that only apply to other environments', () => {
+		const head = baseConfig();
+		head.approval_rules[1].if = { environment: { matches: ['staging-*'] } };
+
+		expect(weakeningChanges(diffPolicies(baseConfig(), head))).toEqual([]);
+	});
+
+	test('reports changed file patterns that apply to more changes as weakening', () => {
+		const base = baseConfig();
+		base.approval_rules[1].if = {
+			changed_files: { paths: ['infra/**'], ignore: ['**/*.md'] },
+		};
+		const head = baseConfig();
+		head.approval_rules[1].if = {
+			changed_files: { paths: ['infra/**', 'deploy/**'] },
+		};
+
+		expect(describeChanges(base, head)).toEqual([
+			'- staging: `changed_files.paths` adds deploy/** [production]',
+			'- staging: `changed_files.ignore` removes **/*.md [production]',
+		]);
+
+		const docsOnly = baseConfig();
+		docsOnly.approval_rules[1].if = {
+			changed_files: { only_in: ['docs/**'], ignore: ['CHANGELOG.md'] },
+		};
+		const widened = baseConfig();
+		widened.approval_rules[1].if = {
+			changed_files: { only_in: ['docs/**'], ignore: ['CHANGELOG.md', '*.md'] },
+		};
+
+		expect(weakeningChanges(diffPolicies(docsOnly, widened))).toEqual([
+			expect.objectContaining({
+				description: '`changed_files.ignore` adds *.md',
+			}),
+		]);
+	});
+
+	test('reports time windows that cover more times as weakening', () => {
+		const base = baseConfig();
+		base.approval_rules[1].if = {
+			time_window: { days: ['monday', 'tuesday'], end: '16:00' },
+		};
+		const head = baseConfig();
+		head.approval_rules[1].if = {
+			time_window: { days: ['monday', 'friday'], end: '18:00' },
+		};
+
+		expect(describeChanges(base, head)).toEqual([
+			'- staging: `time_window.days` adds friday [production]',
+			'+ staging: `time_window.days` removes tuesday [production]',
+			'- staging: `time_window.end` changed from 16:00 to 18:00 [production]',
+		]);
+	});
+
+	describe('rules that are required by a group', () => {
+		const groupConfig = (security: Partial<NamedApprovalRule> = {}) => {
+			const config = baseConfig();
+			config.policy.approval = [{ and: ['maintainers', 'security'] }];
+			config.approval_rules.push({
+				name: 'security',
+				requires: { count: 3, teams: ['org/security'] },
+				...security,
+			});
+			return config;
+		};
+
+		test('reports added conditions as weakening', () => {
+			const head = groupConfig({
+				if: { labels: { has_labels: ['never-used'] } },
+			});
+
+			expect(describeChanges(groupConfig(), head)).toEqual([
+				'- security: Condition `labels` added [production]',
+				'- *: `production` now requires 2 approvals instead of 3 approvals [production]',
+			]);
+		});
+
+		test('reports excluded environments as weakening', () => {
+			const base = groupConfig({
+				if: { environment: { not_matches: ['staging'] } },
+			});
+			const head = groupConfig({
+				if: { environment: { not_matches: ['staging', 'production'] } },
+			});
+
+			expect(describeChanges(base, head)).toEqual([
+				'- security: `environment.not_matches` adds production [production]',
+				'- *: `production` now requires 2 approvals instead of 3 approvals [production]',
+			]);
+		});
+
+		test('reports removed conditions as strengthening', () => {
+			const base = groupConfig({
+				if: { labels: { has_labels: ['security'] } },
+			});
+
+			expect(describeChanges(base, groupConfig())).toEqual([
+				'+ security: Condition `labels` removed [production]',
+				'+ *: `production` now requires 3 approvals instead of 2 approvals [production]',
+			]);
+		});
+	});
+
+	test('reports negated rules that are easier to satisfy as strengthening', () => {
+		const negated = (count: number) => {
+			const config = baseConfig();
+			config.policy.approval = [{ and: ['maintainers', { not: 'hotfix' }] }];
+			config.approval_rules.push({
+				name: 'hotfix',
+				if: { labels: { has_labels: ['hotfix'] } },
+				requires: { count },
+			});
+			return config;
+		};
+		const head = negated(1);
+		head.approval_rules[2].if = {
+			labels: { has_labels: ['hotfix', 'urgent'] },
+		};
+
+		expect(describeChanges(negated(2), head)).toEqual([
+			'+ hotfix: Required approvals lowered from 2 to 1 [production]',
+			'- hotfix: `labels.has_labels` adds urgent [production]',
+		]);
+	});
+
+	test('reports removed freeze windows and added overrides as weakening', () => {
+		const base = baseConfig();
+		base.freeze = {
+			windows: [
+				{ name: 'holidays', from: '2025-12-20', until: '2026-01-05' },
+				{
+					name: 'staging weekends',
+					environments: ['staging'],
+					days: ['saturday', 'sunday'],
+				},
+			],
+		};
+		const head = baseConfig();
+		head.freeze = {
+			windows: [{ name: 'weekends', days: ['saturday', 'sunday'] }],
+			freeze_override: 'maintainers',
+		};
+
+		expect(describeChanges(base, head)).toEqual([
+			'- *: Freeze window `holidays` removed [production]',
+			'- *: Freeze window `staging weekends` removed []',
+			'+ *: Freeze window `weekends` added [production]',
+			'- *: Freeze override `maintainers` added [production]',
+		]);
+	});
+
+	test('does not flag groups that also require an existing approval', () => {
+		const head = baseConfig();
+		head.policy.approval = [
+			{ and: ['maintainers', 'security'] },
+			'staging',
+		] as any;
+		head.approval_rules.push({
+			name: 'security',
+			requires: { count: 1, teams: ['org/security'] },
+		});
+
+		expect(describeChanges(baseConfig(), head)).toEqual([
+			'+ security: Rule added requiring 1 approval [production]',
+			'+ *: Approval by `{"and":["maintainers","security"]}` added to `policy.approval` [production]',
+			'+ *: Approval by `maintainers` removed from `policy.approval` [production]',
+		]);
+	});
+
+	test('compares the given environments', () => {
+		const head = baseConfig();
+		head.approval_rules[0].requires = { count: 1, teams: ['org/maintainers'] };
+
+		expect(diffPolicies(baseConfig(), head, { environments: ['qa'] })).toEqual([
+			{
+				rule: 'maintainers',
+				description: 'Required approvals lowered from 2 to 1',
+				weakens: true,
+				environments: ['qa'],
+			},
+			{
+				description: '`qa` now requires 1 approval instead of 2 approvals',
+				weakens: true,
+				environments: ['qa'],
+			},
+		]);
+	});
+
+	test('reports removed disapproval as weakening', () => {
+		const base = baseConfig();
+		base.policy.disapproval = { requires: { teams: ['org/security'] } };
+
+		expect(describeChanges(base, baseConfig())).toEqual([
+			'- *: Disapproval removed [production]',
+		]);
+	});
+
+	test('reports removed disapproval comment patterns as weakening', () => {
+		const base = baseConfig();
+		base.policy.disapproval = {
+			requires: { teams: ['org/security'] },
+			methods: { issue_comment_patterns: ['/block'] },
+		};
+		const head = structuredClone(base);
+		head.policy.disapproval!.methods = {};
+
+		expect(describeChanges(base, head)).toEqual([
+			'- *: Disapproval `issue_comment_patterns` removes /block [production]',
+		]);
+	});
+
+	test('reports weakened rules for production-like environment patterns', () => {
+		const base = baseConfig();
+		base.policy.approval.push('regional production');
+		base.approval_rules.push({
+			name: 'regional production',
+			if: { environment: { matches: ['production-*'] } },
+			requires: { count: 2, teams: ['org/maintainers'] },
+		});
+		const head = structuredClone(base);
+		head.approval_rules[2].requires!.count = 0;
+
+		expect(weakeningChanges(diffPolicies(base, head))).toEqual([
+			{
+				rule: 'regional production',
+				description: 'Required approvals lowered from 2 to 0',
+				weakens: true,
+				environments: ['production-*'],
+			},
+			{
+				description:
+					'`production-*` is now approved automatically, it previously required 2 approvals',
+				weakens: true,
+				environments: ['production-*'],
+			},
+		]);
+	});
+
+	test('reports disabled rejection of unsatisfiable deployments as weakening', () => {
+		const base = baseConfig();
+		base.policy.reject_unsatisfiable = true;
+
+		expect(describeChanges(base, baseConfig())).toEqual([
+			'- *: Rejecting unsatisfiable deployments disabled [production]',
+		]);
+		expect(describeChanges(baseConfig(), base)).toEqual([
+			'+ *: Rejecting unsatisfiable deployments enabled [production]',
+		]);
+	});
+
+	test('compares new configurations with manual approval', () => {
+		expect(describeChanges(undefined, baseConfig())).toEqual([
+			'+ maintainers: Rule added requiring 2 approvals [production]',
+			'+ staging: Rule added requiring 0 approvals []',
+			'- maintainers: Approval by `maintainers` added to `policy.approval` [production]',
+			'- staging: Approval by `staging` added to `policy.approval` []',
+			'- *: `production` can now be approved with 2 approvals, it previously required manual approval [production]',
+		]);
+	});
+});
+
+describe('renderPolicyDiff', () => {
+	test('flags weakening changes', () => {
+		const head = baseConfig();
+		head.approval_rules[0].requires!.count = 1;
+
+		expect(renderPolicyDiff(diffPolicies(baseConfig(), head))).toBe(
+			[
+				'### Policy changes',
+				'',
+				'- ⚠️ **maintainers**: Required approvals lowered from 2 to 1 (weakens protection of production)',
+				'- ⚠️ `production` now requires 1 approval instead of 2 approvals (weakens protection of production)',
+			].join('\n'),
+		);
+	});
+
+	test('reports configurations without changes', () => {
+		expect(renderPolicyDiff([])).toContain(
+			'No changes to the effective policy.',
+		);
+	});
+});
@@ -1,7 +1,13 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import { PolicyEvaluator } from '../../src/policy/evaluator.js';
-import type { PolicyConfig, PolicyContext } from '../../src/policy/types.js';
+import type {
+	PolicyConfig,
+	PolicyContext,
+	RuleCondition,
+} from '../../src/policy/types.js';
 import * as client from '../../src/client.js';
+import { GitHubIdentityProvider } from '../../src/identity/github.js';
+import { StaticIdentityProvider } from '../../src/identity/static.js';
 
 describe('PolicyEvaluator', () => {
 	const baseConfig: PolicyConfig = {
@@ -13,14 +19,15 @@ describe('PolicyEvaluator', () => {
 
 	// Mock GitHub context
 	const mockGithubContext = {
+		payload: {},
 		repo: vi.fn(),
 		octokit: {
 			rest: {
 				orgs: {
-					listMembers: vi.fn(),
+					getMembershipForUser: vi.fn(),
 				},
 				teams: {
-					listMembersInOrg: vi.fn(),
+					getMembershipForUserInOrg: vi.fn(),
 				},
 			},
 		},
@@ -34,32 +41,50 @@ describe('PolicyEvaluator', () => {
 
 	// Mock client functions
 	vi.mock('../../src/client.js', () => ({
-		listTeamMembers: vi.fn(),
-		listOrganizationMembers: vi.fn(),
+		getTeamMembership: vi.fn(),
+		getOrganizationMembership: vi.fn(),
+		getCollaboratorPermission: vi.fn(),
 	}));
 
+	// Report the given users as active members and everyone else as not found
+	const mockMembers =
+		(logins: string[]) =>
+		(...args: any[]): Promise<any> =>
+			logins.includes(args[args.length - 1])
+				? Promise.resolve({ state: 'active' })
+				: Promise.reject(
+						Object.assign(new Error('Not Found'), { status: 404 }),
+					);
+
+	let identity: GitHubIdentityProvider;
+
 	beforeEach(() => {
 		vi.clearAllMocks();
+		identity = new GitHubIdentityProvider(mockGithubContext);
 		// Simple mock returns - all users are in all teams/orgs for simplicity
-		vi.mocked(client.listTeamMembers).mockResolvedValue([
-			{ login: 'test-reviewer', id: 789 } as any,
-			{ login: 'team-member', id: 123 } as any,
-			{ login: 'test-author', id: 123 } as any,
-			{ login: 'reviewer-a', id: 1 } as any,
-			{ login: 'reviewer-b', id: 2 } as any,
-			{ login: 'trusted-user', id: 123 } as any,
-			{ login: 'org-member', id: 123 } as any,
-		]);
-		vi.mocked(client.listOrganizationMembers).mockResolvedValue([
-			{ login: 'test-committer', id: 456 } as any,
-			{ login: 'org-member', id: 123 } as any,
-			{ login: 'test-author', id: 123 } as any,
-			{ login: 'trusted-user', id: 123 } as any,
-			{ login: 'test-reviewer', id: 789 } as any,
-			{ login: 'team-member', id: 123 } as any,
-			{ login: 'reviewer-a', id: 1 } as any,
-			{ login: 'reviewer-b', id: 2 } as any,
-		]);
+		vi.mocked(client.getTeamMembership).mockImplementation(
+			mockMembers([
+				'test-reviewer',
+				'team-member',
+				'test-author',
+				'reviewer-a',
+				'reviewer-b',
+				'trusted-user',
+				'org-member',
+			]),
+		);
+		vi.mocked(client.getOrganizationMembership).mockImplementation(
+			mockMembers([
+				'test-committer',
+				'org-member',
+				'test-author',
+				'trusted-user',
+				'test-reviewer',
+				'team-member',
+				'reviewer-a',
+				'reviewer-b',
+			]),
+		);
 	});
 
 	const baseContext: PolicyContext = {
@@ -150,7 +175,7 @@ describe('PolicyEvaluator', () => {
 			commits: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(false);
 	});
 
@@ -187,7 +212,7 @@ describe('PolicyEvaluator', () => {
 			commits: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(false);
 	});
 
@@ -238,7 +263,7 @@ describe('PolicyEvaluator', () => {
 			commits: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(true);
 	});
 
@@ -303,7 +328,7 @@ describe('PolicyEvaluator', () => {
 			commits: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(true);
 	});
 
@@ -332,7 +357,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(baseContext)).toBe(true);
 		});
 
@@ -357,7 +382,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(baseContext)).toBe(true);
 		});
 
@@ -392,7 +417,7 @@ describe('PolicyEvaluator', () => {
 				},
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 
@@ -424,11 +449,219 @@ describe('PolicyEvaluator', () => {
 				},
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 	});
 
+	describe('environment patterns', () => {
+		const createConfig = (
+			condition: NonNullable<RuleCondition['environment']>,
+		): PolicyConfig => ({
+			...baseConfig,
+			policy: {
+				approval: ['env-rule'],
+			},
+			approval_rules: [
+				{
+					name: 'env-rule',
+					if: {
+						environment: condition,
+					},
+					requires: {
+						count: 0,
+					},
+				},
+			],
+		});
+
+		const createEnvContext = (name: string): PolicyContext => ({
+			...baseContext,
+			environment: {
+				name,
+			},
+		});
+
+		test('matches environments with glob patterns', async () => {
+			const evaluator = new PolicyEvaluator(
+				createConfig({
+					matches: ['preview-pr-*', 'production-*'],
+					not_matches: ['production-cn-*'],
+				}),
+				identity,
+			);
+
+			expect(
+				await evaluator.evaluate(createEnvContext('preview-pr-1234')),
+			).toBe(true);
+			expect(
+				await evaluator.evaluate(createEnvContext('production-eu-west')),
+			).toBe(true);
+			expect(
+				await evaluator.evaluate(createEnvContext('production-cn-north')),
+			).toBe(false);
+			// Globs must match the whole environment name
+			expect(
+				await evaluator.evaluate(createEnvContext('old-preview-pr-1234')),
+			).toBe(false);
+			// Globs are case-sensitive
+			expect(
+				await evaluator.evaluate(createEnvContext('Production-eu-west')),
+			).toBe(false);
+		});
+
+		test('matches environments with regex patterns', async () => {
+			const evaluator = new PolicyEvaluator(
+				createConfig({
+					matches: ['/^production-(eu|us)-/i'],
+					not_matches: ['/canary/'],
+				}),
+				identity,
+			);
+
+			expect(
+				await evaluator.evaluate(createEnvContext('PRODUCTION-EU-west')),
+			).toBe(true);
+			expect(
+				await evaluator.evaluate(createEnvContext('production-ap-south')),
+			).toBe(false);
+			// Regex patterns are not anchored unless the pattern says so
+			expect(
+				await evaluator.evaluate(createEnvContext('production-us-canary-1')),
+			).toBe(false);
+		});
+
+		test('throws for invalid regex patterns', async () => {
+			const evaluator = new PolicyEvaluator(
+				createConfig({
+					matches: ['/(unclosed/'],
+				}),
+				identity,
+			);
+
+			await expect(
+				evaluator.evaluate(createEnvContext('production')),
+			).rejects.toThrow('Pattern is not valid');
+		});
+	});
+
+	describe('event condition', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['push-to-staging', 'reviewed'],
+			},
+			approval_rules: [
+				{
+					name: 'push-to-staging',
+					if: {
+						environment: {
+							matches: ['staging'],
+						},
+						event: {
+							matches: ['push'],
+						},
+					},
+					requires: {
+						count: 0,
+					},
+				},
+				{
+					name: 'reviewed',
+					if: {
+						event: {
+							not_matches: ['pull_request_target'],
+						},
+					},
+					requires: {
+						count: 1,
+						users: ['reviewer-a'],
+					},
+					methods: {
+						github_review: true,
+					},
+				},
+			],
+		};
+
+		const createEventContext = (
+			environment: string,
+			event?: string,
+		): PolicyContext => ({
+			...baseContext,
+			environment: {
+				name: environment,
+			},
+			deployment: {
+				environment,
+				event,
+				commit: {
+					sha: 'test-sha',
+				},
+			},
+			reviews: [],
+		});
+
+		test('passes when event is in matches', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			expect(
+				await evaluator.evaluate(createEventContext('staging', 'push')),
+			).toBe(true);
+		});
+
+		test('fails when event is not in matches', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createEventContext('staging', 'workflow_dispatch'),
+			);
+
+			expect(decision.approved).toBe(false);
+			expect(decision.approval[0]).toMatchObject({
+				result: 'skipped',
+				conditions: [
+					{ condition: 'environment', passed: true },
+					{
+						condition: 'event',
+						passed: false,
+						reasons: [
+							'Event "workflow_dispatch" does not match any allowed events',
+						],
+					},
+				],
+			});
+			// Waiting on a review instead
+			expect(decision.approval[1].result).toBe(false);
+		});
+
+		test('fails when event is in not_matches', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createEventContext('production', 'pull_request_target'),
+			);
+
+			expect(decision.result).toBe('skipped');
+			expect(decision.approval[1]).toMatchObject({
+				result: 'skipped',
+				conditions: [
+					{
+						condition: 'event',
+						passed: false,
+						reasons: [
+							'Event "pull_request_target" is explicitly excluded by the policy',
+						],
+					},
+				],
+			});
+		});
+
+		test('fails when event is missing from the context', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			expect(await evaluator.evaluate(createEventContext('staging'))).toBe(
+				false,
+			);
+		});
+	});
+
 	test('evaluates signature verification conditions', async () => {
 		const config: PolicyConfig = {
 			...baseConfig,
@@ -450,7 +683,7 @@ describe('PolicyEvaluator', () => {
 			],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext, console);
+		const evaluator = new PolicyEvaluator(config, identity, console);
 		expect(await evaluator.evaluate(baseContext)).toBe(false); // Should fail because no commits have signatures
 	});
 
@@ -508,7 +741,7 @@ describe('PolicyEvaluator', () => {
 			],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(true);
 	});
 
@@ -559,7 +792,7 @@ describe('PolicyEvaluator', () => {
 			],
 			commits: [],
 		};
-		let evaluator = new PolicyEvaluator(config, mockGithubContext);
+		let evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(false);
 
 		// Add two reviews from team members, should pass
@@ -589,7 +822,7 @@ describe('PolicyEvaluator', () => {
 			],
 			commits: [],
 		};
-		evaluator = new PolicyEvaluator(config, mockGithubContext);
+		evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(true);
 	});
 
@@ -602,7 +835,7 @@ describe('PolicyEvaluator', () => {
 			approval_rules: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		await expect(() => evaluator.evaluate(baseContext)).rejects.toThrow(
 			'Rule "non-existent-rule" not found in configuration',
 		);
@@ -650,7 +883,7 @@ describe('PolicyEvaluator', () => {
 			],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext, console);
+		const evaluator = new PolicyEvaluator(config, identity, console);
 		expect(await evaluator.evaluate(context)).toBe(true);
 	});
 
@@ -696,7 +929,7 @@ describe('PolicyEvaluator', () => {
 			],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext, console);
+		const evaluator = new PolicyEvaluator(config, identity, console);
 		expect(await evaluator.evaluate(context)).toBe(true);
 	});
 
@@ -742,7 +975,7 @@ describe('PolicyEvaluator', () => {
 			],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext, console);
+		const evaluator = new PolicyEvaluator(config, identity, console);
 		expect(await evaluator.evaluate(context)).toBe(false);
 	});
 
@@ -772,7 +1005,7 @@ describe('PolicyEvaluator', () => {
 			environment: undefined,
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(false);
 	});
 
@@ -814,7 +1047,7 @@ describe('PolicyEvaluator', () => {
 			commits: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(true);
 	});
 
@@ -856,7 +1089,7 @@ describe('PolicyEvaluator', () => {
 			commits: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		await expect(() => evaluator.evaluate(context)).rejects.toThrow(
 			'Pattern "/[/" is not valid: SyntaxError: Invalid regular expression: /[/: Unterminated character class',
 		);
@@ -901,7 +1134,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(true);
 		});
 
@@ -943,7 +1176,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(true);
 		});
 
@@ -985,7 +1218,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(true);
 		});
 
@@ -1027,7 +1260,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 
@@ -1069,7 +1302,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 
@@ -1111,7 +1344,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 
@@ -1141,7 +1374,7 @@ describe('PolicyEvaluator', () => {
 				commits: [],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 	});
@@ -1196,7 +1429,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(true);
 		});
 
@@ -1249,7 +1482,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(true);
 		});
 
@@ -1302,7 +1535,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(true);
 		});
 
@@ -1344,7 +1577,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 
@@ -1386,7 +1619,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 
@@ -1428,7 +1661,7 @@ describe('PolicyEvaluator', () => {
 				],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 
@@ -1458,7 +1691,7 @@ describe('PolicyEvaluator', () => {
 				commits: [],
 			};
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
+			const evaluator = new PolicyEvaluator(config, identity);
 			expect(await evaluator.evaluate(context)).toBe(false);
 		});
 	});
@@ -1491,7 +1724,7 @@ describe('PolicyEvaluator', () => {
 			],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(baseContext)).toBe(true);
 	});
 
@@ -1519,7 +1752,7 @@ describe('PolicyEvaluator', () => {
 			],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(baseContext)).toBe(true);
 	});
 
@@ -1563,167 +1796,1603 @@ describe('PolicyEvaluator', () => {
 			commits: [],
 		};
 
-		const evaluator = new PolicyEvaluator(config, mockGithubContext);
+		const evaluator = new PolicyEvaluator(config, identity);
 		expect(await evaluator.evaluate(context)).toBe(false);
 	});
 
-	describe('API error handling', () => {
-		test('handles API errors gracefully and allows other rules to pass', async () => {
-			// Mock one function to fail and another to succeed
-			vi.mocked(client.listTeamMembers).mockRejectedValue(
-				new Error('Team not found'),
-			);
-			vi.mocked(client.listOrganizationMembers).mockResolvedValue([
-				{ login: 'test-reviewer', id: 789 } as any,
-			]);
-
-			const config: PolicyConfig = {
-				...baseConfig,
-				policy: {
-					approval: ['team-rule', 'org-rule'],
+	describe('branch conditions', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['main', 'release'],
+			},
+			approval_rules: [
+				{
+					name: 'main',
+					if: { ref: { matches: ['main'] } },
+					requires: { count: 0 },
 				},
-				approval_rules: [
-					{
-						name: 'team-rule',
-						requires: {
-							count: 1,
-							teams: ['nonexistent-org/nonexistent-team'],
-						},
-						methods: {
-							github_review: true,
-						},
-					},
-					{
-						name: 'org-rule',
-						requires: {
-							count: 1,
-							organizations: ['test-org'],
-						},
-						methods: {
-							github_review: true,
+				{
+					name: 'release',
+					if: {
+						target_branch: {
+							matches: ['release/*'],
+							not_matches: ['release/legacy-*'],
 						},
 					},
-				],
-			};
+					requires: { count: 0 },
+				},
+			],
+		};
 
-			const context: PolicyContext = {
-				...baseContext,
-				reviews: [
-					{
-						id: 1,
-						user: {
-							id: 789,
-							login: 'test-reviewer',
-						},
-						state: 'APPROVED',
-						commit_id: 'test-sha',
-						submitted_at: '2021-01-01T00:00:00Z',
-					},
-				],
-			};
+		const createBranchContext = (
+			ref?: string,
+			targetBranch?: string,
+		): PolicyContext => ({
+			...baseContext,
+			deployment: {
+				ref,
+				commit: { sha: 'test-sha' },
+			},
+			reviews: [],
+			target_branch: targetBranch,
+		});
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
-			const result = await evaluator.evaluate(context);
+		test('matches branch names and fully qualified branch refs', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
 
-			// Should pass because the org-rule passes even though team-rule fails
-			expect(result).toBe(true);
+			expect(await evaluator.evaluate(createBranchContext('main'))).toBe(true);
+			expect(
+				await evaluator.evaluate(createBranchContext('refs/heads/main')),
+			).toBe(true);
 		});
 
-		test('handles both API errors and continues evaluation', async () => {
-			// Mock both functions to fail
-			vi.mocked(client.listTeamMembers).mockRejectedValue(
-				new Error('Team not found'),
-			);
-			vi.mocked(client.listOrganizationMembers).mockRejectedValue(
-				new Error('Org not found'),
+		test('fails when the ref does not match', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createBranchContext('refs/tags/v1.0.0'),
 			);
 
-			const config: PolicyConfig = {
-				...baseConfig,
-				policy: {
-					approval: ['team-rule', 'user-rule'],
-				},
-				approval_rules: [
-					{
-						name: 'team-rule',
-						requires: {
-							count: 1,
-							teams: ['nonexistent-org/nonexistent-team'],
-						},
-						methods: {
-							github_review: true,
-						},
-					},
+			expect(decision.approved).toBe(false);
+			expect(decision.approval[0]).toMatchObject({
+				result: 'skipped',
+				conditions: [
 					{
-						name: 'user-rule',
-						requires: {
-							count: 1,
-							users: ['test-reviewer'],
-						},
-						methods: {
-							github_review: true,
-						},
+						condition: 'ref',
+						passed: false,
+						reasons: [
+							'Ref "refs/tags/v1.0.0" does not match any allowed patterns',
+						],
 					},
 				],
-			};
+			});
+		});
 
-			const context: PolicyContext = {
-				...baseContext,
-				reviews: [
+		test('matches the target branch of the pull request', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createBranchContext('feature/login', 'release/2.0'),
+			);
+
+			expect(decision.approved).toBe(true);
+			expect(decision.approval[1]).toMatchObject({
+				result: true,
+				conditions: [{ condition: 'target_branch', passed: true }],
+			});
+		});
+
+		test('fails when the target branch is excluded or missing', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const excluded = await evaluator.evaluateWithTrace(
+				createBranchContext('feature/login', 'release/legacy-1'),
+			);
+
+			expect(excluded.approval[1]).toMatchObject({
+				result: 'skipped',
+				conditions: [
 					{
-						id: 1,
-						user: {
-							id: 789,
-							login: 'test-reviewer',
-						},
-						state: 'APPROVED',
-						commit_id: 'test-sha',
-						submitted_at: '2021-01-01T00:00:00Z',
+						reasons: [
+							'Target branch "release/legacy-1" is explicitly excluded by the policy',
+						],
 					},
 				],
-			};
+			});
 
-			const evaluator = new PolicyEvaluator(config, mockGithubContext);
-			const result = await evaluator.evaluate(context);
+			const missing = await evaluator.evaluateWithTrace(
+				createBranchContext('feature/login'),
+			);
 
-			// Should pass because the user-rule passes even though team-rule fails
-			expect(result).toBe(true);
+			expect(missing.approval[1]).toMatchObject({
+				conditions: [{ reasons: ['No target branch found in context'] }],
+			});
 		});
 	});
 
-	describe('signature validation', () => {
-		let mockLogger: any;
-
-		beforeEach(() => {
-			mockLogger = {
-				debug: vi.fn(),
-				info: vi.fn(),
-				warn: vi.fn(),
-				error: vi.fn(),
-			};
-		});
-
-		const hasValidSignaturesPolicy = (): PolicyConfig => ({
+	describe('labels condition', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
 			policy: {
-				approval: ['signature-rule'],
+				approval: ['hotfix'],
 			},
 			approval_rules: [
 				{
-					name: 'signature-rule',
+					name: 'hotfix',
 					if: {
-						has_valid_signatures: true,
+						labels: {
+							has_labels: ['hotfix'],
+							lacks_labels: ['do-not-deploy'],
+						},
 					},
+					requires: { count: 0 },
 				},
 			],
+		};
+
+		const createLabelsContext = (labels?: string[]): PolicyContext => ({
+			...baseContext,
+			reviews: [],
+			labels,
 		});
 
-		const hasSignatureByPolicy = (): PolicyConfig => ({
-			policy: {
-				approval: ['signature-rule'],
-			},
-			approval_rules: [
-				{
-					name: 'signature-rule',
+		test('passes when the pull request has the required labels', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+
+			expect(
+				await evaluator.evaluate(createLabelsContext(['HotFix', 'backend'])),
+			).toBe(true);
+		});
+
+		test('fails when a label is missing or excluded', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createLabelsContext(['do-not-deploy']),
+			);
+
+			expect(decision.approved).toBe(false);
+			expect(decision.approval[0]).toMatchObject({
+				result: 'skipped',
+				conditions: [
+					{
+						condition: 'labels',
+						passed: false,
+						reasons: [
+							'Pull request does not have label "hotfix"',
+							'Pull request has label "do-not-deploy"',
+						],
+					},
+				],
+			});
+		});
+
+		test('fails when the labels are missing from the context', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+
+			expect(await evaluator.evaluate(createLabelsContext())).toBe(false);
+		});
+	});
+
+	describe('changed_files condition', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['docs-only', 'terraform'],
+			},
+			approval_rules: [
+				{
+					name: 'docs-only',
+					if: {
+						changed_files: {
+							only_in: ['docs/**', '*.md'],
+							ignore: ['CHANGELOG.md'],
+						},
+					},
+					requires: { count: 0 },
+				},
+				{
+					name: 'terraform',
+					if: {
+						changed_files: {
+							paths: ['infra/terraform/**'],
+							ignore: ['**/README.md'],
+						},
+					},
+					requires: { count: 1, users: ['reviewer-a'] },
+					methods: { github_review: true },
+				},
+			],
+		};
+
+		const createFilesContext = (changedFiles?: string[]): PolicyContext => ({
+			...baseContext,
+			reviews: [],
+			changed_files: changedFiles,
+		});
+
+		test('passes only_in when every changed file is in the allowed paths', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createFilesContext(['docs/setup.md', 'README.md']),
+			);
+
+			expect(decision.approved).toBe(true);
+			expect(decision.approval[0]).toMatchObject({
+				name: 'docs-only',
+				result: true,
+				conditions: [{ condition: 'changed_files', passed: true }],
+			});
+			// No terraform files changed
+			expect(decision.approval[1].result).toBe('skipped');
+		});
+
+		test('fails only_in when a changed file is outside of the allowed paths', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createFilesContext(['docs/setup.md', 'src/index.ts', 'CHANGELOG.md']),
+			);
+
+			expect(decision.approved).toBe(false);
+			expect(decision.approval[0]).toMatchObject({
+				result: 'skipped',
+				conditions: [
+					{
+						condition: 'changed_files',
+						passed: false,
+						reasons: [
+							'Changed file "src/index.ts" is outside of the allowed paths',
+						],
+					},
+				],
+			});
+		});
+
+		test('passes paths when any changed file matches', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createFilesContext(['src/index.ts', 'infra/terraform/main.tf']),
+			);
+
+			expect(decision.approval[1]).toMatchObject({
+				name: 'terraform',
+				result: false,
+				conditions: [{ condition: 'changed_files', passed: true }],
+			});
+		});
+
+		test('fails paths when only ignored files match', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(
+				createFilesContext(['src/index.ts', 'infra/terraform/README.md']),
+			);
+
+			expect(decision.approval[1]).toMatchObject({
+				result: 'skipped',
+				conditions: [
+					{
+						condition: 'changed_files',
+						passed: false,
+						reasons: ['No changed files match the policy paths'],
+					},
+				],
+			});
+		});
+
+		test('fails when the changed files are missing from the context', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(createFilesContext());
+
+			expect(decision.result).toBe('skipped');
+			expect(decision.approval[0]).toMatchObject({
+				conditions: [
+					{
+						condition: 'changed_files',
+						passed: false,
+						reasons: ['No changed files found in context'],
+					},
+				],
+			});
+		});
+	});
+
+	describe('not operator', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: [{ and: ['platform', { not: 'bot-commits' }] }],
+			},
+			approval_rules: [
+				{
+					name: 'platform',
+					requires: { count: 1, users: ['reviewer-a'] },
+					methods: { github_review: true },
+				},
+				{
+					name: 'bot-commits',
+					if: { only_has_authors_in: { users: ['renovate[bot]'] } },
+					requires: { count: 0 },
+				},
+			],
+		};
+
+		const reviews = [
+			{
+				id: 1,
+				state: 'APPROVED',
+				commit_id: 'test-sha',
+				submitted_at: '2021-01-01T00:00:00Z',
+				user: { id: 2, login: 'reviewer-a' },
+			},
+		];
+
+		const botCommits = [
+			{
+				sha: 'test-sha',
+				author: { login: 'renovate[bot]', id: 999 },
+				committer: { login: 'renovate[bot]', id: 999 },
+			},
+		];
+
+		test('passes when the negated rule is skipped', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews,
+			});
+
+			expect(decision.approved).toBe(true);
+			expect(decision.approval[0]).toMatchObject({
+				type: 'and',
+				rules: [
+					{ type: 'rule', name: 'platform', result: true },
+					{
+						type: 'not',
+						result: 'skipped',
+						rules: [{ type: 'rule', name: 'bot-commits', result: 'skipped' }],
+					},
+				],
+			});
+		});
+
+		test('fails when the negated rule passes', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				commits: botCommits,
+				reviews,
+			});
+
+			expect(decision.approved).toBe(false);
+			expect(decision.approval[0]).toMatchObject({
+				rules: [{ result: true }, { type: 'not', result: false }],
+			});
+			// More approvals cannot make the negated rule fail
+			expect(decision.outcome).toBe('rejected');
+		});
+
+		test('never approves on its own', async () => {
+			const evaluator = new PolicyEvaluator(
+				{
+					...config,
+					policy: { approval: [{ not: 'platform' }, { not: 'bot-commits' }] },
+				},
+				identity,
+			);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [],
+			});
+
+			expect(decision.result).toBe('skipped');
+			expect(decision.approved).toBe(false);
+		});
+
+		test('negates groups', async () => {
+			const evaluator = new PolicyEvaluator(
+				{
+					...config,
+					policy: {
+						approval: [{ and: ['platform', { not: { or: ['bot-commits'] } }] }],
+					},
+				},
+				identity,
+			);
+
+			expect(
+				await evaluator.evaluate({
+					...baseContext,
+					commits: botCommits,
+					reviews,
+				}),
+			).toBe(false);
+		});
+	});
+
+	describe('decision trace', () => {
+		test('returns an empty trace when no approval rules are present', async () => {
+			const evaluator = new PolicyEvaluator(baseConfig, identity);
+			const decision = await evaluator.evaluateWithTrace(baseContext);
+
+			expect(decision).toEqual({
+				approved: false,
+				result: false,
+				outcome: 'rejected',
+				approval: [],
+			});
+		});
+
+		test('records groups, named rules and condition results', async () => {
+			const config: PolicyConfig = {
+				...baseConfig,
+				policy: {
+					approval: [
+						{
+							and: ['staging-only', 'review-rule'],
+						},
+					],
+				},
+				approval_rules: [
+					{
+						name: 'staging-only',
+						if: {
+							environment: {
+								matches: ['staging'],
+							},
+						},
+					},
+					{
+						name: 'review-rule',
+						requires: {
+							count: 1,
+							users: ['test-reviewer'],
+						},
+						methods: { github_review: true },
+					},
+				],
+			};
+
+			const context: PolicyContext = {
+				...baseContext,
+				reviews: [
+					{
+						id: 1,
+						user: { id: 789, login: 'test-reviewer' },
+						state: 'APPROVED',
+						commit_id: 'test-sha',
+						submitted_at: '2021-01-01T00:00:00Z',
+					},
+				],
+			};
+
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(context);
+
+			expect(decision.approved).toBe(true);
+			expect(decision.approval).toEqual([
+				{
+					type: 'and',
+					result: true,
+					rules: [
+						{
+							type: 'rule',
+							name: 'staging-only',
+							result: 'skipped',
+							conditions: [
+								{
+									condition: 'environment',
+									passed: false,
+									reasons: [
+										'Environment "production" does not match any allowed environments',
+									],
+								},
+							],
+						},
+						{
+							type: 'rule',
+							name: 'review-rule',
+							result: true,
+							conditions: [],
+							requirements: {
+								required: 1,
+								count: 1,
+								approvers: {
+									users: ['test-reviewer'],
+									teams: [],
+									organizations: [],
+								},
+								reviews: [
+									{
+										id: 1,
+										user: 'test-reviewer',
+										state: 'APPROVED',
+										counted: true,
+									},
+								],
+							},
+						},
+					],
+				},
+			]);
+		});
+
+		test('records why each review was discarded', async () => {
+			const config: PolicyConfig = {
+				...baseConfig,
+				policy: {
+					approval: ['review-rule'],
+				},
+				approval_rules: [
+					{
+						name: 'review-rule',
+						requires: {
+							count: 2,
+							users: ['reviewer-a', 'reviewer-b', 'test-author'],
+						},
+						methods: {
+							github_review: true,
+							github_review_comment_patterns: ['/deploy'],
+						},
+					},
+				],
+			};
+
+			const review = (
+				id: number,
+				login: string,
+				userId: number,
+				state: string,
+				overrides: Partial<PolicyContext['reviews'][number]> = {},
+			) => ({
+				id,
+				user: { id: userId, login },
+				state,
+				commit_id: 'test-sha',
+				submitted_at: '2021-01-01T00:00:00Z',
+				...overrides,
+			});
+
+			const context: PolicyContext = {
+				...baseContext,
+				reviews: [
+					review(1, 'reviewer-a', 1, 'APPROVED', { commit_id: 'old-sha' }),
+					review(2, 'test-author', 123, 'APPROVED'),
+					review(3, 'outsider', 999, 'APPROVED'),
+					review(4, 'reviewer-b', 2, 'COMMENTED', { body: 'looks good' }),
+					review(5, 'reviewer-b', 2, 'CHANGES_REQUESTED'),
+					review(6, 'reviewer-a', 1, 'COMMENTED', { body: '/deploy' }),
+				],
+			};
+
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(context);
+
+			expect(decision.approved).toBe(false);
+			expect(decision.result).toBe(false);
+
+			const [trace] = decision.approval;
+			expect(trace).toMatchObject({
+				type: 'rule',
+				name: 'review-rule',
+				result: false,
+			});
+			expect(trace.type === 'rule' && trace.requirements).toEqual({
+				required: 2,
+				count: 1,
+				approvers: {
+					users: ['reviewer-a', 'reviewer-b', 'test-author'],
+					teams: [],
+					organizations: [],
+				},
+				reviews: [
+					expect.objectContaining({ id: 1, discarded: 'wrong_sha' }),
+					expect.objectContaining({ id: 2, discarded: 'self_review' }),
+					expect.objectContaining({ id: 3, discarded: 'unauthorized' }),
+					expect.objectContaining({ id: 4, discarded: 'pattern_mismatch' }),
+					expect.objectContaining({ id: 5, discarded: 'unsupported_method' }),
+					{
+						id: 6,
+						user: 'reviewer-a',
+						state: 'COMMENTED',
+						counted: true,
+						pattern: '/deploy',
+					},
+				],
+			});
+		});
+
+		test('records the reasons a signature condition failed', async () => {
+			const config: PolicyConfig = {
+				...baseConfig,
+				policy: {
+					approval: ['signed'],
+				},
+				approval_rules: [
+					{
+						name: 'signed',
+						if: {
+							has_valid_signatures_by: {
+								users: ['test-committer'],
+							},
+						},
+					},
+				],
+			};
+
+			const context: PolicyContext = {
+				...baseContext,
+				commits: [
+					...baseContext.commits,
+					{
+						sha: 'unsigned-sha',
+						committer: { id: 456, login: 'test-committer' },
+						verification: { verified: false, reason: 'unsigned' },
+					},
+				],
+			};
+
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace(context);
+
+			expect(decision.result).toBe('skipped');
+			expect(decision.approved).toBe(false);
+			expect(decision.approval[0]).toMatchObject({
+				result: 'skipped',
+				conditions: [
+					{
+						condition: 'has_valid_signatures_by',
+						passed: false,
+						reasons: [
+							'Commit "unsigned-sha" signature not verified by GitHub: unsigned',
+						],
+					},
+				],
+			});
+		});
+	});
+
+	describe('decision outcome', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: [
+					{ and: ['staging-signed'] },
+					{ and: ['signed', 'review-rule'] },
+				],
+			},
+			approval_rules: [
+				{
+					name: 'staging-signed',
+					if: {
+						environment: { matches: ['staging'] },
+					},
+				},
+				{
+					name: 'signed',
+					if: {
+						has_valid_signatures: true,
+					},
+				},
+				{
+					name: 'review-rule',
+					if: {
+						environment: { not_matches: ['staging'] },
+					},
+					requires: {
+						count: 1,
+						users: ['reviewer-a'],
+					},
+					methods: { github_review: true },
+				},
+			],
+		};
+
+		test('is approved when the policy passes', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				environment: { name: 'staging' },
+			});
+
+			expect(decision.outcome).toBe('approved');
+		});
+
+		test('is pending when more approvals could satisfy the policy', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [],
+			});
+
+			expect(decision.approved).toBe(false);
+			expect(decision.outcome).toBe('pending');
+		});
+
+		test('ignores skipped rules in groups that could still pass', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				commits: [
+					{
+						sha: 'test-sha',
+						verification: { verified: false, reason: 'unsigned' },
+					},
+				],
+				reviews: [],
+			});
+
+			expect(decision.outcome).toBe('pending');
+		});
+
+		test('is rejected when no rule can be satisfied', async () => {
+			const evaluator = new PolicyEvaluator(
+				{ ...config, policy: { approval: ['staging-signed'] } },
+				identity,
+			);
+			const decision = await evaluator.evaluateWithTrace(baseContext);
+
+			expect(decision.result).toBe('skipped');
+			expect(decision.outcome).toBe('rejected');
+		});
+	});
+
+	describe('latest review per user', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['review-rule'],
+			},
+			approval_rules: [
+				{
+					name: 'review-rule',
+					requires: {
+						count: 2,
+						users: ['reviewer-a', 'reviewer-b'],
+					},
+					methods: {
+						github_review: true,
+						github_review_comment_patterns: ['/deploy'],
+					},
+				},
+			],
+		};
+
+		const review = (
+			id: number,
+			login: string,
+			userId: number,
+			state: string,
+			submittedAt: string,
+			body?: string,
+		) => ({
+			id,
+			user: { id: userId, login },
+			state,
+			body,
+			commit_id: 'test-sha',
+			submitted_at: submittedAt,
+		});
+
+		const evaluateRequirements = async (reviews: PolicyContext['reviews']) => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews,
+			});
+			const [trace] = decision.approval;
+			return trace.type === 'rule' ? trace.requirements : undefined;
+		};
+
+		test('counts repeated approvals by the same user once', async () => {
+			const requirements = await evaluateRequirements([
+				review(1, 'reviewer-a', 1, 'APPROVED', '2021-01-01T10:00:00Z'),
+				review(2, 'reviewer-a', 1, 'APPROVED', '2021-01-01T11:00:00Z'),
+				review(
+					3,
+					'reviewer-a',
+					1,
+					'COMMENTED',
+					'2021-01-01T12:00:00Z',
+					'/deploy',
+				),
+			]);
+
+			expect(requirements?.count).toBe(1);
+			expect(
+				requirements?.reviews.map(({ id, counted, discarded }) => ({
+					id,
+					counted,
+					discarded,
+				})),
+			).toEqual([
+				{ id: 1, counted: false, discarded: 'superseded' },
+				{ id: 2, counted: false, discarded: 'superseded' },
+				{ id: 3, counted: true, discarded: undefined },
+			]);
+		});
+
+		test('counts distinct approvers', async () => {
+			const requirements = await evaluateRequirements([
+				review(1, 'reviewer-a', 1, 'APPROVED', '2021-01-01T10:00:00Z'),
+				review(2, 'reviewer-b', 2, 'APPROVED', '2021-01-01T11:00:00Z'),
+			]);
+
+			expect(requirements?.count).toBe(2);
+		});
+
+		test('revokes an approval with a later change request', async () => {
+			const requirements = await evaluateRequirements([
+				review(2, 'reviewer-b', 2, 'APPROVED', '2021-01-01T09:00:00Z'),
+				// Out of order to check reviews are sorted by submission time
+				review(4, 'reviewer-a', 1, 'CHANGES_REQUESTED', '2021-01-01T12:00:00Z'),
+				review(3, 'reviewer-a', 1, 'APPROVED', '2021-01-01T11:00:00Z'),
+			]);
+
+			expect(requirements?.count).toBe(1);
+			expect(requirements?.reviews).toContainEqual({
+				id: 3,
+				user: 'reviewer-a',
+				state: 'APPROVED',
+				counted: false,
+				discarded: 'superseded',
+			});
+		});
+
+		test('revokes an approval with a later dismissal', async () => {
+			const requirements = await evaluateRequirements([
+				review(1, 'reviewer-a', 1, 'APPROVED', '2021-01-01T10:00:00Z'),
+				review(2, 'reviewer-a', 1, 'DISMISSED', '2021-01-01T11:00:00Z'),
+			]);
+
+			expect(requirements?.count).toBe(0);
+		});
+
+		test('counts an approval after a change request', async () => {
+			const requirements = await evaluateRequirements([
+				review(1, 'reviewer-a', 1, 'CHANGES_REQUESTED', '2021-01-01T10:00:00Z'),
+				review(2, 'reviewer-a', 1, 'APPROVED', '2021-01-01T11:00:00Z'),
+				review(3, 'reviewer-b', 2, 'APPROVED', '2021-01-01T11:00:00Z'),
+			]);
+
+			expect(requirements?.count).toBe(2);
+		});
+
+		test('keeps an approval when followed by a plain comment', async () => {
+			const requirements = await evaluateRequirements([
+				review(1, 'reviewer-a', 1, 'APPROVED', '2021-01-01T10:00:00Z'),
+				review(2, 'reviewer-a', 1, 'COMMENTED', '2021-01-01T11:00:00Z', 'nit'),
+			]);
+
+			expect(requirements?.count).toBe(1);
+		});
+	});
+
+	describe('issue comments', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['comment-rule'],
+			},
+			approval_rules: [
+				{
+					name: 'comment-rule',
+					requires: {
+						count: 1,
+						users: ['reviewer-a', 'reviewer-b'],
+					},
+					methods: {
+						github_review: true,
+						issue_comment_patterns: ['/^\\/deploy/'],
+					},
+				},
+			],
+		};
+
+		const comment = {
+			id: 10,
+			user: { id: 1, login: 'reviewer-a' },
+			body: '/deploy',
+			created_at: '2021-01-01T10:00:00Z',
+			updated_at: '2021-01-01T10:00:00Z',
+		};
+
+		const evaluateComments = async (
+			comments: PolicyContext['comments'],
+			ruleConfig = config,
+		) => {
+			const evaluator = new PolicyEvaluator(ruleConfig, identity);
+			return evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [],
+				comments,
+			});
+		};
+
+		test('approves with a matching comment', async () => {
+			const decision = await evaluateComments([comment]);
+
+			expect(decision.approved).toBe(true);
+			const [trace] = decision.approval;
+			expect(trace.type === 'rule' && trace.requirements?.reviews).toEqual([
+				{
+					id: 10,
+					user: 'reviewer-a',
+					state: 'COMMENTED',
+					counted: true,
+					pattern: '/^\\/deploy/',
+					source: 'issue_comment',
+				},
+			]);
+		});
+
+		test('ignores comments when the rule does not accept them', async () => {
+			const decision = await evaluateComments([comment], {
+				...config,
+				approval_rules: [
+					{
+						...config.approval_rules[0],
+						methods: { github_review: true },
+					},
+				],
+			});
+
+			expect(decision.approved).toBe(false);
+		});
+
+		test('does not approve with a comment that does not match', async () => {
+			const decision = await evaluateComments([
+				{ ...comment, body: 'please /deploy' },
+			]);
+
+			expect(decision.approved).toBe(false);
+		});
+
+		test('does not approve with an edited comment', async () => {
+			const decision = await evaluateComments([
+				{ ...comment, updated_at: '2021-01-01T10:05:00Z' },
+			]);
+
+			expect(decision.approved).toBe(false);
+			const [trace] = decision.approval;
+			expect(
+				trace.type === 'rule' && trace.requirements?.reviews[0].discarded,
+			).toBe('edited');
+		});
+
+		test('does not approve with a stale comment', async () => {
+			const decision = await evaluateComments([{ ...comment, stale: true }]);
+
+			expect(decision.approved).toBe(false);
+		});
+
+		test('does not approve with a comment by the commit author', async () => {
+			const decision = await evaluateComments([
+				{ ...comment, user: { id: 123, login: 'test-author' } },
+			]);
+
+			expect(decision.approved).toBe(false);
+		});
+
+		test('counts a reviewer once across reviews and comments', async () => {
+			const evaluator = new PolicyEvaluator(
+				{
+					...config,
+					approval_rules: [
+						{
+							...config.approval_rules[0],
+							requires: { count: 2, users: ['reviewer-a', 'reviewer-b'] },
+						},
+					],
+				},
+				identity,
+			);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					{
+						id: 1,
+						user: { id: 1, login: 'reviewer-a' },
+						state: 'APPROVED',
+						commit_id: 'test-sha',
+						submitted_at: '2021-01-01T09:00:00Z',
+					},
+				],
+				comments: [comment],
+			});
+
+			expect(decision.approved).toBe(false);
+		});
+
+		test('revokes a comment approval with a later change request', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					{
+						id: 1,
+						user: { id: 1, login: 'reviewer-a' },
+						state: 'CHANGES_REQUESTED',
+						commit_id: 'test-sha',
+						submitted_at: '2021-01-01T11:00:00Z',
+					},
+				],
+				comments: [comment],
+			});
+
+			expect(decision.approved).toBe(false);
+		});
+	});
+
+	describe('environment-scoped comments', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['comment-rule'],
+			},
+			approval_rules: [
+				{
+					name: 'comment-rule',
+					requires: {
+						count: 1,
+						users: ['reviewer-a'],
+					},
+					methods: {
+						github_review_comment_patterns: [
+							'/^\\/deploy(\\s+(?<environment>[\\w\\s,-]+))?$/',
+						],
+						issue_comment_patterns: [
+							'/^\\/deploy(\\s+(?<environment>[\\w\\s,-]+))?$/',
+						],
+					},
+				},
+			],
+		};
+
+		const evaluateComment = async (body: string, environment?: string) => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			return evaluator.evaluateWithTrace({
+				...baseContext,
+				environment: environment ? { name: environment } : undefined,
+				reviews: [],
+				comments: [
+					{
+						id: 10,
+						user: { id: 1, login: 'reviewer-a' },
+						body,
+						created_at: '2021-01-01T10:00:00Z',
+					},
+				],
+			});
+		};
+
+		test('approves every environment without an environment argument', async () => {
+			expect((await evaluateComment('/deploy', 'production')).approved).toBe(
+				true,
+			);
+		});
+
+		test('approves every environment with "all"', async () => {
+			expect(
+				(await evaluateComment('/deploy all', 'production')).approved,
+			).toBe(true);
+		});
+
+		test('approves the named environments', async () => {
+			expect(
+				(await evaluateComment('/deploy staging, Production', 'production'))
+					.approved,
+			).toBe(true);
+		});
+
+		test('does not approve other environments', async () => {
+			const decision = await evaluateComment('/deploy staging', 'production');
+
+			expect(decision.approved).toBe(false);
+			const [trace] = decision.approval;
+			expect(trace.type === 'rule' && trace.requirements?.reviews).toEqual([
+				{
+					id: 10,
+					user: 'reviewer-a',
+					state: 'COMMENTED',
+					counted: false,
+					discarded: 'wrong_environment',
+					pattern:
+						config.approval_rules[0].methods?.issue_comment_patterns?.[0],
+					environments: ['staging'],
+					source: 'issue_comment',
+				},
+			]);
+		});
+
+		test('matches environment arguments exactly', async () => {
+			expect((await evaluateComment('/deploy prod', 'prod-eu')).approved).toBe(
+				false,
+			);
+		});
+
+		test('scopes review comments', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				environment: { name: 'production' },
+				reviews: [
+					{
+						id: 1,
+						user: { id: 1, login: 'reviewer-a' },
+						state: 'COMMENTED',
+						body: '/deploy staging',
+						commit_id: 'test-sha',
+					},
+				],
+			});
+
+			expect(decision.approved).toBe(false);
+		});
+	});
+
+	describe('disapproval', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['review-rule'],
+				disapproval: {
+					requires: {
+						users: ['reviewer-b', 'test-reviewer'],
+					},
+					methods: {
+						github_review_comment_patterns: ['/^\\/block/'],
+					},
+				},
+			},
+			approval_rules: [
+				{
+					name: 'review-rule',
+					requires: {
+						count: 1,
+						users: ['reviewer-a'],
+					},
+					methods: { github_review: true },
+				},
+			],
+		};
+
+		const review = (
+			id: number,
+			login: string,
+			userId: number,
+			state: string,
+			submittedAt: string,
+			body?: string,
+		) => ({
+			id,
+			user: { id: userId, login },
+			state,
+			body,
+			commit_id: 'test-sha',
+			submitted_at: submittedAt,
+		});
+
+		const approval = review(
+			1,
+			'reviewer-a',
+			1,
+			'APPROVED',
+			'2021-01-01T10:00:00Z',
+		);
+
+		test('does not report disapproval when the policy has none', async () => {
+			const evaluator = new PolicyEvaluator(
+				{ ...config, policy: { approval: ['review-rule'] } },
+				identity,
+			);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [approval],
+			});
+
+			expect(decision.approved).toBe(true);
+			expect(decision.disapproval).toBeUndefined();
+		});
+
+		test('vetoes deployment when an authorized reviewer requests changes', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					approval,
+					review(
+						2,
+						'reviewer-b',
+						2,
+						'CHANGES_REQUESTED',
+						'2021-01-01T09:00:00Z',
+					),
+				],
+			});
+
+			expect(decision).toMatchObject({
+				approved: false,
+				result: false,
+				outcome: 'rejected',
+				disapproval: {
+					vetoed: true,
+					vetoes: [{ id: 2, user: 'reviewer-b', state: 'CHANGES_REQUESTED' }],
+				},
+			});
+			// The approval rule itself is still satisfied
+			expect(decision.approval[0].result).toBe(true);
+		});
+
+		test('vetoes deployment with a matching comment', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					approval,
+					review(
+						2,
+						'reviewer-b',
+						2,
+						'COMMENTED',
+						'2021-01-01T09:00:00Z',
+						'please wait',
+					),
+					review(
+						3,
+						'test-reviewer',
+						789,
+						'COMMENTED',
+						'2021-01-01T11:00:00Z',
+						'/block until the freeze ends',
+					),
+				],
+			});
+
+			expect(decision.approved).toBe(false);
+			expect(decision.disapproval?.vetoes).toEqual([
+				{
+					id: 3,
+					user: 'test-reviewer',
+					state: 'COMMENTED',
+					counted: true,
+					pattern: '/^\\/block/',
+				},
+			]);
+		});
+
+		test('lifts the veto when the reviewer approves afterwards', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					approval,
+					review(3, 'reviewer-b', 2, 'APPROVED', '2021-01-01T12:00:00Z'),
+					review(
+						2,
+						'reviewer-b',
+						2,
+						'CHANGES_REQUESTED',
+						'2021-01-01T11:00:00Z',
+					),
+				],
+			});
+
+			expect(decision.approved).toBe(true);
+			expect(decision.disapproval).toEqual({ vetoed: false, vetoes: [] });
+		});
+
+		test('vetoes deployment with a matching pull request comment', async () => {
+			const evaluator = new PolicyEvaluator(
+				{
+					...config,
+					policy: {
+						...config.policy,
+						disapproval: {
+							...config.policy.disapproval!,
+							methods: { issue_comment_patterns: ['/^\\/block/'] },
+						},
+					},
+				},
+				identity,
+			);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [approval],
+				comments: [
+					{
+						id: 10,
+						user: { id: 2, login: 'reviewer-b' },
+						body: '/block until the freeze ends',
+						created_at: '2021-01-01T09:00:00Z',
+						stale: true,
+					},
+				],
+			});
+
+			expect(decision.approved).toBe(false);
+			expect(decision.disapproval?.vetoes).toEqual([
+				{
+					id: 10,
+					user: 'reviewer-b',
+					state: 'COMMENTED',
+					counted: true,
+					pattern: '/^\\/block/',
+					source: 'issue_comment',
+				},
+			]);
+		});
+
+		test('ignores pull request comments unless the policy has comment patterns', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [approval],
+				comments: [
+					{
+						id: 10,
+						user: { id: 2, login: 'reviewer-b' },
+						body: '/block',
+						created_at: '2021-01-01T09:00:00Z',
+					},
+				],
+			});
+
+			expect(decision.approved).toBe(true);
+		});
+
+		test('lifts a comment veto when the reviewer approves afterwards', async () => {
+			const evaluator = new PolicyEvaluator(
+				{
+					...config,
+					policy: {
+						...config.policy,
+						disapproval: {
+							...config.policy.disapproval!,
+							methods: { issue_comment_patterns: ['/^\\/block/'] },
+						},
+					},
+				},
+				identity,
+			);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					approval,
+					review(3, 'reviewer-b', 2, 'APPROVED', '2021-01-01T12:00:00Z'),
+				],
+				comments: [
+					{
+						id: 10,
+						user: { id: 2, login: 'reviewer-b' },
+						body: '/block',
+						created_at: '2021-01-01T11:00:00Z',
+					},
+				],
+			});
+
+			expect(decision.approved).toBe(true);
+			expect(decision.disapproval?.vetoed).toBe(false);
+		});
+
+		test('does not veto with dismissed reviews', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					approval,
+					review(2, 'reviewer-b', 2, 'DISMISSED', '2021-01-01T11:00:00Z'),
+				],
+			});
+
+			expect(decision.approved).toBe(true);
+		});
+
+		test('ignores vetoes from reviewers who are not authorized to disapprove', async () => {
+			const evaluator = new PolicyEvaluator(config, identity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					approval,
+					review(
+						2,
+						'outsider',
+						999,
+						'CHANGES_REQUESTED',
+						'2021-01-01T11:00:00Z',
+					),
+				],
+			});
+
+			expect(decision.approved).toBe(true);
+			expect(decision.disapproval?.vetoed).toBe(false);
+		});
+
+		test('can ignore change requests', async () => {
+			const evaluator = new PolicyEvaluator(
+				{
+					...config,
+					policy: {
+						...config.policy,
+						disapproval: {
+							requires: { users: ['reviewer-b'] },
+							methods: { github_review: false },
+						},
+					},
+				},
+				identity,
+			);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [
+					approval,
+					review(
+						2,
+						'reviewer-b',
+						2,
+						'CHANGES_REQUESTED',
+						'2021-01-01T11:00:00Z',
+					),
+				],
+			});
+
+			expect(decision.approved).toBe(true);
+		});
+	});
+
+	describe('API error handling', () => {
+		test('handles API errors gracefully and allows other rules to pass', async () => {
+			// Mock one function to fail and another to succeed
+			vi.mocked(client.getTeamMembership).mockRejectedValue(
+				new Error('Team not found'),
+			);
+			vi.mocked(client.getOrganizationMembership).mockImplementation(
+				mockMembers(['test-reviewer']),
+			);
+
+			const config: PolicyConfig = {
+				...baseConfig,
+				policy: {
+					approval: ['team-rule', 'org-rule'],
+				},
+				approval_rules: [
+					{
+						name: 'team-rule',
+						requires: {
+							count: 1,
+							teams: ['nonexistent-org/nonexistent-team'],
+						},
+						methods: {
+							github_review: true,
+						},
+					},
+					{
+						name: 'org-rule',
+						requires: {
+							count: 1,
+							organizations: ['test-org'],
+						},
+						methods: {
+							github_review: true,
+						},
+					},
+				],
+			};
+
+			const context: PolicyContext = {
+				...baseContext,
+				reviews: [
+					{
+						id: 1,
+						user: {
+							id: 789,
+							login: 'test-reviewer',
+						},
+						state: 'APPROVED',
+						commit_id: 'test-sha',
+						submitted_at: '2021-01-01T00:00:00Z',
+					},
+				],
+			};
+
+			const evaluator = new PolicyEvaluator(config, identity);
+			const result = await evaluator.evaluate(context);
+
+			// Should pass because the org-rule passes even though team-rule fails
+			expect(result).toBe(true);
+		});
+
+		test('handles both API errors and continues evaluation', async () => {
+			// Mock both functions to fail
+			vi.mocked(client.getTeamMembership).mockRejectedValue(
+				new Error('Team not found'),
+			);
+			vi.mocked(client.getOrganizationMembership).mockRejectedValue(
+				new Error('Org not found'),
+			);
+
+			const config: PolicyConfig = {
+				...baseConfig,
+				policy: {
+					approval: ['team-rule', 'user-rule'],
+				},
+				approval_rules: [
+					{
+						name: 'team-rule',
+						requires: {
+							count: 1,
+							teams: ['nonexistent-org/nonexistent-team'],
+						},
+						methods: {
+							github_review: true,
+						},
+					},
+					{
+						name: 'user-rule',
+						requires: {
+							count: 1,
+							users: ['test-reviewer'],
+						},
+						methods: {
+							github_review: true,
+						},
+					},
+				],
+			};
+
+			const context: PolicyContext = {
+				...baseContext,
+				reviews: [
+					{
+						id: 1,
+						user: {
+							id: 789,
+							login: 'test-reviewer',
+						},
+						state: 'APPROVED',
+						commit_id: 'test-sha',
+						submitted_at: '2021-01-01T00:00:00Z',
+					},
+				],
+			};
+
+			const evaluator = new PolicyEvaluator(config, identity);
+			const result = await evaluator.evaluate(context);
+
+			// Should pass because the user-rule passes even though team-rule fails
+			expect(result).toBe(true);
+		});
+	});
+
+	describe('signature validation', () => {
+		let mockLogger: any;
+
+		beforeEach(() => {
+			mockLogger = {
+				debug: vi.fn(),
+				info: vi.fn(),
+				warn: vi.fn(),
+				error: vi.fn(),
+			};
+		});
+
+		const hasValidSignaturesPolicy = (): PolicyConfig => ({
+			policy: {
+				approval: ['signature-rule'],
+			},
+			approval_rules: [
+				{
+					name: 'signature-rule',
+					if: {
+						has_valid_signatures: true,
+					},
+				},
+			],
+		});
+
+		const hasSignatureByPolicy = (): PolicyConfig => ({
+			policy: {
+				approval: ['signature-rule'],
+			},
+			approval_rules: [
+				{
+					name: 'signature-rule',
 					if: {
 						has_valid_signatures_by: {
 							users: ['trusted-user'],
@@ -1765,11 +3434,7 @@ describe('PolicyEvaluator', () => {
 			const config = hasSignatureByPolicy();
 			const context = createSignatureContext();
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(true);
@@ -1787,11 +3452,7 @@ describe('PolicyEvaluator', () => {
 				},
 			});
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(false);
@@ -1809,11 +3470,7 @@ describe('PolicyEvaluator', () => {
 				},
 			});
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(false);
@@ -1830,11 +3487,7 @@ describe('PolicyEvaluator', () => {
 				committer: undefined,
 			});
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(false);
@@ -1852,11 +3505,7 @@ describe('PolicyEvaluator', () => {
 				},
 			});
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(true);
@@ -1876,11 +3525,7 @@ describe('PolicyEvaluator', () => {
 				},
 			});
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(false);
@@ -1913,11 +3558,7 @@ describe('PolicyEvaluator', () => {
 				},
 			});
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(true);
@@ -1950,11 +3591,7 @@ describe('PolicyEvaluator', () => {
 				},
 			});
 
-			const evaluator = new PolicyEvaluator(
-				config,
-				mockGithubContext,
-				mockLogger,
-			);
+			const evaluator = new PolicyEvaluator(config, identity, mockLogger);
 			const result = await evaluator.evaluate(context);
 
 			expect(result).toBe(true);
@@ -1963,4 +3600,287 @@ describe('PolicyEvaluator', () => {
 			);
 		});
 	});
+
+	describe('repository permissions', () => {
+		const staticIdentity = new StaticIdentityProvider({
+			permissions: {
+				'reviewer-a': 'maintain',
+				'reviewer-b': 'triage',
+			},
+		});
+
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['maintainers'],
+			},
+			approval_rules: [
+				{
+					name: 'maintainers',
+					requires: {
+						count: 1,
+						permissions: ['write'],
+					},
+					methods: { github_review: true },
+				},
+			],
+		};
+
+		const review = (id: number, login: string) => ({
+			id,
+			user: { id, login },
+			state: 'APPROVED',
+			commit_id: 'test-sha',
+			submitted_at: '2021-01-01T10:00:00Z',
+		});
+
+		test('counts approvals by users with at least the required permission', async () => {
+			const evaluator = new PolicyEvaluator(config, staticIdentity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [review(1, 'reviewer-a')],
+			});
+
+			expect(decision.approved).toBe(true);
+		});
+
+		test('discards approvals by users with a lower permission', async () => {
+			const evaluator = new PolicyEvaluator(config, staticIdentity);
+			const decision = await evaluator.evaluateWithTrace({
+				...baseContext,
+				reviews: [review(2, 'reviewer-b'), review(3, 'outsider')],
+			});
+
+			expect(decision.approved).toBe(false);
+			const trace = decision.approval[0];
+			expect(trace.type === 'rule' && trace.requirements).toMatchObject({
+				approvers: { permissions: ['write'] },
+				reviews: [
+					{ user: 'reviewer-b', discarded: 'unauthorized' },
+					{ user: 'outsider', discarded: 'unauthorized' },
+				],
+			});
+		});
+
+		test('does not grant permissions when the lookup fails', async () => {
+			vi.mocked(client.getCollaboratorPermission).mockRejectedValue(
+				new Error('Server Error'),
+			);
+			const evaluator = new PolicyEvaluator(config, identity);
+
+			expect(
+				await evaluator.evaluate({
+					...baseContext,
+					reviews: [review(1, 'reviewer-a')],
+				}),
+			).toBe(false);
+		});
+	});
+
+	describe('freeze windows', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['reviewed'],
+			},
+			approval_rules: [
+				{
+					name: 'reviewed',
+					requires: { count: 1, users: ['reviewer-a'] },
+					methods: { github_review: true },
+				},
+				{
+					name: 'emergency',
+					requires: { count: 2, users: ['reviewer-a', 'reviewer-b'] },
+					methods: { github_review: true },
+				},
+			],
+			freeze: {
+				windows: [
+					{
+						name: 'end of year',
+						environments: ['production'],
+						from: '2025-12-20',
+						until: '2026-01-05',
+					},
+				],
+				freeze_override: 'emergency',
+			},
+		};
+
+		const createFreezeContext = (environment: string): PolicyContext => ({
+			...baseContext,
+			environment: { name: environment },
+			reviews: [
+				{
+					id: 1,
+					state: 'APPROVED',
+					commit_id: 'test-sha',
+					submitted_at: '2025-12-22T10:00:00Z',
+					user: { id: 2, login: 'reviewer-a' },
+				},
+			],
+		});
+
+		const duringFreeze = () => new Date('2025-12-24T12:00:00Z');
+
+		test('evaluates the approval policy outside of freeze windows', async () => {
+			const evaluator = new PolicyEvaluator(
+				config,
+				identity,
+				console,
+				() => new Date('2026-01-05T00:00:00Z'),
+			);
+			const decision = await evaluator.evaluateWithTrace(
+				createFreezeContext('production'),
+			);
+
+			expect(decision.approved).toBe(true);
+			expect(decision.freeze).toBeUndefined();
+		});
+
+		test('only evaluates the override rule during a freeze', async () => {
+			const evaluator = new PolicyEvaluator(
+				config,
+				identity,
+				console,
+				duringFreeze,
+			);
+			const decision = await evaluator.evaluateWithTrace(
+				createFreezeContext('production'),
+			);
+
+			expect(decision).toMatchObject({
+				approved: false,
+				outcome: 'pending',
+				freeze: { windows: ['end of year'], override: 'emergency' },
+				approval: [{ type: 'rule', name: 'emergency', result: false }],
+			});
+		});
+
+		test('rejects deployments during a freeze without an override rule', async () => {
+			const evaluator = new PolicyEvaluator(
+				{
+					...config,
+					freeze: { windows: config.freeze?.windows ?? [] },
+				},
+				identity,
+				console,
+				duringFreeze,
+			);
+			const decision = await evaluator.evaluateWithTrace(
+				createFreezeContext('production'),
+			);
+
+			expect(decision).toEqual({
+				approved: false,
+				result: false,
+				outcome: 'rejected',
+				approval: [],
+				freeze: { windows: ['end of year'] },
+			});
+		});
+
+		test('does not freeze other environments', async () => {
+			const evaluator = new PolicyEvaluator(
+				config,
+				identity,
+				console,
+				duringFreeze,
+			);
+
+			expect(await evaluator.evaluate(createFreezeContext('staging'))).toBe(
+				true,
+			);
+		});
+	});
+
+	describe('time_window condition', () => {
+		const config: PolicyConfig = {
+			...baseConfig,
+			policy: {
+				approval: ['business-hours', 'on-call'],
+			},
+			approval_rules: [
+				{
+					name: 'business-hours',
+					if: {
+						time_window: {
+							days: ['monday', 'tuesday', 'wednesday', 'thursday'],
+							start: '09:00',
+							end: '16:00',
+							timezone: 'Europe/Athens',
+						},
+					},
+					requires: { count: 0 },
+				},
+				{
+					name: 'on-call',
+					requires: { count: 1, users: ['reviewer-a'] },
+					methods: { github_review: true },
+				},
+			],
+		};
+
+		const createRequestContext = (createdAt?: string): PolicyContext => ({
+			...baseContext,
+			deployment: {
+				...baseContext.deployment!,
+				...(createdAt && { created_at: createdAt }),
+			},
+		});
+
+		// Saturday, so only the request time can be within the window
+		const weekend = () => new Date('2025-01-11T10:00:00Z');
+
+		test('evaluates the time the deployment was requested', async () => {
+			const evaluator = new PolicyEvaluator(config, identity, console, weekend);
+			// Thursday 10:00 in Athens (UTC+2)
+			const decision = await evaluator.evaluateWithTrace(
+				createRequestContext('2025-01-09T08:00:00Z'),
+			);
+
+			expect(decision.approved).toBe(true);
+			expect(decision.approval[0]).toMatchObject({
+				name: 'business-hours',
+				result: true,
+				conditions: [{ condition: 'time_window', passed: true }],
+			});
+		});
+
+		test('skips the rule for deployments requested outside of the window', async () => {
+			const evaluator = new PolicyEvaluator(config, identity, console, weekend);
+			// Thursday 16:30 in Athens
+			const decision = await evaluator.evaluateWithTrace(
+				createRequestContext('2025-01-09T14:30:00Z'),
+			);
+
+			expect(decision.approved).toBe(false);
+			expect(decision.approval[0]).toMatchObject({
+				name: 'business-hours',
+				result: 'skipped',
+				conditions: [
+					{
+						condition: 'time_window',
+						passed: false,
+						reasons: [
+							'Deployment requested on thursday at 16:30 (Europe/Athens) is outside of the time window',
+						],
+					},
+				],
+			});
+		});
+
+		test('uses the clock when the request time is not known', async () => {
+			const evaluator = new PolicyEvaluator(config, identity, console, weekend);
+			const decision = await evaluator.evaluateWithTrace(
+				createRequestContext(),
+			);
+
+			expect(decision.approval[0]).toMatchObject({
+				name: 'business-hours',
+				result: 'skipped',
+			});
+		});
+	});
 });
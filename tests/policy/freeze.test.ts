@@ -0,0 +1,123 @@
+import { describe, test, expect } from 'vitest';
+import {
+	findActiveFreezeWindows,
+	freezeAppliesTo,
+	isFreezeActive,
+} from '../../src/policy/freeze.js';
+import type { FreezeWindow } from '../../src/policy/types.js';
+
+describe('isFreezeActive', () => {
+	test('checks date ranges, excluding the end', () => {
+		const window: FreezeWindow = {
+			name: 'end of quarter',
+			from: '2025-03-28',
+			until: '2025-04-01T09:00:00+02:00',
+		};
+
+		expect(isFreezeActive(window, new Date('2025-03-27T23:59:59Z'))).toBe(
+			false,
+		);
+		expect(isFreezeActive(window, new Date('2025-03-28T00:00:00Z'))).toBe(true);
+		expect(isFreezeActive(window, new Date('2025-04-01T06:59:59Z'))).toBe(true);
+		expect(isFreezeActive(window, new Date('2025-04-01T07:00:00Z'))).toBe(
+			false,
+		);
+	});
+
+	test('accepts dates parsed from unquoted YAML timestamps', () => {
+		const window = {
+			name: 'holidays',
+			from: new Date('2025-12-24T00:00:00Z'),
+			until: new Date('2026-01-02T00:00:00Z'),
+		} as unknown as FreezeWindow;
+
+		expect(isFreezeActive(window, new Date('2025-12-31T12:00:00Z'))).toBe(true);
+	});
+
+	test('checks weekly ranges in a time zone', () => {
+		const window: FreezeWindow = {
+			name: 'friday afternoons',
+			days: ['friday'],
+			start: '15:00',
+			timezone: 'America/New_York',
+		};
+
+		// Friday 2025-01-10 at 14:59 and 15:00 in New York (UTC-5)
+		expect(isFreezeActive(window, new Date('2025-01-10T19:59:00Z'))).toBe(
+			false,
+		);
+		expect(isFreezeActive(window, new Date('2025-01-10T20:00:00Z'))).toBe(true);
+		// Still Friday in New York, but Saturday in UTC
+		expect(isFreezeActive(window, new Date('2025-01-11T04:59:00Z'))).toBe(true);
+		expect(isFreezeActive(window, new Date('2025-01-11T05:00:00Z'))).toBe(
+			false,
+		);
+	});
+
+	test('continues weekly ranges that end before they start into the next day', () => {
+		const window: FreezeWindow = {
+			name: 'nights',
+			days: ['sunday'],
+			start: '22:00',
+			end: '06:00',
+		};
+
+		expect(isFreezeActive(window, new Date('2025-01-12T21:59:00Z'))).toBe(
+			false,
+		);
+		expect(isFreezeActive(window, new Date('2025-01-12T23:00:00Z'))).toBe(true);
+		// Monday morning after the Sunday night
+		expect(isFreezeActive(window, new Date('2025-01-13T05:59:00Z'))).toBe(true);
+		expect(isFreezeActive(window, new Date('2025-01-13T06:00:00Z'))).toBe(
+			false,
+		);
+		// Saturday night is not part of the window
+		expect(isFreezeActive(window, new Date('2025-01-11T23:00:00Z'))).toBe(
+			false,
+		);
+	});
+
+	test('covers whole days when no times are given', () => {
+		const window: FreezeWindow = {
+			name: 'weekends',
+			days: ['saturday', 'sunday'],
+		};
+
+		expect(isFreezeActive(window, new Date('2025-01-10T23:59:00Z'))).toBe(
+			false,
+		);
+		expect(isFreezeActive(window, new Date('2025-01-11T00:00:00Z'))).toBe(true);
+		expect(isFreezeActive(window, new Date('2025-01-12T23:59:00Z'))).toBe(true);
+	});
+});
+
+describe('findActiveFreezeWindows', () => {
+	const windows: FreezeWindow[] = [
+		{ name: 'weekends', days: ['saturday', 'sunday'] },
+		{
+			name: 'production saturdays',
+			environments: ['production', 'production-*'],
+			days: ['saturday'],
+		},
+	];
+
+	test('only applies windows to the environments they are limited to', () => {
+		const saturday = new Date('2025-01-11T12:00:00Z');
+
+		expect(
+			findActiveFreezeWindows({ windows }, 'production-eu', saturday).map(
+				(window) => window.name,
+			),
+		).toEqual(['weekends', 'production saturdays']);
+		expect(
+			findActiveFreezeWindows({ windows }, 'staging', saturday).map(
+				(window) => window.name,
+			),
+		).toEqual(['weekends']);
+	});
+
+	test('does not apply windows limited to environments when there is none', () => {
+		expect(freezeAppliesTo(windows[0], undefined)).toBe(true);
+		expect(freezeAppliesTo(windows[1], undefined)).toBe(false);
+	});
+});
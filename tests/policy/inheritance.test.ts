@@ -0,0 +1,280 @@
+import { describe, test, expect } from 'vitest';
+import {
+	findLockViolations,
+	mergePolicyConfigs,
+} from '../../src/policy/inheritance.js';
+import type { PolicyConfig, RuleCondition } from '../../src/policy/types.js';
+
+const orgConfig = (): PolicyConfig => ({
+	policy: {
+		approval: ['maintainers', 'staging'],
+		disapproval: { requires: { teams: ['org/security'] } },
+	},
+	approval_rules: [
+		{
+			name: 'maintainers',
+			requires: { count: 2, teams: ['org/maintainers'] },
+		},
+		{
+			name: 'staging',
+			if: { environment: { matches: ['staging'] } },
+			requires: { count: 0 },
+		},
+	],
+	locked: { rules: ['maintainers'], environments: ['production'] },
+});
+
+describe('mergePolicyConfigs', () => {
+	test('keeps the organization policy when the repository only adds rules', () => {
+		const merged = mergePolicyConfigs(orgConfig(), {
+			extends: true,
+			policy: { approval: [] },
+			approval_rules: [{ name: 'docs', requires: { count: 1 } }],
+		});
+
+		expect(merged).toEqual({
+			...orgConfig(),
+			approval_rules: [
+				...orgConfig().approval_rules,
+				{ name: 'docs', requires: { count: 1 } },
+			],
+		});
+	});
+
+	test('replaces organization rules and policy sections defined by the repository', () => {
+		const merged = mergePolicyConfigs(orgConfig(), {
+			extends: true,
+			policy: {
+				approval: [{ and: ['maintainers', 'docs'] }, 'staging'] as any,
+				reject_unsatisfiable: true,
+			},
+			approval_rules: [
+				{ name: 'staging', requires: { count: 1 } },
+				{ name: 'docs', requires: { count: 1 } },
+			],
+		});
+
+		expect(merged.policy).toEqual({
+			approval: [{ and: ['maintainers', 'docs'] }, 'staging'],
+			disapproval: { requires: { teams: ['org/security'] } },
+			reject_unsatisfiable: true,
+		});
+		expect(merged.approval_rules.map((rule) => rule.name)).toEqual([
+			'maintainers',
+			'staging',
+			'docs',
+		]);
+		expect(merged.approval_rules[1]).toEqual({
+			name: 'staging',
+			requires: { count: 1 },
+		});
+	});
+
+	test('keeps the locks of the organization', () => {
+		const merged = mergePolicyConfigs(orgConfig(), {
+			extends: true,
+			policy: { approval: [] },
+			approval_rules: [],
+			locked: { rules: [] },
+		});
+
+		expect(merged.locked).toEqual(orgConfig().locked);
+	});
+
+	test('merges freeze windows by name and keeps the organization override', () => {
+		const merged = mergePolicyConfigs(
+			{
+				...orgConfig(),
+				freeze: {
+					windows: [
+						{ name: 'holidays', from: '2025-12-20', until: '2026-01-05' },
+					],
+					freeze_override: 'maintainers',
+				},
+			},
+			{
+				extends: true,
+				policy: { approval: [] },
+				approval_rules: [],
+				freeze: {
+					windows: [
+						{ name: 'holidays', from: '2025-12-22', until: '2026-01-02' },
+						{ name: 'weekends', days: ['saturday', 'sunday'] },
+					],
+				},
+			},
+		);
+
+		expect(merged.freeze).toEqual({
+			windows: [
+				{ name: 'holidays', from: '2025-12-22', until: '2026-01-02' },
+				{ name: 'weekends', days: ['saturday', 'sunday'] },
+			],
+			freeze_override: 'maintainers',
+		});
+	});
+});
+
+describe('findLockViolations', () => {
+	test('accepts repositories that tighten locked rules', () => {
+		const config = mergePolicyConfigs(orgConfig(), {
+			extends: true,
+			policy: {
+				approval: [{ and: ['maintainers', 'docs'] }, 'staging'] as any,
+			},
+			approval_rules: [
+				{ name: 'maintainers', requires: { count: 3, teams: [] } },
+				{ name: 'docs', requires: { count: 1 } },
+			],
+		});
+
+		expect(findLockViolations(orgConfig(), config)).toEqual([]);
+	});
+
+	test('accepts any configuration when nothing is locked', () => {
+		const base = orgConfig();
+		delete base.locked;
+
+		expect(
+			findLockViolations(base, {
+				policy: { approval: [] },
+				approval_rules: [],
+			}),
+		).toEqual([]);
+	});
+
+	test('reports removed and unused locked rules', () => {
+		const config = orgConfig();
+		config.approval_rules.shift();
+
+		expect(findLockViolations(orgConfig(), config)).toContain(
+			'Locked rule "maintainers" was removed',
+		);
+
+		const unused = orgConfig();
+		unused.policy.approval = ['staging'];
+
+		expect(findLockViolations(orgConfig(), unused)).toEqual([
+			'Locked rule "maintainers" is no longer used by `policy.approval`',
+		]);
+	});
+
+	test('reports weakened locked rules', () => {
+		const config = mergePolicyConfigs(orgConfig(), {
+			extends: true,
+			policy: { approval: [] },
+			approval_rules: [
+				{
+					name: 'maintainers',
+					requires: { count: 1, teams: ['org/maintainers', 'org/contractors'] },
+				},
+			],
+		});
+
+		expect(findLockViolations(orgConfig(), config)).toEqual([
+			'Locked rule "maintainers": Required approvals lowered from 2 to 1',
+			'Locked rule "maintainers": Approvers (teams) adds org/contractors',
+			'Locked environment production: `production` now requires 1 approval instead of 2 approvals',
+		]);
+	});
+
+	test('reports locked rules that apply in fewer cases', () => {
+		const narrowed = (condition: RuleCondition) =>
+			mergePolicyConfigs(orgConfig(), {
+				extends: true,
+				policy: { approval: [{ and: ['maintainers', 'docs'] }] as any },
+				approval_rules: [
+					{
+						name: 'maintainers',
+						if: condition,
+						requires: { count: 2, teams: ['org/maintainers'] },
+					},
+					{ name: 'docs', requires: { count: 1 } },
+				],
+			});
+
+		expect(
+			findLockViolations(
+				orgConfig(),
+				narrowed({ labels: { has_labels: ['never-used'] } }),
+			),
+		).toEqual([
+			'Locked rule "maintainers": Condition `labels` added',
+			'Locked environment production: `production` now requires 1 approval instead of 2 approvals',
+		]);
+		expect(
+			findLockViolations(
+				orgConfig(),
+				narrowed({ environment: { not_matches: ['production'] } }),
+			),
+		).toEqual([
+			'Locked rule "maintainers": Condition `environment` added',
+			'Locked environment production: `production` now requires 1 approval instead of 2 approvals',
+		]);
+	});
+
+	test('reports alternatives added next to locked rules', () => {
+		const base = orgConfig();
+		base.locked = { rules: ['maintainers'] };
+		const bypass = (approval: any[]) =>
+			mergePolicyConfigs(base, {
+				extends: true,
+				policy: { approval },
+				approval_rules: [{ name: 'anyone', requires: { count: 0 } }],
+			});
+
+		expect(
+			findLockViolations(base, bypass(['maintainers', 'staging', 'anyone'])),
+		).toEqual(['Locked rule "maintainers" can be bypassed by `anyone`']);
+		expect(
+			findLockViolations(
+				base,
+				bypass([{ or: ['maintainers', 'anyone'] }, 'staging']),
+			),
+		).toEqual(['Locked rule "maintainers" can be bypassed by `anyone`']);
+		expect(
+			findLockViolations(
+				base,
+				bypass([{ and: [{ or: ['maintainers', 'anyone'] }, 'staging'] }]),
+			),
+		).toEqual(['Locked rule "maintainers" can be bypassed by `anyone`']);
+		expect(
+			findLockViolations(
+				base,
+				bypass([{ and: ['maintainers', 'anyone'] }, 'staging']),
+			),
+		).toEqual([]);
+	});
+
+	test('reports weakened protection of locked environments', () => {
+		const config = mergePolicyConfigs(orgConfig(), {
+			extends: true,
+			policy: { approval: ['maintainers', 'staging', 'bots'] },
+			approval_rules: [{ name: 'bots', requires: { count: 0 } }],
+		});
+		config.policy.disapproval = undefined;
+
+		expect(findLockViolations(orgConfig(), config)).toEqual([
+			'Locked rule "maintainers" can be bypassed by `bots`',
+			'Locked environment production: rule "bots": Approval by `bots` added to `policy.approval`',
+			'Locked environment production: Disapproval removed',
+			'Locked environment production: `production` is now approved automatically, it previously required 2 approvals',
+		]);
+	});
+
+	test('ignores weakened rules that do not apply to locked environments', () => {
+		const config = mergePolicyConfigs(orgConfig(), {
+			extends: true,
+			policy: { approval: [] },
+			approval_rules: [
+				{
+					name: 'staging',
+					if: { environment: { matches: ['staging', 'qa'] } },
+					requires: { count: 0 },
+				},
+			],
+		});
+
+		expect(findLockViolations(orgConfig(), config)).toEqual([]);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import {
+	findMatchingPattern,
+	parseNamePattern,
+	parsePattern,
+} from '../../src/policy/patterns.js';
+
+describe('patterns', () => {
+	describe('parsePattern', () => {
+		test('treats plain patterns as case-insensitive substrings', () => {
+			const regex = parsePattern('/deploy.');
+			expect(regex.test('Please /DEPLOY. now')).toBe(true);
+			expect(regex.test('/deploy now')).toBe(false);
+		});
+
+		test('treats slash-wrapped patterns as regular expressions', () => {
+			const regex = parsePattern('/^\\/deploy$/');
+			expect(regex.test('/deploy')).toBe(true);
+			expect(regex.test('/deploy now')).toBe(false);
+		});
+	});
+
+	describe('parseNamePattern', () => {
+		test.each([
+			['production', 'production', true],
+			['production', 'production-eu-west', false],
+			['production', 'Production', false],
+			['preview-pr-*', 'preview-pr-1234', true],
+			['preview-pr-*', 'preview-pr-', true],
+			['preview-pr-*', 'my-preview-pr-1234', false],
+			['production-*-west', 'production-eu-west', true],
+			['production-*-west', 'production-eu-west-2', false],
+			['production-??-west', 'production-us-west', true],
+			['production-??-west', 'production-usa-west', false],
+			['production-[a-z][a-z]-west', 'production-eu-west', true],
+			['production-[!e]*', 'production-eu-west', false],
+			['production-[!e]*', 'production-us-west', true],
+			['{staging,production}-eu-*', 'staging-eu-central', true],
+			['{staging,production}-eu-*', 'development-eu-central', false],
+			['release/*', 'release/v1', true],
+			['release/*', 'release/v1/hotfix', false],
+			['release/**', 'release/v1/hotfix', true],
+			['release/**', 'release', true],
+			['release/**', 'releases', false],
+			['**/*.md', 'README.md', true],
+			['**/*.md', 'docs/guides/setup.md', true],
+			['**/*.md', 'README.mdx', false],
+			['infra/terraform/**', 'infra/terraform', true],
+			['infra/terraform/**', 'infra/terraform/main.tf', true],
+			['infra/terraform/**', 'infra/terraform-old/main.tf', false],
+			['src/**/index.ts', 'src/index.ts', true],
+			['src/**/index.ts', 'src/policy/index.ts', true],
+			['src/**/index.ts', 'src-index.ts', false],
+			['prod**', 'production/eu', true],
+			['prod.*', 'prod.eu', true],
+			['prod.*', 'prodXeu', false],
+			['{unbalanced', '{unbalanced', true],
+		])('glob %s matching %s is %s', (pattern, name, expected) => {
+			expect(parseNamePattern(pattern).test(name)).toBe(expected);
+		});
+
+		test.each([
+			['/prod/', 'pre-production', true],
+			['/^prod/', 'pre-production', false],
+			['/^production-(eu|us)-\\w+$/', 'production-eu-west', true],
+			['/^production-(eu|us)-\\w+$/', 'production-ap-south', false],
+			['/^production$/', 'PRODUCTION', false],
+			['/^production$/i', 'PRODUCTION', true],
+		])('regex %s matching %s is %s', (pattern, name, expected) => {
+			expect(parseNamePattern(pattern).test(name)).toBe(expected);
+		});
+
+		test('throws for invalid regular expressions', () => {
+			expect(() => parseNamePattern('/(unclosed/')).toThrow();
+		});
+	});
+
+	describe('findMatchingPattern', () => {
+		test('returns the first matching pattern', () => {
+			expect(
+				findMatchingPattern('preview-pr-1234', [
+					'staging',
+					'preview-*',
+					'/preview/',
+				]),
+			).toBe('preview-*');
+			expect(findMatchingPattern('production', ['staging'])).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,101 @@
+import { parse } from 'yaml';
+import { describe, test, expect } from 'vitest';
+import {
+	MAX_NESTING_DEPTH,
+	findDeepNesting,
+	findReferenceCycles,
+	findUnreachableRules,
+} from '../../src/policy/references.js';
+
+describe('findReferenceCycles', () => {
+	test('reports aliases that refer to a value containing them', () => {
+		const config = parse(
+			['policy:', '  approval: &approval', '    - or: *approval'].join('\n'),
+		);
+
+		expect(findReferenceCycles(config)).toEqual([
+			{
+				path: ['policy', 'approval', 0, 'or'],
+				message: 'refers to a value that contains it',
+			},
+		]);
+	});
+
+	test('accepts aliases to values that do not contain them', () => {
+		const config = parse(
+			[
+				'policy:',
+				'  approval: [a, b]',
+				'approval_rules:',
+				'  - name: a',
+				'    requires: &requires',
+				'      count: 1',
+				'  - name: b',
+				'    requires: *requires',
+			].join('\n'),
+		);
+
+		expect(findReferenceCycles(config)).toEqual([]);
+	});
+});
+
+describe('findDeepNesting', () => {
+	test('reports approval groups nested too deeply', () => {
+		let approval: unknown = ['rule'];
+		for (let depth = 0; depth < MAX_NESTING_DEPTH; depth++) {
+			approval = [{ not: { and: approval } }];
+		}
+
+		const issues = findDeepNesting({ policy: { approval } });
+
+		expect(issues).toHaveLength(1);
+		expect(issues[0].message).toBe(
+			`is nested more than ${MAX_NESTING_DEPTH} levels deep`,
+		);
+		expect(issues[0].path.slice(0, 2)).toEqual(['policy', 'approval']);
+	});
+
+	test('accepts approval groups within the limit', () => {
+		expect(
+			findDeepNesting({
+				policy: { approval: [{ and: ['a', { or: ['b', { not: 'c' }] }] }] },
+			}),
+		).toEqual([]);
+	});
+});
+
+describe('findUnreachableRules', () => {
+	test('reports rules that are not referenced from the approval policy', () => {
+		const config = {
+			policy: { approval: [{ and: ['maintainers', { not: 'bots' }] }] },
+			approval_rules: [
+				{ name: 'maintainers' },
+				{ name: 'bots' },
+				{ name: 'staging' },
+			],
+		};
+
+		expect(findUnreachableRules(config)).toEqual([
+			{
+				path: ['approval_rules', 2, 'name'],
+				message: 'rule "staging" is never used by policy.approval',
+			},
+		]);
+	});
+
+	test('does not report the freeze override rule', () => {
+		const config = {
+			policy: { approval: ['maintainers'] },
+			approval_rules: [{ name: 'maintainers' }, { name: 'emergency' }],
+			freeze: { windows: [], freeze_override: 'emergency' },
+		};
+
+		expect(findUnreachableRules(config)).toEqual([]);
+	});
+
+	test('does not report rules of configurations without an approval policy', () => {
+		expect(
+			findUnreachableRules({ approval_rules: [{ name: 'maintainers' }] }),
+		).toEqual([]);
+	});
+});
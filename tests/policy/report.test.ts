@@ -0,0 +1,240 @@
+import { describe, test, expect } from 'vitest';
+import {
+	collectNamedRules,
+	renderEnvironmentReport,
+	summarizeDecision,
+} from '../../src/policy/report.js';
+import type { PolicyDecision } from '../../src/policy/types.js';
+
+describe('policy report', () => {
+	const decision: PolicyDecision = {
+		approved: true,
+		result: true,
+		outcome: 'approved',
+		approval: [
+			{
+				type: 'or',
+				result: true,
+				rules: [
+					{
+						type: 'rule',
+						name: 'maintainers have approved',
+						result: true,
+						conditions: [],
+						requirements: {
+							required: 1,
+							count: 1,
+							approvers: {
+								users: [],
+								teams: ['org/maintainers'],
+								organizations: [],
+							},
+							reviews: [
+								{ id: 1, user: 'maintainer', state: 'APPROVED', counted: true },
+							],
+						},
+					},
+					{
+						type: 'rule',
+						name: 'signed | by bots',
+						result: 'skipped',
+						conditions: [
+							{
+								condition: 'has_valid_signatures',
+								passed: false,
+								reasons: [
+									'Commit "abc" signature not verified by GitHub: unsigned',
+								],
+							},
+						],
+					},
+					{
+						type: 'and',
+						result: false,
+						rules: [
+							{
+								type: 'rule',
+								name: 'security has approved',
+								result: false,
+								conditions: [],
+								requirements: {
+									required: 2,
+									count: 0,
+									approvers: {
+										users: ['alice'],
+										teams: [],
+										organizations: ['security'],
+									},
+									reviews: [],
+								},
+							},
+							{
+								type: 'rule',
+								name: 'maintainers have approved',
+								result: true,
+								conditions: [],
+							},
+						],
+					},
+				],
+			},
+		],
+	};
+
+	test('collects each named rule once in evaluation order', () => {
+		expect(
+			collectNamedRules(decision.approval).map((rule) => rule.name),
+		).toEqual([
+			'maintainers have approved',
+			'signed | by bots',
+			'security has approved',
+		]);
+	});
+
+	test('summarizes rule statuses and missing approvals', () => {
+		expect(summarizeDecision('production', decision)).toEqual({
+			environment: 'production',
+			status: 'approved',
+			vetoedBy: [],
+			rules: [
+				{
+					name: 'maintainers have approved',
+					status: 'satisfied',
+					details: 'Approved by maintainer',
+				},
+				{
+					name: 'signed | by bots',
+					status: 'skipped',
+					details: 'Commit "abc" signature not verified by GitHub: unsigned',
+				},
+				{
+					name: 'security has approved',
+					status: 'pending',
+					details:
+						'Needs 2 more approvals from users alice; organizations security',
+				},
+			],
+		});
+	});
+
+	test('renders a markdown table and escapes table cells', () => {
+		const markdown = renderEnvironmentReport(
+			summarizeDecision('production', decision),
+		);
+
+		expect(markdown.split('\n')).toEqual([
+			'### ✅ production: approved',
+			'',
+			'| Rule | Status | Details |',
+			'| --- | --- | --- |',
+			'| maintainers have approved | ✅ satisfied | Approved by maintainer |',
+			'| signed \\| by bots | ⏭️ skipped | Commit "abc" signature not verified by GitHub: unsigned |',
+			'| security has approved | ⏳ pending | Needs 2 more approvals from users alice; organizations security |',
+		]);
+	});
+
+	test('reports the status of negated rules after the negation', () => {
+		const requirements = {
+			required: 1,
+			approvers: { users: ['alice'], teams: [], organizations: [] },
+		};
+		const negated: PolicyDecision = {
+			approved: false,
+			result: false,
+			outcome: 'pending',
+			approval: [
+				{
+					type: 'and',
+					result: false,
+					rules: [
+						{
+							type: 'not',
+							result: false,
+							rules: [
+								{
+									type: 'rule',
+									name: 'security has objected',
+									result: true,
+									conditions: [],
+									requirements: {
+										...requirements,
+										count: 1,
+										reviews: [
+											{
+												id: 1,
+												user: 'alice',
+												state: 'APPROVED',
+												counted: true,
+											},
+										],
+									},
+								},
+							],
+						},
+						{
+							type: 'not',
+							result: true,
+							rules: [
+								{
+									type: 'rule',
+									name: 'legal has objected',
+									result: false,
+									conditions: [],
+									requirements: { ...requirements, count: 0, reviews: [] },
+								},
+							],
+						},
+					],
+				},
+			],
+		};
+
+		expect(summarizeDecision('production', negated).rules).toEqual([
+			{
+				name: 'security has objected',
+				status: 'blocking',
+				details: 'Negated: Approved by alice',
+			},
+			{
+				name: 'legal has objected',
+				status: 'satisfied',
+				details: 'Negated: Needs 1 more approval from users alice',
+			},
+		]);
+	});
+
+	test('renders vetoes', () => {
+		const markdown = renderEnvironmentReport({
+			environment: 'production',
+			status: 'rejected',
+			vetoedBy: ['alice', 'bob'],
+			rules: [],
+		});
+
+		expect(markdown.split('\n')).toEqual([
+			'### ❌ production: rejected',
+			'',
+			'Vetoed by alice, bob.',
+			'',
+			'No approval rules were evaluated.',
+		]);
+	});
+
+	test('renders freezes', () => {
+		const markdown = renderEnvironmentReport({
+			environment: 'production',
+			status: 'rejected',
+			vetoedBy: [],
+			freeze: { windows: ['end of year'] },
+			rules: [],
+		});
+
+		expect(markdown.split('\n')).toEqual([
+			'### ❌ production: rejected',
+			'',
+			'Deployments are frozen by end of year. They cannot be approved until the freeze ends.',
+			'',
+			'No approval rules were evaluated.',
+		]);
+	});
+});
@@ -0,0 +1,135 @@
+import { describe, test, expect } from 'vitest';
+import {
+	isValidTimeZone,
+	isWithinWeeklyWindow,
+	localTime,
+} from '../../src/policy/schedule.js';
+import type { WeeklyWindow } from '../../src/policy/types.js';
+
+describe('isWithinWeeklyWindow', () => {
+	const businessHours: WeeklyWindow = {
+		days: ['monday', 'tuesday', 'wednesday', 'thursday'],
+		start: '09:00',
+		end: '16:00',
+		timezone: 'Europe/Athens',
+	};
+
+	test('checks business hours in winter time', () => {
+		// Thursday 2025-01-09 in Athens (UTC+2)
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-01-09T06:59:00Z')),
+		).toBe(false);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-01-09T07:00:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-01-09T13:59:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-01-09T14:00:00Z')),
+		).toBe(false);
+		// Friday
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-01-10T10:00:00Z')),
+		).toBe(false);
+	});
+
+	test('follows the start of daylight saving time', () => {
+		// Monday 2025-03-31, the day after Athens moved to UTC+3
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-03-31T05:59:00Z')),
+		).toBe(false);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-03-31T06:00:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-03-31T12:59:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-03-31T13:00:00Z')),
+		).toBe(false);
+	});
+
+	test('follows the end of daylight saving time', () => {
+		// Monday 2025-10-27, the day after Athens moved back to UTC+2
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-10-27T06:30:00Z')),
+		).toBe(false);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-10-27T07:00:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(businessHours, new Date('2025-10-27T13:59:00Z')),
+		).toBe(true);
+	});
+
+	test('uses local times on the nights clocks change', () => {
+		const maintenance: WeeklyWindow = {
+			days: ['sunday'],
+			start: '02:00',
+			end: '05:00',
+			timezone: 'Europe/Athens',
+		};
+
+		// 03:00 to 04:00 is skipped on 2025-03-30, so the window lasts two hours
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-03-29T23:59:00Z')),
+		).toBe(false);
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-03-30T00:00:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-03-30T01:59:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-03-30T02:00:00Z')),
+		).toBe(false);
+
+		// 03:00 to 04:00 is repeated on 2025-10-26, so the window lasts four hours
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-10-25T22:59:00Z')),
+		).toBe(false);
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-10-25T23:00:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-10-26T02:59:00Z')),
+		).toBe(true);
+		expect(
+			isWithinWeeklyWindow(maintenance, new Date('2025-10-26T03:00:00Z')),
+		).toBe(false);
+	});
+
+	test('covers every day in UTC when only times are given', () => {
+		const window: WeeklyWindow = { start: '22:00', end: '06:00' };
+
+		expect(isWithinWeeklyWindow(window, new Date('2025-01-11T23:00:00Z'))).toBe(
+			true,
+		);
+		expect(isWithinWeeklyWindow(window, new Date('2025-01-15T05:59:00Z'))).toBe(
+			true,
+		);
+		expect(isWithinWeeklyWindow(window, new Date('2025-01-15T12:00:00Z'))).toBe(
+			false,
+		);
+	});
+});
+
+describe('localTime', () => {
+	test('converts to the day and time of a time zone', () => {
+		expect(
+			localTime(new Date('2025-01-09T23:30:00Z'), 'Europe/Athens'),
+		).toEqual({ weekday: 'friday', minutes: 90 });
+		expect(
+			localTime(new Date('2025-07-10T23:30:00Z'), 'Europe/Athens'),
+		).toEqual({ weekday: 'friday', minutes: 150 });
+	});
+});
+
+describe('isValidTimeZone', () => {
+	test('accepts IANA time zones only', () => {
+		expect(isValidTimeZone('Europe/London')).toBe(true);
+		expect(isValidTimeZone('UTC')).toBe(true);
+		expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+	});
+});
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { describe, test, expect } from 'vitest';
+import {
+	expandRuleTemplates,
+	expandRules,
+} from '../../src/policy/templates.js';
+import type { PolicyConfig } from '../../src/policy/types.js';
+
+const fixture = (): PolicyConfig =>
+	parse(
+		fs.readFileSync(
+			path.join(__dirname, '../fixtures/policy-configs/rule-templates.yml'),
+			'utf-8',
+		),
+	);
+
+describe('expandRuleTemplates', () => {
+	test('expands rules with the values of their parameters', () => {
+		const config = expandRuleTemplates(fixture());
+
+		expect(config.rule_templates).toBeUndefined();
+		expect(config.approval_rules).toEqual([
+			{
+				name: 'payments',
+				if: { environment: { matches: ['prod-payments'] } },
+				requires: { count: 2, teams: ['test-org/payments'] },
+				methods: { github_review: true },
+			},
+			{
+				name: 'identity',
+				if: { environment: { matches: ['prod-identity'] } },
+				requires: { count: 1, teams: ['test-org/identity'] },
+				methods: { github_review: true },
+			},
+		]);
+	});
+
+	test('replaces parameters within strings and keeps keys defined by the rule', () => {
+		const config = fixture();
+		config.rule_templates![0].if = {
+			environment: { matches: ['${{ env }}-*', '${{env}}'] },
+		};
+		config.approval_rules[0].methods = { github_review: false };
+
+		const [rule] = expandRuleTemplates(config).approval_rules;
+
+		expect(rule.if).toEqual({
+			environment: { matches: ['prod-payments-*', 'prod-payments'] },
+		});
+		expect(rule.methods).toEqual({ github_review: false });
+	});
+
+	test('leaves rules without a template unchanged', () => {
+		const config = fixture();
+		config.approval_rules.push({ name: 'bots', requires: { count: 0 } });
+
+		expect(expandRuleTemplates(config).approval_rules[2]).toBe(
+			config.approval_rules[2],
+		);
+	});
+
+	test('throws if a rule cannot be expanded', () => {
+		const config = fixture();
+		config.approval_rules[0].template = 'missing';
+
+		expect(() => expandRuleTemplates(config)).toThrow(
+			'Cannot expand rule templates: unknown template "missing"',
+		);
+	});
+});
+
+describe('expandRules', () => {
+	test('reports missing, unknown and invalid parameters', () => {
+		const config: any = fixture();
+		delete config.approval_rules[0].with.count;
+		config.approval_rules[1].with.region = 'eu';
+		config.approval_rules[1].with.team = ['test-org/identity'];
+
+		expect(expandRules(config).issues).toEqual([
+			{
+				path: ['approval_rules', 0, 'with'],
+				message: 'missing parameter "count" for template "team-approval"',
+			},
+			{
+				path: ['approval_rules', 1, 'with', 'team'],
+				message: 'must be a string, a number or a boolean',
+			},
+			{
+				path: ['approval_rules', 1, 'with', 'region'],
+				message: 'unknown parameter "region" for template "team-approval"',
+			},
+		]);
+	});
+
+	test('reports templates that reference undeclared parameters', () => {
+		const config: any = fixture();
+		config.rule_templates[0].parameters = ['team', 'count'];
+		config.approval_rules = [];
+
+		expect(expandRules(config).issues).toEqual([
+			{ path: ['rule_templates', 0], message: 'unknown parameter "env"' },
+		]);
+	});
+
+	test('reports duplicate template names', () => {
+		const config: any = fixture();
+		config.rule_templates.push({ name: 'team-approval' });
+
+		expect(expandRules(config).issues).toEqual([
+			{
+				path: ['rule_templates', 1, 'name'],
+				message: 'duplicate template name "team-approval"',
+			},
+		]);
+	});
+
+	test('does not report unknown templates of partial configurations', () => {
+		const config: any = fixture();
+		delete config.rule_templates;
+
+		expect(expandRules(config, true).issues).toEqual([]);
+		expect(expandRules(config).issues).toHaveLength(2);
+	});
+});
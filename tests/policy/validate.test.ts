@@ -0,0 +1,268 @@
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { describe, test, expect } from 'vitest';
+import {
+	formatIssue,
+	formatPath,
+	validatePolicyConfig,
+} from '../../src/policy/validate.js';
+import { PERMISSIONS } from '../../src/identity/provider.js';
+import schema from '../../src/policy/deploynaut.schema.json' with { type: 'json' };
+
+const fixtures = path.join(__dirname, '../fixtures/policy-configs');
+
+const validConfig = () => ({
+	policy: {
+		approval: ['team-approval', { or: ['bot-commits'] }],
+	},
+	approval_rules: [
+		{
+			name: 'team-approval',
+			requires: { count: 1, teams: ['org/team'] },
+			methods: { github_review: true },
+		},
+		{
+			name: 'bot-commits',
+			if: { only_has_authors_in: { users: ['renovate[bot]'] } },
+			requires: { count: 0 },
+		},
+	],
+});
+
+const messages = (config: unknown) =>
+	validatePolicyConfig(config).map(formatIssue);
+
+describe('validatePolicyConfig', () => {
+	test.each(fs.readdirSync(fixtures))('accepts fixture %s', (file) => {
+		const config = parse(fs.readFileSync(path.join(fixtures, file), 'utf-8'));
+		expect(messages(config)).toEqual([]);
+	});
+
+	test('reports unknown keys with their path', () => {
+		const config: any = validConfig();
+		config.approval_rules[1].if = { authored_by: { users: ['renovate[bot]'] } };
+		config.policy.approvals = [];
+
+		expect(messages(config)).toEqual([
+			'policy.approvals: unknown key "approvals"',
+			'approval_rules[1].if.authored_by: unknown key "authored_by"',
+		]);
+	});
+
+	test('reports references to rules that do not exist', () => {
+		const config: any = validConfig();
+		config.policy.approval = [
+			'team-approval',
+			{ and: ['bot-commit', ['missing']] },
+		];
+
+		expect(messages(config)).toEqual([
+			'policy.approval[1].and[0]: unknown rule "bot-commit"',
+			'policy.approval[1].and[1][0]: unknown rule "missing"',
+		]);
+	});
+
+	test('reports negated rules that do not exist', () => {
+		const config: any = validConfig();
+		config.policy.approval = [
+			{ and: ['team-approval', { not: 'bot-commit' }] },
+			{ not: { or: ['bot-commits'] } },
+		];
+
+		expect(messages(config)).toEqual([
+			'policy.approval[0].and[1].not: unknown rule "bot-commit"',
+		]);
+	});
+
+	test('reports locked rules that do not exist', () => {
+		const config: any = validConfig();
+		config.extends = true;
+		config.locked = { rules: ['team-approval', 'missing'] };
+
+		expect(messages(config)).toEqual([
+			'locked.rules[1]: unknown rule "missing"',
+		]);
+	});
+
+	test('reports rules expanded from templates that are not valid', () => {
+		const config: any = validConfig();
+		config.rule_templates = [
+			{
+				name: 'team',
+				parameters: ['team'],
+				requires: { count: 1, teams: ['${{ team }}'] },
+			},
+		];
+		config.approval_rules.push(
+			{ name: 'payments', template: 'team', with: { team: 'payments' } },
+			{ name: 'identity', template: 'teams', with: { team: 'org/identity' } },
+		);
+
+		expect(messages(config)).toEqual([
+			'approval_rules[3].template: unknown template "teams"',
+			'approval_rules[2].requires.teams[0]: must be a team in the format org/team-slug',
+		]);
+	});
+
+	test('only reports reference cycles of cyclic configurations', () => {
+		const config = parse(
+			[
+				'policy:',
+				'  approval: &approval',
+				'    - and: [missing, *approval]',
+			].join('\n'),
+		);
+
+		expect(messages(config)).toEqual([
+			'policy.approval[0].and[1]: refers to a value that contains it',
+		]);
+	});
+
+	test('reports duplicate rule names', () => {
+		const config: any = validConfig();
+		config.approval_rules.push({
+			name: 'team-approval',
+			requires: { count: 2 },
+		});
+
+		expect(messages(config)).toEqual([
+			'approval_rules[2].name: duplicate rule name "team-approval", first defined at approval_rules[0]',
+		]);
+	});
+
+	test('reports invalid regular expressions', () => {
+		const config: any = validConfig();
+		config.approval_rules[0].if = {
+			environment: { matches: ['production', '/prod-(eu/'] },
+			changed_files: { paths: ['infra/**'], only_in: ['/docs/(.*/'] },
+			target_branch: { not_matches: ['/release-[0-9/'] },
+		};
+		config.approval_rules[0].methods.issue_comment_patterns = ['/[deploy/'];
+		config.policy.disapproval = {
+			requires: { users: ['security'] },
+			methods: {
+				github_review_comment_patterns: ['/(?<env/'],
+				issue_comment_patterns: ['/[block/'],
+			},
+		};
+
+		expect(messages(config)).toEqual([
+			expect.stringMatching(
+				/^approval_rules\[0\]\.if\.environment\.matches\[1\]: invalid pattern: /,
+			),
+			expect.stringMatching(
+				/^approval_rules\[0\]\.if\.target_branch\.not_matches\[0\]: invalid pattern: /,
+			),
+			expect.stringMatching(
+				/^approval_rules\[0\]\.if\.changed_files\.only_in\[0\]: invalid pattern: /,
+			),
+			expect.stringMatching(
+				/^approval_rules\[0\]\.methods\.issue_comment_patterns\[0\]: invalid pattern: /,
+			),
+			expect.stringMatching(
+				/^policy\.disapproval\.methods\.github_review_comment_patterns\[0\]: invalid pattern: /,
+			),
+			expect.stringMatching(
+				/^policy\.disapproval\.methods\.issue_comment_patterns\[0\]: invalid pattern: /,
+			),
+		]);
+	});
+
+	test('reports negative and fractional counts', () => {
+		const config: any = validConfig();
+		config.approval_rules[0].requires.count = -1;
+		config.approval_rules[1].requires.count = 1.5;
+
+		expect(messages(config)).toEqual([
+			'approval_rules[0].requires.count: must be at least 0',
+			'approval_rules[1].requires.count: must be an integer',
+		]);
+	});
+
+	test('reports invalid values', () => {
+		const config: any = validConfig();
+		config.policy.approval.push(3);
+		config.approval_rules[0].requires.teams = ['team'];
+		config.approval_rules[0].requires.permissions = ['owner'];
+		config.approval_rules[0].if = {
+			event: { matches: ['push', 'pull-request'] },
+		};
+		delete config.approval_rules[1].name;
+
+		expect(messages(config)).toEqual([
+			'policy.approval[2]: must be a string, a mapping or a list',
+			'approval_rules[0].requires.teams[0]: must be a team in the format org/team-slug',
+			'approval_rules[0].requires.permissions[0]: must be one of none, read, triage, write, maintain, admin',
+			'approval_rules[0].if.event.matches[1]: must be one of pull_request, pull_request_target, push, workflow_dispatch',
+			'approval_rules[1]: missing required key "name"',
+			'policy.approval[1].or[0]: unknown rule "bot-commits"',
+		]);
+	});
+
+	test('reports freeze windows that are not valid', () => {
+		const config: any = validConfig();
+		config.freeze = {
+			freeze_override: 'emergency',
+			windows: [
+				{ name: 'holidays', from: '2025-12-24', until: '2025-12-20' },
+				{ name: 'holidays', from: '2025-12-24', days: ['friday'] },
+				{ name: 'quarter end', until: '2025-04-01', timezone: 'UTC' },
+				{ name: 'release', from: '2026-05-01', until: '2026-13-05' },
+				{
+					name: 'weekends',
+					days: ['saturday', 'sun'],
+					start: '25:00',
+					timezone: 'Mars/Olympus_Mons',
+				},
+			],
+		};
+
+		expect(messages(config)).toEqual([
+			'freeze.windows[4].days[1]: must be one of monday, tuesday, wednesday, thursday, friday, saturday, sunday',
+			'freeze.windows[4].start: must be a time of day (HH:MM)',
+			'freeze.freeze_override: unknown rule "emergency"',
+			'freeze.windows[0].until: must be after `from`',
+			'freeze.windows[1].name: duplicate freeze window name "holidays"',
+			'freeze.windows[1]: must have either `from` and `until`, or `days`',
+			'freeze.windows[2]: missing required key "from"',
+			'freeze.windows[2].timezone: only applies to windows with `days`',
+			'freeze.windows[3].until: must be a valid date',
+			'freeze.windows[4].timezone: unknown time zone "Mars/Olympus_Mons"',
+		]);
+	});
+
+	test('reports time windows that are not valid', () => {
+		const config: any = validConfig();
+		config.approval_rules[0].if = {
+			time_window: {
+				days: ['monday', 'weekdays'],
+				end: '4pm',
+				timezone: 'Europe/Athina',
+			},
+		};
+
+		expect(messages(config)).toEqual([
+			'approval_rules[0].if.time_window.days[1]: must be one of monday, tuesday, wednesday, thursday, friday, saturday, sunday',
+			'approval_rules[0].if.time_window.end: must be a time of day (HH:MM)',
+			'approval_rules[0].if.time_window.timezone: unknown time zone "Europe/Athina"',
+		]);
+	});
+
+	test('reports configurations that are not mappings', () => {
+		expect(messages(null)).toEqual(['(root): must be a mapping']);
+	});
+
+	test('lists the same permissions as the identity providers', () => {
+		expect(schema.$defs.permission_list.items.enum).toEqual(PERMISSIONS);
+	});
+});
+
+describe('formatPath', () => {
+	test('formats keys and indexes', () => {
+		expect(formatPath(['approval_rules', 0, 'if', 'environment'])).toBe(
+			'approval_rules[0].if.environment',
+		);
+		expect(formatPath([])).toBe('(root)');
+	});
+});